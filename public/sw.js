@@ -0,0 +1,133 @@
+// Service worker for the web build: keeps the app shell, geocoding results and map
+// tiles available offline, and routes notification taps back to the app.
+
+const VERSION = 'v1';
+// Only caches with this prefix belong to the worker; offline map areas live in their own cache
+const CACHE_PREFIX = 'smart-transit-sw-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${VERSION}`;
+const GEOCODING_CACHE = `${CACHE_PREFIX}geocoding-${VERSION}`;
+const TILE_CACHE = `${CACHE_PREFIX}tiles-${VERSION}`;
+const MAX_GEOCODING_ENTRIES = 200;
+const MAX_TILE_ENTRIES = 1000;
+
+const SHELL_FILES = ['/', '/index.html', '/manifest.json', '/favicon.ico', '/icon-192x192.png', '/icon-512x512.png'];
+// Bundled alarm sounds, so alarms can sound offline
+const SOUND_FILES = ['chime', 'beeps', 'klaxon', 'siren', 'success'].map(sound => `/sounds/${sound}.wav`);
+
+// Hashed bundle files, listed at build time
+const getBuiltFiles = async () => {
+  try {
+    const response = await fetch('/precache-manifest.json', { cache: 'no-store' });
+    return response.ok ? await response.json() : [];
+  } catch {
+    return [];
+  }
+};
+
+const trimCache = async (cache, maxEntries) => {
+  const keys = await cache.keys();
+  // Keys come back in insertion order, so the oldest go first
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+const putInCache = async (cacheName, request, response, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  await cache.put(request, response);
+  if (maxEntries) await trimCache(cache, maxEntries);
+};
+
+// Fresh when online, the last good copy when not
+const networkFirst = async (request, cacheName, maxEntries, fallbackUrl) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) await putInCache(cacheName, request, response.clone(), maxEntries);
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request) ?? (fallbackUrl && await caches.match(fallbackUrl));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Serve the cached copy straight away and refresh it in the background
+const staleWhileRevalidate = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  const refresh = fetch(request).then(async response => {
+    if (response.ok) await putInCache(cacheName, request, response.clone());
+    return response;
+  });
+
+  if (cached) {
+    refresh.catch(() => undefined);
+    return cached;
+  }
+  return refresh;
+};
+
+// Tiles rarely change; this also finds tiles saved with an offline map area
+const cacheFirst = async (request, cacheName, maxEntries) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  // Opaque responses have no status and would use up storage quota, so only CORS tiles are kept
+  if (response.ok) await putInCache(cacheName, request, response.clone(), maxEntries);
+  return response;
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    const files = [...new Set([...SHELL_FILES, ...SOUND_FILES, ...await getBuiltFiles()])];
+    await cache.addAll(files);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const current = [SHELL_CACHE, GEOCODING_CACHE, TILE_CACHE];
+    const names = await caches.keys();
+    await Promise.all(
+      names.filter(name => name.startsWith(CACHE_PREFIX) && !current.includes(name)).map(name => caches.delete(name))
+    );
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (request.mode === 'navigate') {
+    // Network first so a new deploy is picked up; the cached shell keeps the app opening offline
+    event.respondWith(networkFirst(request, SHELL_CACHE, 0, '/index.html'));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(staleWhileRevalidate(request, SHELL_CACHE));
+  } else if (url.hostname === 'nominatim.openstreetmap.org') {
+    event.respondWith(networkFirst(request, GEOCODING_CACHE, MAX_GEOCODING_ENTRIES));
+  } else if (url.hostname.endsWith('tile.openstreetmap.org')) {
+    event.respondWith(cacheFirst(request, TILE_CACHE, MAX_TILE_ENTRIES));
+  }
+});
+
+// Tapping a notification focuses the app and passes the chosen action on to it
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const [client] = windows;
+
+    if (client) {
+      await client.focus();
+      if (event.action) {
+        client.postMessage({ type: 'notification-action', action: event.action });
+      }
+    } else {
+      // No window left open; the app picks the action up from the URL when it starts
+      await self.clients.openWindow(event.action ? `/?notificationAction=${encodeURIComponent(event.action)}` : '/');
+    }
+  })());
+});
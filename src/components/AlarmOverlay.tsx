@@ -0,0 +1,84 @@
+import React from 'react';
+import { AlarmClockOff, BellRing } from 'lucide-react';
+import { Alert, SnoozeOption } from '@/types';
+import { ALERT_COLORS, getAlertTitle } from '@/utils/alertRules';
+import { SNOOZE_MINUTES, describeSnooze } from '@/utils/alarms';
+import { formatDistance } from '@/utils/geolocation';
+import GlassCard from './GlassCard';
+import GlassButton from './GlassButton';
+
+interface AlarmOverlayProps {
+  alarm: Alert;
+  distance?: number;
+  acknowledgeLabel?: string;
+  snoozeDistances?: number[];
+  onAcknowledge: () => void;
+  onSnooze: (option: SnoozeOption) => void;
+}
+
+// Covers the tracking screen while an alarm is sounding, so it cannot be missed or tapped past
+const AlarmOverlay: React.FC<AlarmOverlayProps> = ({
+  alarm,
+  distance,
+  acknowledgeLabel = "I'm Awake",
+  snoozeDistances = [],
+  onAcknowledge,
+  onSnooze
+}) => {
+  const color = ALERT_COLORS[alarm.type];
+  const snoozeOptions: SnoozeOption[] = [
+    ...SNOOZE_MINUTES.map(minutes => ({ type: 'minutes' as const, minutes })),
+    ...snoozeDistances.map(snoozeDistance => ({ type: 'distance' as const, distance: snoozeDistance }))
+  ];
+
+  return (
+    <div
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby="alarm-title"
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-8 bg-white/95 dark:bg-gray-950/95 p-6 backdrop-blur-md"
+      style={{ boxShadow: `inset 0 0 120px ${color}60` }}
+    >
+      <div className="flex flex-col items-center gap-4 text-center">
+        <div className="rounded-full p-6 animate-pulse" style={{ backgroundColor: `${color}30` }}>
+          <BellRing size={64} className="animate-bounce" style={{ color }} />
+        </div>
+        <h2 id="alarm-title" className="text-3xl font-bold text-white">
+          {getAlertTitle(alarm.type)}
+        </h2>
+        <p className="max-w-sm text-lg text-gray-200">{alarm.message}</p>
+        {distance !== undefined && (
+          <p className="text-gray-400">{formatDistance(distance)} to go</p>
+        )}
+      </div>
+
+      <div className="w-full max-w-sm space-y-4">
+        <GlassButton variant="success" size="lg" className="w-full py-6 text-xl font-bold" onClick={onAcknowledge} glowing>
+          {acknowledgeLabel}
+        </GlassButton>
+
+        <GlassCard className="p-4 space-y-3">
+          <div className="flex items-center gap-2 text-sm text-gray-300">
+            <AlarmClockOff size={16} />
+            Snooze
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {snoozeOptions.map(option => (
+              <GlassButton
+                key={describeSnooze(option)}
+                variant="secondary"
+                size="sm"
+                className="px-2"
+                onClick={() => onSnooze(option)}
+              >
+                {describeSnooze(option)}
+              </GlassButton>
+            ))}
+          </div>
+        </GlassCard>
+      </div>
+    </div>
+  );
+};
+
+export default AlarmOverlay;
@@ -0,0 +1,393 @@
+import React, { useMemo, useState } from 'react';
+import { format, parse } from 'date-fns';
+import { CalendarDays, CalendarOff, Clock, Pencil, Plus, Repeat, Trash2, X } from 'lucide-react';
+import { CommuteAction, CommuteTemplate, Destination, TransportMode, UserPreferences, Weekday } from '@/types';
+import { commuteScheduler } from '@/services/commuteScheduler';
+import {
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  WORKDAYS,
+  formatCommuteDays,
+  getDateKey,
+  getNextCommuteOccurrence
+} from '@/utils/commuteSchedule';
+import { TRANSPORT_ICONS } from '@/utils/journeyHistory';
+import { toast } from '@/hooks/use-toast';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import GlassCard from './GlassCard';
+import GlassButton from './GlassButton';
+import TransportModeSelector from './TransportModeSelector';
+
+interface CommuteManagerProps {
+  preferences: UserPreferences;
+  destinations: Destination[];
+  className?: string;
+}
+
+interface CommuteDraft {
+  id: string | null;
+  name: string;
+  destinationId: string;
+  transportMode: TransportMode;
+  days: Weekday[];
+  time: string;
+  action: CommuteAction;
+  refreshAlertRules: boolean;
+}
+
+const ACTION_LABELS: Record<CommuteAction, string> = {
+  prompt: 'Ask me',
+  auto: 'Start automatically'
+};
+
+const parseDateKey = (date: string): Date => parse(date, 'yyyy-MM-dd', new Date());
+
+const CommuteManager: React.FC<CommuteManagerProps> = ({ preferences, destinations, className = '' }) => {
+  const [commutes, setCommutes] = useState<CommuteTemplate[]>(() => commuteScheduler.getCommutes());
+  const [holidays, setHolidays] = useState<string[]>(() => commuteScheduler.getHolidays());
+  const [draft, setDraft] = useState<CommuteDraft | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const today = getDateKey(Date.now());
+  const upcomingHolidays = useMemo(() => holidays.filter(date => date >= today), [holidays, today]);
+
+  const refresh = () => {
+    setCommutes(commuteScheduler.getCommutes());
+    setHolidays(commuteScheduler.getHolidays());
+  };
+
+  const startDraft = (template?: CommuteTemplate) => {
+    setDraftError(null);
+    setDraft(template
+      ? {
+        id: template.id,
+        name: template.name,
+        destinationId: template.destination.id,
+        transportMode: template.transportMode,
+        days: template.schedule.days,
+        time: template.schedule.time,
+        action: template.schedule.action,
+        refreshAlertRules: false
+      }
+      : {
+        id: null,
+        name: '',
+        destinationId: destinations[0]?.id ?? '',
+        transportMode: preferences.defaultTransportMode,
+        days: WORKDAYS,
+        time: '08:00',
+        action: 'prompt',
+        refreshAlertRules: true
+      });
+  };
+
+  const updateDraft = (changes: Partial<CommuteDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const toggleDraftDay = (day: Weekday) => {
+    if (!draft) return;
+    updateDraft({ days: draft.days.includes(day) ? draft.days.filter(d => d !== day) : [...draft.days, day] });
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+
+    const existing = commutes.find(c => c.id === draft.id);
+    const destination = destinations.find(d => d.id === draft.destinationId) ?? existing?.destination;
+    if (!draft.name.trim()) {
+      setDraftError('Give the commute a name');
+      return;
+    }
+    if (!destination) {
+      setDraftError('Choose a destination');
+      return;
+    }
+    if (draft.days.length === 0) {
+      setDraftError('Choose at least one day');
+      return;
+    }
+
+    commuteScheduler.saveCommute({
+      id: existing?.id ?? `commute_${Date.now()}`,
+      name: draft.name.trim(),
+      destination,
+      transportMode: draft.transportMode,
+      alertRules: draft.refreshAlertRules || !existing ? preferences.alertRules : existing.alertRules,
+      schedule: { days: [...draft.days].sort(), time: draft.time, action: draft.action },
+      enabled: existing?.enabled ?? true,
+      skippedDates: existing?.skippedDates ?? [],
+      lastTriggered: existing?.lastTriggered,
+      createdAt: existing?.createdAt ?? Date.now()
+    });
+    setDraft(null);
+    refresh();
+
+    toast({
+      title: "Commute Saved",
+      description: `${draft.name.trim()} · ${formatCommuteDays(draft.days)} at ${draft.time}`,
+      duration: 2000,
+    });
+
+    commuteScheduler.requestPermission().then(granted => {
+      if (!granted) {
+        toast({
+          title: "Notifications Off",
+          description: "Commutes will only start while the app is open",
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const handleDelete = (template: CommuteTemplate) => {
+    commuteScheduler.deleteCommute(template.id);
+    refresh();
+  };
+
+  const handleToggleEnabled = (template: CommuteTemplate, enabled: boolean) => {
+    commuteScheduler.setCommuteEnabled(template.id, enabled);
+    refresh();
+  };
+
+  const handleToggleSkipToday = (template: CommuteTemplate) => {
+    commuteScheduler.setDateSkipped(template.id, today, !template.skippedDates.includes(today));
+    refresh();
+  };
+
+  const handleHolidaysChange = (dates: Date[] | undefined) => {
+    // Past holidays are dropped; they can no longer affect a commute
+    commuteScheduler.setHolidays((dates ?? []).map(getDateKey).filter(date => date >= today));
+    refresh();
+  };
+
+  const renderChoice = <T extends string>(value: T, selected: T, label: string, onSelect: (value: T) => void) => (
+    <button
+      key={value}
+      type="button"
+      onClick={() => onSelect(value)}
+      className={`py-1.5 rounded-lg border text-xs transition-colors ${
+        value === selected
+          ? 'border-electric-400/60 bg-electric-500/20 text-electric-300'
+          : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderCommute = (template: CommuteTemplate) => {
+    const next = getNextCommuteOccurrence(template, Date.now(), holidays);
+    const skippedToday = template.skippedDates.includes(today);
+
+    return (
+      <GlassCard key={template.id} className="p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <div className="text-2xl">{TRANSPORT_ICONS[template.transportMode]}</div>
+          <div className="flex-1 min-w-0">
+            <div className="text-white font-medium truncate">{template.name}</div>
+            <div className="text-gray-400 text-xs truncate">
+              {template.destination.name} · {formatCommuteDays(template.schedule.days)} at {template.schedule.time}
+            </div>
+          </div>
+          <Switch checked={template.enabled} onCheckedChange={enabled => handleToggleEnabled(template, enabled)} />
+        </div>
+
+        <div className="flex items-center justify-between text-xs">
+          <span className="flex items-center gap-1 text-gray-400">
+            <Clock size={12} />
+            {next ? `Next ${format(next, 'EEE d MMM, HH:mm')}` : 'Not scheduled'}
+          </span>
+          <span className="text-electric-400">{ACTION_LABELS[template.schedule.action]}</span>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <GlassButton
+            variant="secondary"
+            size="sm"
+            onClick={() => handleToggleSkipToday(template)}
+            disabled={!template.enabled}
+          >
+            <CalendarOff size={14} />
+            {skippedToday ? 'Unskip' : 'Skip today'}
+          </GlassButton>
+          <GlassButton variant="secondary" size="sm" onClick={() => startDraft(template)}>
+            <Pencil size={14} />
+            Edit
+          </GlassButton>
+          <GlassButton variant="danger" size="sm" onClick={() => handleDelete(template)}>
+            <Trash2 size={14} />
+            Delete
+          </GlassButton>
+        </div>
+      </GlassCard>
+    );
+  };
+
+  if (draft) {
+    const existing = commutes.find(c => c.id === draft.id);
+    const destinationOptions = existing && !destinations.some(d => d.id === existing.destination.id)
+      ? [existing.destination, ...destinations]
+      : destinations;
+
+    return (
+      <div className={`space-y-4 ${className}`}>
+        <GlassCard className="p-4 space-y-4">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            placeholder="Commute name, e.g. Morning to work"
+            className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-xl outline-none text-white placeholder-gray-400 text-sm"
+          />
+
+          {destinationOptions.length > 0 ? (
+            <Select value={draft.destinationId} onValueChange={(value) => updateDraft({ destinationId: value })}>
+              <SelectTrigger className="h-auto py-2 bg-white/5 border-white/10 text-gray-300">
+                <SelectValue placeholder="Destination" />
+              </SelectTrigger>
+              <SelectContent>
+                {destinationOptions.map(destination => (
+                  <SelectItem key={destination.id} value={destination.id}>{destination.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="text-gray-400 text-sm">
+              Destinations you travel to are saved automatically; complete a journey first.
+            </p>
+          )}
+
+          <TransportModeSelector
+            selectedMode={draft.transportMode}
+            onModeChange={(mode) => updateDraft({ transportMode: mode })}
+          />
+
+          <div className="grid grid-cols-7 gap-1">
+            {WEEKDAYS.map(day => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleDraftDay(day)}
+                className={`py-1.5 rounded-lg border text-xs transition-colors ${
+                  draft.days.includes(day)
+                    ? 'border-electric-400/60 bg-electric-500/20 text-electric-300'
+                    : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10'
+                }`}
+              >
+                {WEEKDAY_LABELS[day]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-white text-sm font-medium">Leave at</span>
+            <input
+              type="time"
+              value={draft.time}
+              onChange={(e) => e.target.value && updateDraft({ time: e.target.value })}
+              className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg outline-none text-white text-sm"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {(['prompt', 'auto'] as CommuteAction[]).map(action =>
+              renderChoice<CommuteAction>(action, draft.action, ACTION_LABELS[action], value => updateDraft({ action: value }))
+            )}
+          </div>
+
+          {existing ? (
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <div className="text-white text-sm font-medium">Use current alert settings</div>
+                <div className="text-gray-400 text-xs">Otherwise the alerts saved with this commute are kept</div>
+              </div>
+              <Switch
+                checked={draft.refreshAlertRules}
+                onCheckedChange={(checked) => updateDraft({ refreshAlertRules: checked })}
+              />
+            </div>
+          ) : (
+            <p className="text-gray-400 text-xs">The commute keeps a copy of your current alert settings.</p>
+          )}
+
+          {draftError && <p className="text-red-400 text-sm">{draftError}</p>}
+        </GlassCard>
+
+        <div className="grid grid-cols-2 gap-4">
+          <GlassButton variant="secondary" onClick={() => setDraft(null)} className="py-4">
+            Cancel
+          </GlassButton>
+          <GlassButton variant="primary" onClick={handleSaveDraft} className="py-4">
+            Save Commute
+          </GlassButton>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {commutes.length === 0 && (
+        <GlassCard className="p-8 text-center">
+          <Repeat size={48} className="mx-auto text-gray-400 mb-4" />
+          <h3 className="text-lg font-semibold text-white mb-2">No Commutes Yet</h3>
+          <p className="text-gray-400 text-sm">Save a regular trip and it will be ready to go on schedule</p>
+        </GlassCard>
+      )}
+
+      {commutes.map(renderCommute)}
+
+      <GlassButton variant="primary" className="w-full" onClick={() => startDraft()}>
+        <Plus size={16} />
+        New Commute
+      </GlassButton>
+
+      {/* Holidays */}
+      <GlassCard className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="text-white font-medium">Holidays</h4>
+            <p className="text-gray-400 text-xs">No commute comes due on these days</p>
+          </div>
+          <Popover>
+            <PopoverTrigger className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-gray-300 hover:bg-white/10 transition-colors">
+              <CalendarDays size={14} />
+              Choose
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="multiple"
+                selected={upcomingHolidays.map(parseDateKey)}
+                onSelect={handleHolidaysChange}
+                disabled={{ before: new Date() }}
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        {upcomingHolidays.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {upcomingHolidays.map(date => (
+              <span key={date} className="flex items-center gap-1 px-2 py-1 rounded-full bg-white/10 text-gray-300 text-xs">
+                {format(parseDateKey(date), 'EEE d MMM')}
+                <button
+                  type="button"
+                  onClick={() => handleHolidaysChange(upcomingHolidays.filter(d => d !== date).map(parseDateKey))}
+                  className="text-gray-400 hover:text-white"
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </GlassCard>
+    </div>
+  );
+};
+
+export default CommuteManager;
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { Mail, MessageSquare, Share2 } from 'lucide-react';
+import { ContactChannel, ContactMessageError, emergencyContacts } from '@/services/emergencyContacts';
+import { ContactMessage, getMailtoUrl, getSmsUrl } from '@/utils/contactMessages';
+import { toast } from '@/hooks/use-toast';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import GlassButton from './GlassButton';
+
+interface ContactMessageDialogProps {
+  message: ContactMessage | null;
+  onClose: () => void;
+}
+
+// Lets the user send a composed message to their contacts by text, email or the share sheet
+const ContactMessageDialog: React.FC<ContactMessageDialogProps> = ({ message, onClose }) => {
+  const [canShare, setCanShare] = useState(false);
+
+  useEffect(() => {
+    emergencyContacts.canShare().then(setCanShare);
+  }, []);
+
+  const handleSend = async (channel: ContactChannel) => {
+    if (!message) return;
+
+    try {
+      await emergencyContacts.send(message, channel);
+      onClose();
+    } catch (error) {
+      console.error('Error sending contact message:', error);
+      toast({
+        title: "Message Not Sent",
+        description: error instanceof ContactMessageError ? error.message : 'The message could not be opened',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isSos = message?.kind === 'sos';
+
+  return (
+    <AlertDialog open={!!message} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{isSos ? '🆘 Send SOS' : 'Let Your Contacts Know'}</AlertDialogTitle>
+          <AlertDialogDescription>
+            To {message?.recipients.map(contact => contact.name).join(', ')}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <p className="whitespace-pre-line break-words rounded-lg bg-white/5 p-3 text-sm text-gray-300">
+          {message?.body}
+        </p>
+
+        <div className="grid grid-cols-1 gap-2">
+          {message && getSmsUrl(message) && (
+            <GlassButton variant={isSos ? 'danger' : 'primary'} onClick={() => handleSend('sms')}>
+              <MessageSquare size={16} />
+              Text Message
+            </GlassButton>
+          )}
+          {message && getMailtoUrl(message) && (
+            <GlassButton variant="secondary" onClick={() => handleSend('email')}>
+              <Mail size={16} />
+              Email
+            </GlassButton>
+          )}
+          {canShare && (
+            <GlassButton variant="secondary" onClick={() => handleSend('share')}>
+              <Share2 size={16} />
+              Share
+            </GlassButton>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Not Now</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ContactMessageDialog;
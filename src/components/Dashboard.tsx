@@ -1,7 +1,8 @@
 
 import React from 'react';
-import { MapPin, Clock, Zap, TrendingUp } from 'lucide-react';
-import { Journey, TravelStats, TransportMode } from '@/types';
+import { MapPin, Clock, Zap, TrendingUp, History, ChevronRight, Repeat } from 'lucide-react';
+import { format } from 'date-fns';
+import { CommuteTemplate, Journey, TravelStats, TransportMode } from '@/types';
 import GlassCard from './GlassCard';
 import GlassButton from './GlassButton';
 import ProgressRing from './ProgressRing';
@@ -11,6 +12,12 @@ interface DashboardProps {
   travelStats: TravelStats;
   onStartNewJourney: () => void;
   onResumeJourney?: () => void;
+  lastJourney?: Journey | null;
+  onReplayJourney?: (journey: Journey) => void;
+  onViewHistory?: () => void;
+  onViewInsights?: () => void;
+  nextCommute?: { template: CommuteTemplate; at: Date } | null;
+  onViewCommutes?: () => void;
   className?: string;
 }
 
@@ -19,6 +26,12 @@ const Dashboard: React.FC<DashboardProps> = ({
   travelStats,
   onStartNewJourney,
   onResumeJourney,
+  lastJourney,
+  onReplayJourney,
+  onViewHistory,
+  onViewInsights,
+  nextCommute,
+  onViewCommutes,
   className = ''
 }) => {
   const formatStats = (stats: TravelStats) => {
@@ -151,9 +164,75 @@ const Dashboard: React.FC<DashboardProps> = ({
         </GlassCard>
       </div>
 
+      {/* Last Journey */}
+      {lastJourney && lastJourney.track && lastJourney.track.length > 1 && onReplayJourney && (
+        <GlassCard className="p-4" hoverable onClick={() => onReplayJourney(lastJourney)}>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-purple-500/20 rounded-lg">
+                <History size={20} className="text-purple-400" />
+              </div>
+              <div>
+                <div className="text-white font-medium">{lastJourney.destination.name}</div>
+                <div className="text-gray-400 text-sm">
+                  {new Date(lastJourney.startTime).toLocaleString()}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-1 text-electric-400 text-sm font-medium">
+              <Clock size={14} />
+              Replay
+            </div>
+          </div>
+        </GlassCard>
+      )}
+
+      {onViewHistory && travelStats.totalJourneys > 0 && (
+        <GlassButton variant="secondary" onClick={onViewHistory} className="w-full">
+          <History size={16} />
+          Journey History
+        </GlassButton>
+      )}
+
+      {/* Commutes */}
+      {onViewCommutes && (
+        <GlassCard className="p-4" hoverable onClick={onViewCommutes}>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-electric-500/20 rounded-lg">
+                <Repeat size={20} className="text-electric-400" />
+              </div>
+              <div>
+                <div className="text-white font-medium">
+                  {nextCommute ? nextCommute.template.name : 'Commutes'}
+                </div>
+                <div className="text-gray-400 text-sm">
+                  {nextCommute
+                    ? `Next ${format(nextCommute.at, 'EEE HH:mm')} to ${nextCommute.template.destination.name}`
+                    : 'Schedule your regular trips'}
+                </div>
+              </div>
+            </div>
+            <ChevronRight size={16} className="text-gray-400" />
+          </div>
+        </GlassCard>
+      )}
+
       {/* Travel Insights */}
       <GlassCard className="p-4">
-        <h3 className="text-lg font-semibold text-white mb-4">Travel Insights</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">Travel Insights</h3>
+          {onViewInsights && travelStats.totalJourneys > 0 && (
+            <button
+              type="button"
+              onClick={onViewInsights}
+              className="flex items-center gap-1 text-electric-400 text-sm font-medium hover:text-electric-300"
+            >
+              View all
+              <ChevronRight size={14} />
+            </button>
+          )}
+        </div>
         
         <div className="grid grid-cols-2 gap-4">
           <div className="text-center">
@@ -1,17 +1,20 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { MapPin, Search, Clock, Star, Navigation } from 'lucide-react';
-import { Destination } from '@/types';
+import { MapPin, Search, Clock, Star, Navigation, TramFront } from 'lucide-react';
+import { Destination, TransitFeed, TransitRide } from '@/types';
 import { nominatimService } from '@/services/nominatimService';
 import { calculateDistance, formatDistance } from '@/utils/geolocation';
+import { createTransitDestination } from '@/utils/transitRide';
 import GlassCard from './GlassCard';
 import GlassButton from './GlassButton';
+import TransitStopPicker from './TransitStopPicker';
 
 interface DestinationInputProps {
   onDestinationSelect: (destination: Destination) => void;
   recentDestinations: Destination[];
   favoriteDestinations: Destination[];
   currentLocation?: { lat: number; lng: number } | null;
+  transitFeed?: TransitFeed | null;
   className?: string;
 }
 
@@ -20,6 +23,7 @@ const DestinationInput: React.FC<DestinationInputProps> = ({
   recentDestinations,
   favoriteDestinations,
   currentLocation,
+  transitFeed,
   className = ''
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
@@ -91,6 +95,10 @@ const DestinationInput: React.FC<DestinationInputProps> = ({
     setError(null);
   };
 
+  const handleRideSelect = (ride: TransitRide) => {
+    handleDestinationClick(createTransitDestination(ride));
+  };
+
   const renderDestinationItem = (destination: Destination, type: 'search' | 'recent' | 'favorite') => {
     const icon = type === 'favorite' ? Star : type === 'recent' ? Clock : MapPin;
     const Icon = icon;
@@ -195,6 +203,19 @@ const DestinationInput: React.FC<DestinationInputProps> = ({
         </GlassCard>
       )}
 
+      {/* Transit Stops */}
+      {transitFeed && !showSuggestions && (
+        <GlassCard className="mb-4">
+          <div className="p-2">
+            <h3 className="text-gray-400 text-xs uppercase tracking-wide font-semibold px-3 py-2 flex items-center gap-2">
+              <TramFront size={12} />
+              Transit Stop
+            </h3>
+            <TransitStopPicker feed={transitFeed} onRideSelect={handleRideSelect} />
+          </div>
+        </GlassCard>
+      )}
+
       {/* Favorite Destinations */}
       {favoriteDestinations.length > 0 && !showSuggestions && (
         <GlassCard className="mb-4">
@@ -226,7 +247,7 @@ const DestinationInput: React.FC<DestinationInputProps> = ({
       )}
 
       {/* Empty State */}
-      {!showSuggestions && favoriteDestinations.length === 0 && recentDestinations.length === 0 && !error && (
+      {!showSuggestions && !transitFeed && favoriteDestinations.length === 0 && recentDestinations.length === 0 && !error && (
         <GlassCard className="p-8 text-center">
           <MapPin size={48} className="mx-auto mb-4 text-gray-600" />
           <h3 className="text-white font-medium mb-2">Find Your Destination</h3>
@@ -0,0 +1,274 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bug, FileUp, Navigation, Pause, Play, RotateCcw, Satellite } from 'lucide-react';
+import { Location } from '@/types';
+import { locationSourceManager } from '@/services/locationSource';
+import { SimulatedLocationSource, SimulationProgress } from '@/services/locationSimulator';
+import { parseTrackFile } from '@/utils/trackParsers';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { toast } from '@/hooks/use-toast';
+import GlassCard from './GlassCard';
+import GlassButton from './GlassButton';
+
+interface DeveloperPanelProps {
+  className?: string;
+}
+
+type RouteInput = 'file' | 'points';
+
+const TIME_MULTIPLIERS = [1, 10, 30, 60];
+
+const parseCoordinates = (value: string): Location | null => {
+  const [lat, lng] = value.split(',').map(part => parseFloat(part.trim()));
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+  return { lat, lng };
+};
+
+const formatElapsed = (milliseconds: number): string => {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// The simulator outlives this panel: it stays installed until real GPS is restored
+const getActiveSimulator = (): SimulatedLocationSource | null => {
+  const source = locationSourceManager.getSource();
+  return source instanceof SimulatedLocationSource ? source : null;
+};
+
+const DeveloperPanel: React.FC<DeveloperPanelProps> = ({ className = '' }) => {
+  const [simulator, setSimulator] = useState<SimulatedLocationSource | null>(getActiveSimulator);
+  const [progress, setProgress] = useState<SimulationProgress | null>(() => getActiveSimulator()?.getProgress() ?? null);
+  const [routeInput, setRouteInput] = useState<RouteInput>('file');
+  const [trackPoints, setTrackPoints] = useState<Location[] | null>(null);
+  const [trackName, setTrackName] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [speed, setSpeed] = useState(30);
+  const [timeMultiplier, setTimeMultiplier] = useState(10);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!simulator) return;
+
+    setProgress(simulator.getProgress());
+    return simulator.onProgress(setProgress);
+  }, [simulator]);
+
+  useEffect(() => {
+    return locationSourceManager.onSourceChange(() => setSimulator(getActiveSimulator()));
+  }, []);
+
+  useEffect(() => {
+    simulator?.setTimeMultiplier(timeMultiplier);
+  }, [simulator, timeMultiplier]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const points = parseTrackFile(file.name, await file.text());
+      setTrackPoints(points);
+      setTrackName(file.name);
+    } catch (error) {
+      console.error('Failed to parse track file:', error);
+      toast({
+        title: "Invalid Track",
+        description: error instanceof Error ? error.message : 'The file could not be read',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const createSimulator = (): SimulatedLocationSource | null => {
+    const options = { timeMultiplier };
+
+    if (routeInput === 'file') {
+      return trackPoints ? SimulatedLocationSource.fromTrack(trackPoints, speed, options) : null;
+    }
+
+    const start = parseCoordinates(from);
+    const end = parseCoordinates(to);
+    return start && end ? SimulatedLocationSource.between(start, end, speed, options) : null;
+  };
+
+  const handleLoad = () => {
+    const next = createSimulator();
+    if (!next) {
+      toast({
+        title: "Nothing to Simulate",
+        description: routeInput === 'file'
+          ? 'Choose a GPX or GeoJSON track first'
+          : 'Enter start and end points as "lat, lng"',
+        variant: "destructive",
+      });
+      return;
+    }
+
+    simulator?.dispose();
+    locationSourceManager.setSource(next);
+    toast({
+      title: "Simulator Ready",
+      description: `${formatElapsed(next.getDuration())} of simulated travel loaded`,
+      duration: 2000,
+    });
+  };
+
+  const handleUseRealGps = () => {
+    simulator?.dispose();
+    locationSourceManager.setSource(null);
+    setProgress(null);
+  };
+
+  const renderOptionButton = (isSelected: boolean, label: string, onClick: () => void) => (
+    <button
+      key={label}
+      type="button"
+      onClick={onClick}
+      className={`py-1.5 rounded-lg border text-xs transition-colors ${
+        isSelected
+          ? 'border-electric-400/60 bg-electric-500/20 text-electric-300'
+          : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Active source */}
+      <GlassCard className="p-4">
+        <div className="flex items-center gap-3">
+          <div className={`p-2 rounded-lg ${simulator ? 'bg-orange-500/20 text-orange-400' : 'bg-neon-500/20 text-neon-400'}`}>
+            {simulator ? <Bug size={20} /> : <Satellite size={20} />}
+          </div>
+          <div className="flex-1">
+            <div className="text-white font-medium">{simulator ? 'Simulated location' : 'Device GPS'}</div>
+            <div className="text-gray-400 text-xs">
+              {simulator ? 'Journeys receive positions from the simulator' : 'Journeys receive real position fixes'}
+            </div>
+          </div>
+          {simulator && (
+            <GlassButton variant="secondary" size="sm" onClick={handleUseRealGps}>
+              Use real GPS
+            </GlassButton>
+          )}
+        </div>
+
+        {simulator && progress && (
+          <div className="space-y-3 mt-4 pt-4 border-t border-white/10">
+            <Progress value={progress.duration > 0 ? (progress.elapsed / progress.duration) * 100 : 0} />
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-white">{formatElapsed(progress.elapsed)}</span>
+              <span className="text-gray-400">
+                {progress.position.lat.toFixed(5)}, {progress.position.lng.toFixed(5)}
+              </span>
+              <span className="text-gray-400">{formatElapsed(progress.duration)}</span>
+            </div>
+            <div className="flex gap-2">
+              <GlassButton
+                variant="primary"
+                size="sm"
+                onClick={() => progress.isRunning ? simulator.pause() : simulator.start()}
+                disabled={!progress.isRunning && progress.elapsed >= progress.duration}
+              >
+                {progress.isRunning ? <Pause size={14} /> : <Play size={14} />}
+                {progress.isRunning ? 'Pause' : 'Start'}
+              </GlassButton>
+              <GlassButton variant="secondary" size="sm" onClick={() => simulator.reset()}>
+                <RotateCcw size={14} />
+                Reset
+              </GlassButton>
+            </div>
+          </div>
+        )}
+      </GlassCard>
+
+      {/* Route to simulate */}
+      <GlassCard className="p-4 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-electric-500/20 text-electric-400">
+            <Navigation size={20} />
+          </div>
+          <h3 className="text-lg font-semibold text-white">Simulated Route</h3>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {renderOptionButton(routeInput === 'file', 'Track file', () => setRouteInput('file'))}
+          {renderOptionButton(routeInput === 'points', 'Two points', () => setRouteInput('points'))}
+        </div>
+
+        {routeInput === 'file' ? (
+          <div className="space-y-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".gpx,.geojson,.json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <GlassButton variant="secondary" className="w-full" onClick={() => fileInputRef.current?.click()}>
+              <FileUp size={16} />
+              Choose GPX or GeoJSON
+            </GlassButton>
+            {trackPoints && (
+              <p className="text-gray-400 text-xs text-center">
+                {trackName} · {trackPoints.length} points
+                {trackPoints.every(point => point.timestamp !== undefined) ? ' · timed' : ''}
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {[
+              { label: 'Start', value: from, onChange: setFrom },
+              { label: 'End', value: to, onChange: setTo }
+            ].map(({ label, value, onChange }) => (
+              <div key={label} className="flex items-center gap-3 bg-white/5 border border-white/10 rounded-xl px-3">
+                <span className="text-gray-400 text-xs w-8">{label}</span>
+                <input
+                  type="text"
+                  value={value}
+                  onChange={(e) => onChange(e.target.value)}
+                  placeholder="lat, lng"
+                  className="flex-1 py-2 bg-transparent border-none outline-none text-white placeholder-gray-500 text-sm"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-gray-400 text-xs">
+              {routeInput === 'file' ? 'Speed for untimed tracks' : 'Speed'}
+            </span>
+            <span className="text-electric-400 text-sm">{speed} km/h</span>
+          </div>
+          <Slider min={5} max={120} step={5} value={[speed]} onValueChange={([value]) => setSpeed(value)} />
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-gray-400 text-xs">Time multiplier</span>
+          <div className="grid grid-cols-4 gap-2">
+            {TIME_MULTIPLIERS.map(option =>
+              renderOptionButton(timeMultiplier === option, `${option}x`, () => setTimeMultiplier(option))
+            )}
+          </div>
+        </div>
+
+        <GlassButton variant="primary" className="w-full" onClick={handleLoad}>
+          Load Simulation
+        </GlassButton>
+      </GlassCard>
+    </div>
+  );
+};
+
+export default DeveloperPanel;
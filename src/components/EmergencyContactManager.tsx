@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2, Users } from 'lucide-react';
+import { ContactEvent, EmergencyContact, UserPreferences } from '@/types';
+import { emergencyContacts } from '@/services/emergencyContacts';
+import { CONTACT_EVENTS, CONTACT_EVENT_LABELS } from '@/utils/contactMessages';
+import { StorageManager } from '@/utils/storage';
+import { toast } from '@/hooks/use-toast';
+import { Slider } from '@/components/ui/slider';
+import GlassCard from './GlassCard';
+import GlassButton from './GlassButton';
+
+interface EmergencyContactManagerProps {
+  preferences: UserPreferences;
+  onPreferencesChange: (preferences: UserPreferences) => void;
+  className?: string;
+}
+
+interface ContactDraft {
+  id: string | null;
+  name: string;
+  phone: string;
+  email: string;
+  relationship: string;
+  notifyOn: ContactEvent[];
+}
+
+const inputClassName = 'w-full px-4 py-2 bg-white/5 border border-white/10 rounded-xl outline-none text-white placeholder-gray-400 text-sm';
+
+const EmergencyContactManager: React.FC<EmergencyContactManagerProps> = ({
+  preferences,
+  onPreferencesChange,
+  className = ''
+}) => {
+  const [contacts, setContacts] = useState<EmergencyContact[]>(() => emergencyContacts.getContacts());
+  const [draft, setDraft] = useState<ContactDraft | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const startDraft = (contact?: EmergencyContact) => {
+    setDraftError(null);
+    setDraft(contact
+      ? { ...contact, email: contact.email ?? '' }
+      : { id: null, name: '', phone: '', email: '', relationship: '', notifyOn: ['arrival', 'overdue'] });
+  };
+
+  const updateDraft = (changes: Partial<ContactDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const toggleDraftEvent = (event: ContactEvent) => {
+    if (!draft) return;
+    updateDraft({
+      notifyOn: draft.notifyOn.includes(event) ? draft.notifyOn.filter(e => e !== event) : [...draft.notifyOn, event]
+    });
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      setDraftError('Enter a name');
+      return;
+    }
+    if (!draft.phone.trim() && !draft.email.trim()) {
+      setDraftError('Enter a phone number or email address');
+      return;
+    }
+
+    emergencyContacts.saveContact({
+      id: draft.id ?? `contact_${Date.now()}`,
+      name: draft.name.trim(),
+      phone: draft.phone.trim(),
+      email: draft.email.trim() || undefined,
+      relationship: draft.relationship.trim(),
+      notifyOn: CONTACT_EVENTS.filter(event => draft.notifyOn.includes(event))
+    });
+    setDraft(null);
+    setContacts(emergencyContacts.getContacts());
+
+    toast({
+      title: "Contact Saved",
+      description: `${draft.name.trim()} can be reached in an emergency`,
+      duration: 2000,
+    });
+  };
+
+  const handleDelete = (contact: EmergencyContact) => {
+    emergencyContacts.deleteContact(contact.id);
+    setContacts(emergencyContacts.getContacts());
+  };
+
+  const handleOverdueDelayChange = (minutes: number) => {
+    const updated = { ...preferences, safety: { ...preferences.safety, overdueDelay: minutes * 60000 } };
+    StorageManager.savePreferences(updated);
+    onPreferencesChange(updated);
+  };
+
+  if (draft) {
+    return (
+      <div className={`space-y-4 ${className}`}>
+        <GlassCard className="p-4 space-y-4">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            placeholder="Name"
+            className={inputClassName}
+          />
+          <input
+            type="tel"
+            value={draft.phone}
+            onChange={(e) => updateDraft({ phone: e.target.value })}
+            placeholder="Phone number"
+            className={inputClassName}
+          />
+          <input
+            type="email"
+            value={draft.email}
+            onChange={(e) => updateDraft({ email: e.target.value })}
+            placeholder="Email (optional)"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={draft.relationship}
+            onChange={(e) => updateDraft({ relationship: e.target.value })}
+            placeholder="Relationship, e.g. Partner"
+            className={inputClassName}
+          />
+
+          <div className="space-y-2">
+            <div className="text-white text-sm font-medium">Offer to message them</div>
+            <div className="grid grid-cols-1 gap-2">
+              {CONTACT_EVENTS.map(event => (
+                <button
+                  key={event}
+                  type="button"
+                  onClick={() => toggleDraftEvent(event)}
+                  className={`py-2 rounded-lg border text-sm transition-colors ${
+                    draft.notifyOn.includes(event)
+                      ? 'border-electric-400/60 bg-electric-500/20 text-electric-300'
+                      : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10'
+                  }`}
+                >
+                  {CONTACT_EVENT_LABELS[event]}
+                </button>
+              ))}
+            </div>
+            <p className="text-gray-400 text-xs">SOS messages always go to every contact.</p>
+          </div>
+
+          {draftError && <p className="text-red-400 text-sm">{draftError}</p>}
+        </GlassCard>
+
+        <div className="grid grid-cols-2 gap-4">
+          <GlassButton variant="secondary" onClick={() => setDraft(null)} className="py-4">
+            Cancel
+          </GlassButton>
+          <GlassButton variant="primary" onClick={handleSaveDraft} className="py-4">
+            Save Contact
+          </GlassButton>
+        </div>
+      </div>
+    );
+  }
+
+  const overdueMinutes = Math.round(preferences.safety.overdueDelay / 60000);
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {contacts.length === 0 && (
+        <GlassCard className="p-8 text-center">
+          <Users size={48} className="mx-auto text-gray-400 mb-4" />
+          <h3 className="text-lg font-semibold text-white mb-2">No Contacts Yet</h3>
+          <p className="text-gray-400 text-sm">Add someone to message when you set off, arrive, run late or need help</p>
+        </GlassCard>
+      )}
+
+      {contacts.map(contact => (
+        <GlassCard key={contact.id} className="p-4 space-y-3">
+          <div className="min-w-0">
+            <div className="text-white font-medium truncate">
+              {contact.name}
+              {contact.relationship && <span className="text-gray-400 font-normal"> · {contact.relationship}</span>}
+            </div>
+            <div className="text-gray-400 text-xs truncate">
+              {[contact.phone, contact.email].filter(Boolean).join(' · ')}
+            </div>
+            <div className="text-electric-400 text-xs">
+              {contact.notifyOn.length > 0
+                ? contact.notifyOn.map(event => CONTACT_EVENT_LABELS[event]).join(', ')
+                : 'SOS only'}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <GlassButton variant="secondary" size="sm" onClick={() => startDraft(contact)}>
+              <Pencil size={14} />
+              Edit
+            </GlassButton>
+            <GlassButton variant="danger" size="sm" onClick={() => handleDelete(contact)}>
+              <Trash2 size={14} />
+              Delete
+            </GlassButton>
+          </div>
+        </GlassCard>
+      ))}
+
+      <GlassButton variant="primary" className="w-full" onClick={() => startDraft()}>
+        <Plus size={16} />
+        New Contact
+      </GlassButton>
+
+      <GlassCard className="p-4 space-y-3">
+        <div className="flex justify-between text-sm">
+          <span className="text-white font-medium">Running late after</span>
+          <span className="text-white">{overdueMinutes} min</span>
+        </div>
+        <Slider
+          min={5}
+          max={60}
+          step={5}
+          value={[overdueMinutes]}
+          onValueChange={([minutes]) => handleOverdueDelayChange(minutes)}
+        />
+        <p className="text-gray-400 text-xs">How far past the expected arrival before contacts are offered a message</p>
+      </GlassCard>
+    </div>
+  );
+};
+
+export default EmergencyContactManager;
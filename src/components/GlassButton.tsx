@@ -5,6 +5,7 @@ import { cn } from '@/lib/utils';
 interface GlassButtonProps {
   children: React.ReactNode;
   onClick?: () => void;
+  type?: 'button' | 'submit' | 'reset';
   variant?: 'primary' | 'secondary' | 'success' | 'danger';
   size?: 'sm' | 'md' | 'lg';
   className?: string;
@@ -16,6 +17,7 @@ interface GlassButtonProps {
 const GlassButton: React.FC<GlassButtonProps> = ({
   children,
   onClick,
+  type = 'button',
   variant = 'primary',
   size = 'md',
   className = '',
@@ -45,6 +47,7 @@ const GlassButton: React.FC<GlassButtonProps> = ({
 
   return (
     <button
+      type={type}
       onClick={onClick}
       disabled={disabled || loading}
       className={cn(
@@ -0,0 +1,273 @@
+import React, { useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle, FileUp, RotateCcw } from 'lucide-react';
+import {
+  ConflictStrategy,
+  ImportAnalysis,
+  ImportError,
+  ImportMode,
+  ImportOptions,
+  ImportReport,
+  ImportSection,
+  SectionDiff,
+  SectionReport,
+  analyzeImport,
+  applyImport
+} from '@/utils/dataImport';
+import { toast } from '@/hooks/use-toast';
+import GlassCard from './GlassCard';
+import GlassButton from './GlassButton';
+
+interface ImportWizardProps {
+  onImported?: (report: ImportReport) => void;
+  className?: string;
+}
+
+type WizardStep = 'select' | 'preview' | 'done';
+
+const DEFAULT_OPTIONS: ImportOptions = {
+  modes: { preferences: 'replace', destinations: 'merge', journeys: 'merge' },
+  conflicts: 'keep'
+};
+
+const SECTION_LABELS: Record<ImportSection, string> = {
+  preferences: 'Settings',
+  destinations: 'Destinations',
+  journeys: 'Journey history'
+};
+
+const MODE_LABELS: Record<ImportMode, string> = {
+  merge: 'Merge',
+  replace: 'Replace',
+  skip: 'Skip'
+};
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ onImported, className = '' }) => {
+  const [step, setStep] = useState<WizardStep>('select');
+  const [fileName, setFileName] = useState('');
+  const [analysis, setAnalysis] = useState<ImportAnalysis | null>(null);
+  const [options, setOptions] = useState<ImportOptions>(DEFAULT_OPTIONS);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setStep('select');
+    setAnalysis(null);
+    setReport(null);
+    setOptions(DEFAULT_OPTIONS);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setAnalysis(analyzeImport(await file.text()));
+      setFileName(file.name);
+      setStep('preview');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof ImportError ? error.message : 'The file could not be read',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = () => {
+    if (!analysis) return;
+
+    try {
+      const result = applyImport(analysis, options);
+      setReport(result);
+      setStep('done');
+      onImported?.(result);
+    } catch (error) {
+      console.error('Error importing data:', error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const setMode = (section: ImportSection, mode: ImportMode) => {
+    setOptions(prev => ({ ...prev, modes: { ...prev.modes, [section]: mode } }));
+  };
+
+  const renderChoice = <T extends string>(value: T, selected: T, label: string, onSelect: (value: T) => void) => (
+    <button
+      key={value}
+      type="button"
+      onClick={() => onSelect(value)}
+      className={`py-1.5 rounded-lg border text-xs transition-colors ${
+        value === selected
+          ? 'border-electric-400/60 bg-electric-500/20 text-electric-300'
+          : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderModes = (section: ImportSection, modes: ImportMode[]) => (
+    <div className={`grid gap-2 ${modes.length === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+      {modes.map(mode => renderChoice(mode, options.modes[section], MODE_LABELS[mode], value => setMode(section, value)))}
+    </div>
+  );
+
+  const renderDiff = <T extends { id: string }>(
+    section: 'destinations' | 'journeys',
+    diff: SectionDiff<T>,
+    describe: (record: T) => string
+  ) => (
+    <GlassCard key={section} className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-white font-medium">{SECTION_LABELS[section]}</h4>
+        <span className="text-gray-400 text-xs">
+          {diff.added.length} new · {diff.duplicates.length} duplicate · {diff.conflicts.length} conflicting
+        </span>
+      </div>
+
+      {renderModes(section, ['merge', 'replace', 'skip'])}
+
+      {options.modes[section] !== 'skip' && diff.conflicts.length > 0 && (
+        <div className="space-y-1">
+          {diff.conflicts.slice(0, 5).map(conflict => (
+            <div key={conflict.incoming.id} className="flex items-center gap-2 text-xs text-orange-300">
+              <AlertTriangle size={12} />
+              <span className="truncate">{describe(conflict.incoming)} differs from the stored copy</span>
+            </div>
+          ))}
+          {diff.conflicts.length > 5 && (
+            <div className="text-gray-400 text-xs">and {diff.conflicts.length - 5} more</div>
+          )}
+        </div>
+      )}
+    </GlassCard>
+  );
+
+  const describeReport = (label: string, section: SectionReport | null) => {
+    if (!section || section.mode === 'skip') return `${label}: skipped`;
+
+    const parts = [`${section.added} added`, `${section.updated} updated`, `${section.unchanged} unchanged`];
+    if (section.removed > 0) parts.push(`${section.removed} removed`);
+    if (section.dropped > 0) parts.push(`${section.dropped} over the limit not kept`);
+    return `${label}: ${parts.join(', ')}`;
+  };
+
+  if (step === 'select') {
+    return (
+      <GlassCard className={`p-6 text-center space-y-4 ${className}`}>
+        <FileUp size={40} className="mx-auto text-electric-400" />
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-1">Import Backup</h3>
+          <p className="text-gray-400 text-sm">Nothing is changed until you confirm the preview</p>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <GlassButton variant="primary" className="w-full" onClick={() => fileInputRef.current?.click()}>
+          Choose Backup File
+        </GlassButton>
+      </GlassCard>
+    );
+  }
+
+  if (step === 'done' && report) {
+    return (
+      <GlassCard className={`p-6 space-y-4 ${className}`}>
+        <div className="flex items-center gap-3">
+          <CheckCircle size={24} className="text-neon-400" />
+          <h3 className="text-lg font-semibold text-white">Import Complete</h3>
+        </div>
+        <div className="space-y-1 text-sm text-gray-300">
+          <div>{SECTION_LABELS.preferences}: {report.preferences === 'skip' ? 'skipped' : 'replaced'}</div>
+          <div>{describeReport(SECTION_LABELS.destinations, report.destinations)}</div>
+          <div>{describeReport(SECTION_LABELS.journeys, report.journeys)}</div>
+          {report.travelStatsRebuilt && <div>Travel stats recalculated from history</div>}
+          <div className={report.rejected.length > 0 ? 'text-orange-300' : ''}>
+            {report.rejected.length} invalid {report.rejected.length === 1 ? 'record' : 'records'} rejected
+          </div>
+        </div>
+        <GlassButton variant="secondary" className="w-full" onClick={reset}>
+          <RotateCcw size={16} />
+          Import Another File
+        </GlassButton>
+      </GlassCard>
+    );
+  }
+
+  if (!analysis) return null;
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <GlassCard className="p-4">
+        <div className="text-white font-medium truncate">{fileName}</div>
+        <div className="text-gray-400 text-xs">
+          {analysis.exportDate ? `Exported ${new Date(analysis.exportDate).toLocaleString()}` : 'Export date unknown'}
+        </div>
+      </GlassCard>
+
+      {analysis.preferences && (
+        <GlassCard className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-white font-medium">{SECTION_LABELS.preferences}</h4>
+            <span className="text-gray-400 text-xs">
+              {analysis.preferencesChanged ? 'Differs from current settings' : 'Same as current settings'}
+            </span>
+          </div>
+          {renderModes('preferences', ['replace', 'skip'])}
+        </GlassCard>
+      )}
+
+      {analysis.destinations && renderDiff('destinations', analysis.destinations, d => d.name)}
+      {analysis.journeys && renderDiff(
+        'journeys',
+        analysis.journeys,
+        j => `${j.destination.name} on ${new Date(j.startTime).toLocaleDateString()}`
+      )}
+
+      {(analysis.destinations?.conflicts.length || analysis.journeys?.conflicts.length) ? (
+        <GlassCard className="p-4 space-y-3">
+          <h4 className="text-white font-medium">When merging conflicting records</h4>
+          <div className="grid grid-cols-2 gap-2">
+            {renderChoice<ConflictStrategy>('keep', options.conflicts, 'Keep mine', value => setOptions(prev => ({ ...prev, conflicts: value })))}
+            {renderChoice<ConflictStrategy>('overwrite', options.conflicts, 'Use imported', value => setOptions(prev => ({ ...prev, conflicts: value })))}
+          </div>
+        </GlassCard>
+      ) : null}
+
+      {analysis.rejected.length > 0 && (
+        <GlassCard className="p-4 space-y-2 border-orange-500/30">
+          <div className="flex items-center gap-2 text-orange-300 font-medium text-sm">
+            <AlertTriangle size={16} />
+            {analysis.rejected.length} invalid {analysis.rejected.length === 1 ? 'record' : 'records'} will be skipped
+          </div>
+          {analysis.rejected.slice(0, 5).map((rejected, index) => (
+            <div key={index} className="text-gray-400 text-xs truncate">
+              {SECTION_LABELS[rejected.section]}{rejected.index !== null && ` #${rejected.index + 1}`}: {rejected.reason}
+            </div>
+          ))}
+        </GlassCard>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <GlassButton variant="secondary" onClick={reset} className="py-4">
+          Cancel
+        </GlassButton>
+        <GlassButton variant="primary" onClick={handleImport} className="py-4">
+          Import
+        </GlassButton>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
@@ -0,0 +1,160 @@
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import { Clock, MapPin, Play, Repeat, Route } from 'lucide-react';
+import { Journey } from '@/types';
+import { formatDistance, formatDuration } from '@/utils/geolocation';
+import { ALERT_COLORS, getAlertTitle } from '@/utils/alertRules';
+import {
+  TRANSPORT_ICONS,
+  getJourneyDistance,
+  getJourneyDuration,
+  getJourneyOutcome
+} from '@/utils/journeyHistory';
+import { getJourneyLegs } from '@/utils/journeyLegs';
+import GlassCard from './GlassCard';
+import GlassButton from './GlassButton';
+import MapView from './MapView';
+import JourneyExportMenu from './JourneyExportMenu';
+
+interface JourneyDetailProps {
+  journey: Journey;
+  onReplay?: (journey: Journey) => void;
+  onRepeat?: (journey: Journey) => void;
+  className?: string;
+}
+
+const JourneyDetail: React.FC<JourneyDetailProps> = ({
+  journey,
+  onReplay,
+  onRepeat,
+  className = ''
+}) => {
+  const outcome = getJourneyOutcome(journey);
+  const duration = getJourneyDuration(journey);
+  const distance = getJourneyDistance(journey);
+  const hasTrack = !!journey.track && journey.track.length > 1;
+  // The planned route for every leg, drawn under the recorded track
+  const route = useMemo(() => getJourneyLegs(journey).flatMap(leg => leg.route?.points ?? []), [journey]);
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <MapView
+        destination={journey.destination.location}
+        route={route}
+        track={journey.track}
+        alerts={journey.alerts}
+        height="250px"
+      />
+
+      {/* Summary */}
+      <GlassCard className="p-4 space-y-4">
+        <div className="flex items-start gap-3">
+          <MapPin size={20} className="text-electric-400 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <div className="text-white font-medium">{journey.destination.name}</div>
+            <div className="text-gray-400 text-sm truncate">{journey.destination.address}</div>
+          </div>
+          <span className={`px-3 py-1 rounded-full text-xs font-medium uppercase ${
+            outcome === 'arrived' ? 'bg-neon-500/20 text-neon-400' : 'bg-yellow-500/20 text-yellow-400'
+          }`}>
+            {outcome}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div>
+            <div className="text-xl">{TRANSPORT_ICONS[journey.transportMode]}</div>
+            <div className="text-gray-400 text-xs capitalize">{journey.transportMode}</div>
+          </div>
+          <div>
+            <Clock size={18} className="mx-auto text-electric-400 mb-1" />
+            <div className="text-white text-sm">{duration !== null ? formatDuration(duration) : '—'}</div>
+          </div>
+          <div>
+            <Route size={18} className="mx-auto text-neon-400 mb-1" />
+            <div className="text-white text-sm">{distance !== null ? formatDistance(distance) : '—'}</div>
+          </div>
+        </div>
+
+        <div className="text-gray-400 text-xs text-center">
+          {format(journey.startTime, 'EEEE d MMMM yyyy, HH:mm')}
+          {journey.endTime && ` – ${format(journey.endTime, 'HH:mm')}`}
+        </div>
+      </GlassCard>
+
+      {/* Legs */}
+      {journey.legs && (
+        <GlassCard className="p-4">
+          <h3 className="text-lg font-semibold text-white mb-4">Legs</h3>
+          <div className="space-y-3">
+            {journey.legs.map((leg, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <span className="text-xl">{TRANSPORT_ICONS[leg.transportMode]}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-white text-sm truncate">{leg.destination.name}</div>
+                  <div className="text-gray-400 text-xs">
+                    {leg.startTime !== undefined && leg.endTime !== undefined
+                      ? `${format(leg.startTime, 'HH:mm')} – ${format(leg.endTime, 'HH:mm')} · ${formatDuration(leg.endTime - leg.startTime)}`
+                      : 'Not completed'}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+      )}
+
+      {/* Alert Timeline */}
+      <GlassCard className="p-4">
+        <h3 className="text-lg font-semibold text-white mb-4">Alerts</h3>
+
+        {journey.alerts.length === 0 ? (
+          <p className="text-gray-400 text-sm">No alerts were fired on this journey</p>
+        ) : (
+          <div className="space-y-4">
+            {journey.alerts.map((alert, index) => (
+              <div key={alert.id} className="flex gap-3">
+                <div className="flex flex-col items-center">
+                  <div className="w-3 h-3 rounded-full mt-1" style={{ backgroundColor: ALERT_COLORS[alert.type] }} />
+                  {index < journey.alerts.length - 1 && <div className="w-px flex-1 bg-white/10 mt-1" />}
+                </div>
+                <div className="flex-1 pb-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-white text-sm font-medium">{getAlertTitle(alert.type)}</span>
+                    <span className="text-gray-400 text-xs">{format(alert.timestamp, 'HH:mm:ss')}</span>
+                  </div>
+                  <div className="text-gray-400 text-xs">
+                    {alert.message}
+                    {alert.distance !== undefined && ` · ${formatDistance(alert.distance)} away`}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </GlassCard>
+
+      {/* Actions */}
+      <div className="grid grid-cols-2 gap-4">
+        {onRepeat && (
+          <GlassButton variant="primary" onClick={() => onRepeat(journey)} className="py-4">
+            <Repeat size={16} />
+            Repeat Journey
+          </GlassButton>
+        )}
+        {onReplay && hasTrack && (
+          <GlassButton variant="secondary" onClick={() => onReplay(journey)} className="py-4">
+            <Play size={16} />
+            Replay
+          </GlassButton>
+        )}
+      </div>
+
+      <div className="flex justify-center">
+        <JourneyExportMenu journeys={[journey]} label="Export journey" />
+      </div>
+    </div>
+  );
+};
+
+export default JourneyDetail;
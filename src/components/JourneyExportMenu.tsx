@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Share2 } from 'lucide-react';
+import { Journey } from '@/types';
+import { EXPORT_FORMATS, ExportFormat, exportJourneys, saveExportFile } from '@/utils/journeyExport';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { toast } from '@/hooks/use-toast';
+
+interface JourneyExportMenuProps {
+  journeys: Journey[];
+  label?: string;
+  className?: string;
+}
+
+const JourneyExportMenu: React.FC<JourneyExportMenuProps> = ({
+  journeys,
+  label,
+  className = ''
+}) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      await saveExportFile(exportJourneys(journeys, exportFormat));
+    } catch (error) {
+      console.error('Error exporting journeys:', error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : 'The export could not be saved',
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        disabled={journeys.length === 0 || isExporting}
+        onClick={(e) => e.stopPropagation()}
+        className={`flex items-center gap-2 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white text-sm hover:bg-white/20 transition-colors disabled:opacity-50 ${className}`}
+      >
+        <Share2 size={16} />
+        {label}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel>
+          Export {journeys.length === 1 ? 'journey' : `${journeys.length} journeys`}
+        </DropdownMenuLabel>
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(exportFormat => (
+          <DropdownMenuItem key={exportFormat} onSelect={() => handleExport(exportFormat)}>
+            {EXPORT_FORMATS[exportFormat].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default JourneyExportMenu;
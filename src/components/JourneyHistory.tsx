@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { Bell, CalendarDays, History, Search, X } from 'lucide-react';
+import { Journey, TransportMode } from '@/types';
+import { formatDistance, formatDuration } from '@/utils/geolocation';
+import {
+  EMPTY_HISTORY_FILTERS,
+  JourneyHistoryFilters,
+  TRANSPORT_ICONS,
+  filterJourneys,
+  getHistoryDestinations,
+  getJourneyDistance,
+  getJourneyDuration,
+  getJourneyOutcome,
+  hasActiveFilters,
+  toJourneyQuery
+} from '@/utils/journeyHistory';
+import { StorageManager } from '@/utils/storage';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import GlassCard from './GlassCard';
+import JourneyExportMenu from './JourneyExportMenu';
+
+interface JourneyHistoryProps {
+  journeys: Journey[];
+  onSelectJourney?: (journey: Journey) => void;
+  className?: string;
+}
+
+const TRANSPORT_MODES: TransportMode[] = ['bus', 'train', 'car', 'walk'];
+const ALL_DESTINATIONS = 'all';
+
+const formatDateRange = ({ from, to }: JourneyHistoryFilters): string => {
+  if (!from) return 'Any date';
+  if (!to || from.getTime() === to.getTime()) return format(from, 'd MMM yyyy');
+  return `${format(from, 'd MMM')} – ${format(to, 'd MMM yyyy')}`;
+};
+
+const JourneyHistory: React.FC<JourneyHistoryProps> = ({
+  journeys,
+  onSelectJourney,
+  className = ''
+}) => {
+  const [filters, setFilters] = useState<JourneyHistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [queriedJourneys, setQueriedJourneys] = useState<Journey[] | null>(null);
+
+  // Date and destination filters are answered by the storage indexes; typing a search
+  // or picking a mode leaves these alone and does not query again
+  const { from, to, destinationId } = filters;
+  const journeyQuery = useMemo(() => toJourneyQuery({ from, to, destinationId }), [from, to, destinationId]);
+
+  useEffect(() => {
+    if (!journeyQuery) {
+      setQueriedJourneys(null);
+      return;
+    }
+
+    let cancelled = false;
+    StorageManager.queryJourneys(journeyQuery)
+      .then(result => {
+        if (!cancelled) setQueriedJourneys(result);
+      })
+      .catch(error => {
+        console.error('Error querying journeys:', error);
+        if (!cancelled) setQueriedJourneys(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [journeyQuery, journeys]);
+
+  const destinations = useMemo(() => getHistoryDestinations(journeys), [journeys]);
+  const filteredJourneys = useMemo(
+    () => filterJourneys(queriedJourneys ?? journeys, filters),
+    [queriedJourneys, journeys, filters]
+  );
+
+  const updateFilters = (changes: Partial<JourneyHistoryFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const toggleTransportMode = (mode: TransportMode) => {
+    updateFilters({
+      transportModes: filters.transportModes.includes(mode)
+        ? filters.transportModes.filter(m => m !== mode)
+        : [...filters.transportModes, mode]
+    });
+  };
+
+  if (journeys.length === 0) {
+    return (
+      <GlassCard className={`p-8 text-center ${className}`}>
+        <History size={48} className="mx-auto text-gray-400 mb-4" />
+        <h3 className="text-lg font-semibold text-white mb-2">No Journeys Yet</h3>
+        <p className="text-gray-400 text-sm">Completed journeys will appear here</p>
+      </GlassCard>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Search & Filters */}
+      <GlassCard className="p-4 space-y-3">
+        <div className="relative">
+          <Search size={18} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={filters.query}
+            onChange={(e) => updateFilters({ query: e.target.value })}
+            placeholder="Search destinations..."
+            className="w-full pl-10 pr-4 py-2 bg-white/5 border border-white/10 rounded-xl outline-none text-white placeholder-gray-400 text-sm"
+          />
+        </div>
+
+        <div className="grid grid-cols-4 gap-2">
+          {TRANSPORT_MODES.map(mode => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => toggleTransportMode(mode)}
+              className={`py-1.5 rounded-lg border text-xs capitalize transition-colors ${
+                filters.transportModes.includes(mode)
+                  ? 'border-electric-400/60 bg-electric-500/20 text-electric-300'
+                  : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10'
+              }`}
+            >
+              {TRANSPORT_ICONS[mode]} {mode}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Popover>
+            <PopoverTrigger className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-gray-300 hover:bg-white/10 transition-colors">
+              <CalendarDays size={14} />
+              <span className="truncate">{formatDateRange(filters)}</span>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={{ from: filters.from ?? undefined, to: filters.to ?? undefined }}
+                onSelect={(range: DateRange | undefined) => updateFilters({
+                  from: range?.from ?? null,
+                  to: range?.to ?? null
+                })}
+                disabled={{ after: new Date() }}
+              />
+            </PopoverContent>
+          </Popover>
+
+          <Select
+            value={filters.destinationId ?? ALL_DESTINATIONS}
+            onValueChange={(value) => updateFilters({ destinationId: value === ALL_DESTINATIONS ? null : value })}
+          >
+            <SelectTrigger className="h-auto py-2 bg-white/5 border-white/10 text-gray-300">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_DESTINATIONS}>All destinations</SelectItem>
+              {destinations.map(destination => (
+                <SelectItem key={destination.id} value={destination.id}>{destination.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </GlassCard>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-gray-400 text-sm">
+          {filteredJourneys.length} of {journeys.length} {journeys.length === 1 ? 'journey' : 'journeys'}
+          {hasActiveFilters(filters) && (
+            <button
+              type="button"
+              onClick={() => setFilters(EMPTY_HISTORY_FILTERS)}
+              className="flex items-center gap-1 text-electric-400 text-xs hover:text-electric-300"
+            >
+              <X size={12} />
+              Clear
+            </button>
+          )}
+        </div>
+        <JourneyExportMenu journeys={filteredJourneys} label="Export" />
+      </div>
+
+      {/* Journey List */}
+      <div className="space-y-3">
+        {filteredJourneys.length === 0 && (
+          <GlassCard className="p-6 text-center">
+            <p className="text-gray-400 text-sm">No journeys match these filters</p>
+          </GlassCard>
+        )}
+
+        {filteredJourneys.map(journey => {
+          const outcome = getJourneyOutcome(journey);
+          const duration = getJourneyDuration(journey);
+          const distance = getJourneyDistance(journey);
+
+          return (
+            <GlassCard
+              key={journey.id}
+              className="p-4"
+              hoverable={!!onSelectJourney}
+              onClick={onSelectJourney ? () => onSelectJourney(journey) : undefined}
+            >
+              <div className="flex items-center gap-3">
+                <div className="text-2xl">{TRANSPORT_ICONS[journey.transportMode]}</div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-white font-medium truncate">{journey.destination.name}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-medium uppercase ${
+                      outcome === 'arrived' ? 'bg-neon-500/20 text-neon-400' : 'bg-yellow-500/20 text-yellow-400'
+                    }`}>
+                      {outcome}
+                    </span>
+                  </div>
+                  <div className="text-gray-400 text-xs">
+                    {format(journey.startTime, 'd MMM yyyy, HH:mm')}
+                    {duration !== null && ` · ${formatDuration(duration)}`}
+                    {distance !== null && ` · ${formatDistance(distance)}`}
+                  </div>
+                </div>
+                {journey.alerts.length > 0 && (
+                  <div className="flex items-center gap-1 text-gray-400 text-xs">
+                    <Bell size={12} />
+                    {journey.alerts.length}
+                  </div>
+                )}
+              </div>
+            </GlassCard>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default JourneyHistory;
@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Play, Pause, RotateCcw } from 'lucide-react';
+import { Journey } from '@/types';
+import { ALERT_COLORS } from '@/utils/alertRules';
+import { formatDistance } from '@/utils/geolocation';
+import { getTrackDistance, getTrackPositionAt, getTrackUntil } from '@/utils/track';
+import { Slider } from '@/components/ui/slider';
+import GlassCard from './GlassCard';
+import GlassButton from './GlassButton';
+import MapView from './MapView';
+
+interface JourneyReplayProps {
+  journey: Journey;
+  className?: string;
+  mapHeight?: string;
+}
+
+const PLAYBACK_SPEEDS = [10, 60, 300];
+const PLAYBACK_TICK = 100; // ms between replay frames
+
+const formatElapsed = (milliseconds: number): string => {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const JourneyReplay: React.FC<JourneyReplayProps> = ({
+  journey,
+  className = '',
+  mapHeight = '300px'
+}) => {
+  const track = useMemo(() => journey.track || [], [journey.track]);
+  const startTime = track.length > 0 ? track[0].timestamp : journey.startTime;
+  const duration = track.length > 0 ? track[track.length - 1].timestamp - startTime : 0;
+
+  const [elapsed, setElapsed] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(PLAYBACK_SPEEDS[1]);
+
+  useEffect(() => {
+    setElapsed(0);
+    setIsPlaying(false);
+  }, [journey.id]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setElapsed(prev => Math.min(duration, prev + PLAYBACK_TICK * speed));
+    }, PLAYBACK_TICK);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, duration]);
+
+  useEffect(() => {
+    if (isPlaying && elapsed >= duration) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, elapsed, duration]);
+
+  const replayTime = startTime + elapsed;
+  const replayPosition = useMemo(() => getTrackPositionAt(track, replayTime), [track, replayTime]);
+  const travelledDistance = useMemo(
+    () => getTrackDistance(getTrackUntil(track, replayTime)),
+    [track, replayTime]
+  );
+  const firedAlerts = journey.alerts.filter(alert => alert.timestamp <= replayTime);
+
+  if (track.length < 2) {
+    return (
+      <GlassCard className={`p-6 text-center ${className}`}>
+        <p className="text-gray-400 text-sm">No recorded track for this journey</p>
+      </GlassCard>
+    );
+  }
+
+  const handlePlayToggle = () => {
+    if (!isPlaying && elapsed >= duration) {
+      setElapsed(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <MapView
+        destination={journey.destination.location}
+        track={track}
+        alerts={firedAlerts}
+        replayPosition={replayPosition}
+        height={mapHeight}
+      />
+
+      <GlassCard className="p-4 space-y-4">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-white font-medium">{formatElapsed(elapsed)}</span>
+          <span className="text-electric-400">{formatDistance(travelledDistance)} travelled</span>
+          <span className="text-gray-400">{formatElapsed(duration)}</span>
+        </div>
+
+        <div className="relative pt-3">
+          {/* Alert markers on the timeline */}
+          {journey.alerts.map(alert => {
+            const offset = duration > 0 ? ((alert.timestamp - startTime) / duration) * 100 : 0;
+            return (
+              <button
+                key={alert.id}
+                type="button"
+                title={alert.message}
+                onClick={() => setElapsed(Math.max(0, Math.min(duration, alert.timestamp - startTime)))}
+                className="absolute top-0 w-2 h-2 rounded-full -translate-x-1/2"
+                style={{
+                  left: `${Math.max(0, Math.min(100, offset))}%`,
+                  backgroundColor: ALERT_COLORS[alert.type]
+                }}
+              />
+            );
+          })}
+
+          <Slider
+            min={0}
+            max={duration}
+            step={1000}
+            value={[elapsed]}
+            onValueChange={([value]) => setElapsed(value)}
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <GlassButton variant="primary" size="sm" onClick={handlePlayToggle}>
+            {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+            {isPlaying ? 'Pause' : 'Play'}
+          </GlassButton>
+          <GlassButton variant="secondary" size="sm" onClick={() => { setIsPlaying(false); setElapsed(0); }}>
+            <RotateCcw size={14} />
+          </GlassButton>
+          <div className="flex-1" />
+          {PLAYBACK_SPEEDS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setSpeed(option)}
+              className={`px-2 py-1 rounded-lg text-xs border transition-colors ${
+                speed === option
+                  ? 'border-electric-400/60 bg-electric-500/20 text-electric-300'
+                  : 'border-white/10 text-gray-400 hover:bg-white/10'
+              }`}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+
+        {/* Alerts fired so far */}
+        {firedAlerts.length > 0 && (
+          <div className="space-y-2 pt-2 border-t border-white/10">
+            {firedAlerts.map(alert => (
+              <div key={alert.id} className="flex items-center gap-3 text-xs">
+                <div className="w-2 h-2 rounded-full" style={{ backgroundColor: ALERT_COLORS[alert.type] }} />
+                <span className="text-gray-400 w-10">{formatElapsed(Math.max(0, alert.timestamp - startTime))}</span>
+                <span className="text-white flex-1 truncate">{alert.message}</span>
+                {alert.distance !== undefined && (
+                  <span className="text-gray-400">{formatDistance(alert.distance)}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </GlassCard>
+    </div>
+  );
+};
+
+export default JourneyReplay;
@@ -1,71 +1,97 @@
 
 import React, { useEffect, useState } from 'react';
-import { MapPin, Clock, Bell, BellRing, Navigation } from 'lucide-react';
-import { Journey, Location, AlertType } from '@/types';
-import { calculateDistance, formatDistance, estimateArrivalTime } from '@/utils/geolocation';
+import { format } from 'date-fns';
+import { MapPin, Clock, Bell, BellRing, Navigation, CheckCircle, Circle, OctagonAlert, AlarmClockOff } from 'lucide-react';
+import { Journey, Location, AlertRules, AlertRuleType, SnoozeOption } from '@/types';
+import { formatDistance, estimateArrivalTime } from '@/utils/geolocation';
+import { getDistanceToDestination } from '@/utils/journeyRoute';
+import { DEFAULT_ALERT_RULES, getTriggeredAlert, describeAlertRule } from '@/utils/alertRules';
+import {
+  getCurrentLeg,
+  getCurrentLegIndex,
+  getJourneyLegs,
+  getLegAlertRules,
+  getNextLeg,
+  getRemainingJourneyDistance,
+  getTotalJourneyDistance
+} from '@/utils/journeyLegs';
+import { TRANSPORT_ICONS } from '@/utils/journeyHistory';
+import { formatStopsRemaining } from '@/utils/transitRide';
+import { getSnoozeDistances, getSoundingAlarm } from '@/utils/alarms';
 import GlassCard from './GlassCard';
 import GlassButton from './GlassButton';
 import ProgressRing from './ProgressRing';
+import AlarmOverlay from './AlarmOverlay';
 
 interface JourneyTrackerProps {
   journey: Journey;
   currentLocation: Location | null;
+  alertRules?: AlertRules;
   onStopJourney: () => void;
   onPauseJourney: () => void;
   onResumeJourney: () => void;
   onEmergencyStop: () => void;
+  onSos: () => void;
+  onAcknowledgeAlarm: () => void;
+  onSnoozeAlarm: (option: SnoozeOption) => void;
   className?: string;
 }
 
 const JourneyTracker: React.FC<JourneyTrackerProps> = ({
   journey,
   currentLocation,
+  alertRules = DEFAULT_ALERT_RULES,
   onStopJourney,
   onPauseJourney,
   onResumeJourney,
   onEmergencyStop,
+  onSos,
+  onAcknowledgeAlarm,
+  onSnoozeAlarm,
   className = ''
 }) => {
   const [distance, setDistance] = useState<number>(0);
   const [estimatedArrival, setEstimatedArrival] = useState<number>(0);
   const [progress, setProgress] = useState<number>(0);
-  const [shouldAlert, setShouldAlert] = useState<AlertType | null>(null);
+  const [shouldAlert, setShouldAlert] = useState<AlertRuleType | null>(null);
+  const [stopsRemaining, setStopsRemaining] = useState<number | null>(null);
+
+  const legs = getJourneyLegs(journey);
+  const legIndex = getCurrentLegIndex(journey);
+  const currentLeg = getCurrentLeg(journey);
+  const nextLeg = getNextLeg(journey);
+  const legAlertRules = getLegAlertRules(journey, alertRules);
+  const ride = currentLeg.destination.transit;
 
   useEffect(() => {
     if (!currentLocation) return;
 
-    const distanceToDestination = calculateDistance(
-      currentLocation,
-      journey.destination.location
-    );
+    // The engine's figures where it has them, so the display matches the alerts it raises
+    const leg = getCurrentLeg(journey);
+    const distanceToLegEnd = journey.distance ?? getDistanceToDestination(leg.route, leg.destination.location, currentLocation);
 
-    setDistance(distanceToDestination);
+    setDistance(distanceToLegEnd);
 
-    const arrival = estimateArrivalTime(distanceToDestination, journey.transportMode);
+    // Prefer the observed-speed estimate from the journey manager
+    const arrival = journey.estimatedArrival
+      ? Math.max(0, journey.estimatedArrival - Date.now())
+      : estimateArrivalTime(distanceToLegEnd, leg.transportMode);
     setEstimatedArrival(arrival);
 
-    // Calculate progress based on original distance
-    if (journey.startLocation) {
-      const totalDistance = calculateDistance(
-        journey.startLocation,
-        journey.destination.location
-      );
-      const traveledDistance = totalDistance - distanceToDestination;
+    // Progress over the whole journey, through every transfer point
+    const totalDistance = getTotalJourneyDistance(journey);
+    if (totalDistance) {
+      const traveledDistance = totalDistance - getRemainingJourneyDistance(journey, currentLocation);
       const progressPercent = Math.max(0, Math.min(100, (traveledDistance / totalDistance) * 100));
       setProgress(progressPercent);
     }
 
-    // Determine alert level
-    if (distanceToDestination <= 200) {
-      setShouldAlert('final_warning');
-    } else if (distanceToDestination <= 1000) {
-      setShouldAlert('approaching');
-    } else if (arrival <= 600000) { // 10 minutes
-      setShouldAlert('first_warning');
-    } else {
-      setShouldAlert(null);
-    }
-  }, [currentLocation, journey]);
+    const stops = leg.destination.transit ? journey.stopsRemaining ?? null : null;
+    setStopsRemaining(stops);
+
+    // Determine alert level using the same rules as the journey manager
+    setShouldAlert(getTriggeredAlert(getLegAlertRules(journey, alertRules), distanceToLegEnd, arrival, stops));
+  }, [currentLocation, journey, alertRules]);
 
   const formatTime = (milliseconds: number): string => {
     const minutes = Math.floor(milliseconds / (1000 * 60));
@@ -74,13 +100,23 @@ const JourneyTracker: React.FC<JourneyTrackerProps> = ({
     return `${minutes} mins`;
   };
 
-  const getAlertConfig = (alertType: AlertType | null) => {
+  const getAlertConfig = (alertType: AlertRuleType | null) => {
     switch (alertType) {
+      case 'arrived':
+        return {
+          color: '#39FF14',
+          text: nextLeg ? 'Transfer' : 'Arrived',
+          description: nextLeg ? 'Change here for the next leg' : 'You have reached your destination',
+          banner: 'Exit now',
+          icon: BellRing,
+          glowing: true
+        };
       case 'final_warning':
         return {
           color: '#FF4444',
           text: 'Get Ready!',
           description: 'Very close to destination',
+          banner: 'Prepare to exit at the next stop',
           icon: BellRing,
           glowing: true
         };
@@ -88,7 +124,8 @@ const JourneyTracker: React.FC<JourneyTrackerProps> = ({
         return {
           color: '#FF9500',
           text: 'Approaching',
-          description: 'Less than 1km away',
+          description: `Alert ${describeAlertRule(legAlertRules.approaching, !!ride)}`,
+          banner: 'Start preparing to exit',
           icon: Bell,
           glowing: true
         };
@@ -96,7 +133,8 @@ const JourneyTracker: React.FC<JourneyTrackerProps> = ({
         return {
           color: '#39FF14',
           text: 'Alert',
-          description: 'Arriving in ~10 minutes',
+          description: `Alert ${describeAlertRule(legAlertRules.first_warning, !!ride)}`,
+          banner: 'Journey alert activated',
           icon: Bell,
           glowing: false
         };
@@ -105,6 +143,7 @@ const JourneyTracker: React.FC<JourneyTrackerProps> = ({
           color: '#00D4FF',
           text: 'Tracking',
           description: 'Journey in progress',
+          banner: '',
           icon: Navigation,
           glowing: false
         };
@@ -114,8 +153,75 @@ const JourneyTracker: React.FC<JourneyTrackerProps> = ({
   const alertConfig = getAlertConfig(shouldAlert);
   const AlertIcon = alertConfig.icon;
 
+  const missedStop = journey.missedStop;
+  const arrivalPending = journey.arrivalPendingSince !== undefined;
+  const arrivalAction = nextLeg ? "I'm Changing Here" : "I'm Getting Off";
+  const soundingAlarm = journey.status === 'paused' ? null : getSoundingAlarm(journey);
+  const snoozedAlarm = journey.snoozedAlarm;
+  // Snoozing until closer is only worth offering while still on the way
+  const snoozeDistances = soundingAlarm?.type === 'first_warning' || soundingAlarm?.type === 'approaching'
+    ? getSnoozeDistances(distance)
+    : [];
+
   return (
     <div className={`space-y-6 ${className}`}>
+      {soundingAlarm && !snoozedAlarm && (
+        <AlarmOverlay
+          alarm={soundingAlarm}
+          distance={currentLocation ? distance : undefined}
+          acknowledgeLabel={arrivalPending ? arrivalAction : undefined}
+          snoozeDistances={snoozeDistances}
+          onAcknowledge={onAcknowledgeAlarm}
+          onSnooze={onSnoozeAlarm}
+        />
+      )}
+
+      {snoozedAlarm && (
+        <GlassCard className="p-4">
+          <div className="flex items-center gap-3">
+            <AlarmClockOff size={20} className="text-electric-400 shrink-0" />
+            <p className="flex-1 text-sm text-gray-300">
+              Alarm snoozed {snoozedAlarm.until !== undefined
+                ? `until ${format(snoozedAlarm.until, 'HH:mm')}`
+                : `until ${formatDistance(snoozedAlarm.distance ?? 0)} away`}
+            </p>
+            <GlassButton variant="secondary" size="sm" onClick={onAcknowledgeAlarm}>
+              {arrivalPending ? arrivalAction : 'Dismiss'}
+            </GlassButton>
+          </div>
+        </GlassCard>
+      )}
+
+      {/* Missed stop, with the way back */}
+      {missedStop && (
+        <GlassCard className="p-4 space-y-3" glowColor="#FF2D95">
+          <div className="flex items-start gap-3">
+            <OctagonAlert size={24} className="text-pink-400 shrink-0" />
+            <div>
+              <h3 className="text-white font-semibold">You've passed {currentLeg.destination.name}</h3>
+              <p className="text-gray-300 text-sm">{missedStop.suggestion}</p>
+            </div>
+          </div>
+          {!missedStop.acknowledged && (
+            <GlassButton variant="danger" className="w-full" onClick={onAcknowledgeAlarm} glowing>
+              I'm Awake
+            </GlassButton>
+          )}
+        </GlassCard>
+      )}
+
+      {/* Riding through the stop without having responded */}
+      {arrivalPending && (
+        <GlassCard className="p-4 space-y-3" glowColor="#39FF14">
+          <p className="text-white font-semibold text-center">
+            {nextLeg ? `Change here for ${nextLeg.destination.name}` : `This is ${currentLeg.destination.name}`}
+          </p>
+          <GlassButton variant="primary" className="w-full" onClick={onAcknowledgeAlarm} glowing>
+            {arrivalAction}
+          </GlassButton>
+        </GlassCard>
+      )}
+
       {/* Main Progress Card */}
       <GlassCard className="p-6 text-center" glowColor={alertConfig.color}>
         <div className="flex flex-col items-center gap-4">
@@ -138,8 +244,23 @@ const JourneyTracker: React.FC<JourneyTrackerProps> = ({
 
           <div className="space-y-2">
             <h2 className="text-2xl font-bold text-white">
-              {journey.destination.name}
+              {currentLeg.destination.name}
             </h2>
+            {ride && (
+              <p className="text-gray-300 text-sm">
+                {TRANSPORT_ICONS[ride.transportMode]} {ride.routeName} towards {ride.headsign}
+              </p>
+            )}
+            {ride && stopsRemaining !== null && (
+              <p className="text-neon-400 font-semibold">
+                {formatStopsRemaining(stopsRemaining)}
+              </p>
+            )}
+            {nextLeg && (
+              <p className="text-electric-400 text-sm">
+                Leg {legIndex + 1} of {legs.length} · then {TRANSPORT_ICONS[nextLeg.transportMode]} to {nextLeg.destination.name}
+              </p>
+            )}
             <p className="text-gray-400 text-sm">
               {alertConfig.description}
             </p>
@@ -147,6 +268,29 @@ const JourneyTracker: React.FC<JourneyTrackerProps> = ({
         </div>
       </GlassCard>
 
+      {/* Legs */}
+      {journey.legs && (
+        <GlassCard className="p-4 space-y-3">
+          {legs.map((leg, index) => {
+            const isDone = index < legIndex || (index === legIndex && leg.endTime !== undefined);
+            const isCurrent = index === legIndex && !isDone;
+
+            return (
+              <div key={index} className="flex items-center gap-3">
+                {isDone
+                  ? <CheckCircle size={18} className="text-neon-400" />
+                  : <Circle size={18} className={isCurrent ? 'text-electric-400' : 'text-gray-500'} />}
+                <span className="text-lg">{TRANSPORT_ICONS[leg.transportMode]}</span>
+                <span className={`flex-1 truncate text-sm ${isCurrent ? 'text-white font-medium' : 'text-gray-400'}`}>
+                  {leg.destination.name}
+                </span>
+                {index < legs.length - 1 && <span className="text-gray-500 text-xs">transfer</span>}
+              </div>
+            );
+          })}
+        </GlassCard>
+      )}
+
       {/* Journey Stats */}
       <div className="grid grid-cols-2 gap-4">
         <GlassCard className="p-4">
@@ -158,7 +302,7 @@ const JourneyTracker: React.FC<JourneyTrackerProps> = ({
               <div className="text-xl font-bold text-white">
                 {formatDistance(distance)}
               </div>
-              <div className="text-xs text-gray-400">remaining</div>
+              <div className="text-xs text-gray-400">{nextLeg ? 'to transfer' : 'remaining'}</div>
             </div>
           </div>
         </GlassCard>
@@ -198,12 +342,7 @@ const JourneyTracker: React.FC<JourneyTrackerProps> = ({
                 {alertConfig.text}
               </h3>
               <p className="text-sm text-gray-300">
-                {distance <= 200 
-                  ? 'Prepare to exit at the next stop'
-                  : distance <= 1000
-                  ? 'Start preparing to exit'
-                  : 'Journey alert activated'
-                }
+                {alertConfig.banner}
               </p>
             </div>
           </div>
@@ -248,6 +387,14 @@ const JourneyTracker: React.FC<JourneyTrackerProps> = ({
       >
         🚨 Emergency Stop
       </GlassButton>
+
+      <GlassButton
+        variant="secondary"
+        onClick={onSos}
+        className="w-full py-4"
+      >
+        🆘 Message Contacts for Help
+      </GlassButton>
     </div>
   );
 };
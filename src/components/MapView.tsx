@@ -2,20 +2,29 @@
 import React, { useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { Location } from '@/types';
-
-// Fix for default markers in Leaflet
+import markerIconRetinaUrl from 'leaflet/dist/images/marker-icon-2x.png';
+import markerIconUrl from 'leaflet/dist/images/marker-icon.png';
+import markerShadowUrl from 'leaflet/dist/images/marker-shadow.png';
+import { Alert, Location, TrackPoint } from '@/types';
+import { ALERT_COLORS } from '@/utils/alertRules';
+import { CachedTileLayer } from '@/utils/cachedTileLayer';
+import { TILE_URL_TEMPLATE } from '@/services/tileCache';
+
+// Fix for default markers in Leaflet; the images are bundled so markers show offline
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
-  iconRetinaUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon-2x.png',
-  iconUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon.png',
-  shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
+  iconRetinaUrl: markerIconRetinaUrl,
+  iconUrl: markerIconUrl,
+  shadowUrl: markerShadowUrl,
 });
 
 interface MapViewProps {
   currentLocation?: Location | null;
   destination?: Location | null;
   route?: Location[];
+  track?: TrackPoint[];
+  alerts?: Alert[];
+  replayPosition?: Location | null;
   className?: string;
   height?: string;
 }
@@ -24,6 +33,9 @@ const MapView: React.FC<MapViewProps> = ({
   currentLocation,
   destination,
   route,
+  track,
+  alerts,
+  replayPosition,
   className = '',
   height = '400px'
 }) => {
@@ -31,6 +43,9 @@ const MapView: React.FC<MapViewProps> = ({
   const mapInstanceRef = useRef<L.Map | null>(null);
   const markersRef = useRef<{ current?: L.Marker; destination?: L.Marker }>({});
   const routeRef = useRef<L.Polyline | null>(null);
+  const trackRef = useRef<L.Polyline | null>(null);
+  const alertMarkersRef = useRef<L.LayerGroup | null>(null);
+  const replayMarkerRef = useRef<L.CircleMarker | null>(null);
   const [isMapReady, setIsMapReady] = useState(false);
   const lastLocationRef = useRef<Location | null>(null);
   const lastDestinationRef = useRef<Location | null>(null);
@@ -52,9 +67,11 @@ const MapView: React.FC<MapViewProps> = ({
           preferCanvas: true
         });
 
-        L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+        new CachedTileLayer(TILE_URL_TEMPLATE, {
           attribution: '© OpenStreetMap contributors',
           maxZoom: 19,
+          // CORS responses can be cached by the service worker; opaque ones cannot
+          crossOrigin: true,
           className: 'map-tiles'
         }).addTo(map);
 
@@ -251,7 +268,7 @@ const MapView: React.FC<MapViewProps> = ({
 
   // Update route (only when route actually changes)
   useEffect(() => {
-    if (!mapInstanceRef.current || !route || route.length < 2 || !isMapReady) return;
+    if (!mapInstanceRef.current || !isMapReady) return;
 
     const map = mapInstanceRef.current;
 
@@ -259,7 +276,9 @@ const MapView: React.FC<MapViewProps> = ({
       // Remove existing route
       if (routeRef.current) {
         map.removeLayer(routeRef.current);
+        routeRef.current = null;
       }
+      if (!route || route.length < 2) return;
 
       // Add route polyline
       const routeLine = L.polyline(
@@ -283,6 +302,114 @@ const MapView: React.FC<MapViewProps> = ({
     }
   }, [route, isMapReady]);
 
+  // Draw the recorded track (replay mode)
+  useEffect(() => {
+    if (!mapInstanceRef.current || !isMapReady) return;
+
+    const map = mapInstanceRef.current;
+
+    try {
+      if (trackRef.current) {
+        map.removeLayer(trackRef.current);
+        trackRef.current = null;
+      }
+
+      if (!track || track.length < 2) return;
+
+      const trackLine = L.polyline(
+        track.map(point => [point.lat, point.lng]),
+        {
+          color: '#8B5CF6',
+          weight: 4,
+          opacity: 0.8,
+          smoothFactor: 1
+        }
+      ).addTo(map);
+
+      trackRef.current = trackLine;
+
+      if (!currentLocation) {
+        map.fitBounds(trackLine.getBounds().pad(0.1));
+      }
+    } catch (error) {
+      console.error('Error updating track:', error);
+    }
+  }, [track, isMapReady]);
+
+  // Show where each alert fired
+  useEffect(() => {
+    if (!mapInstanceRef.current || !isMapReady) return;
+
+    const map = mapInstanceRef.current;
+
+    try {
+      if (alertMarkersRef.current) {
+        map.removeLayer(alertMarkersRef.current);
+        alertMarkersRef.current = null;
+      }
+
+      const locatedAlerts = (alerts || []).filter(alert => alert.location);
+      if (locatedAlerts.length === 0) return;
+
+      const markers = locatedAlerts.map(alert => {
+        const color = ALERT_COLORS[alert.type];
+        const icon = L.divIcon({
+          className: 'alert-marker',
+          html: `
+            <div style="
+              width: 14px; 
+              height: 14px; 
+              background: ${color}; 
+              border: 2px solid white; 
+              border-radius: 50%; 
+              box-shadow: 0 0 12px ${color}80;
+            "></div>
+          `,
+          iconSize: [14, 14],
+          iconAnchor: [7, 7]
+        });
+
+        return L.marker([alert.location!.lat, alert.location!.lng], { icon })
+          .bindPopup(alert.message);
+      });
+
+      alertMarkersRef.current = L.layerGroup(markers).addTo(map);
+    } catch (error) {
+      console.error('Error updating alert markers:', error);
+    }
+  }, [alerts, isMapReady]);
+
+  // Move the replay cursor
+  useEffect(() => {
+    if (!mapInstanceRef.current || !isMapReady) return;
+
+    const map = mapInstanceRef.current;
+
+    try {
+      if (!replayPosition) {
+        if (replayMarkerRef.current) {
+          map.removeLayer(replayMarkerRef.current);
+          replayMarkerRef.current = null;
+        }
+        return;
+      }
+
+      if (replayMarkerRef.current) {
+        replayMarkerRef.current.setLatLng([replayPosition.lat, replayPosition.lng]);
+      } else {
+        replayMarkerRef.current = L.circleMarker([replayPosition.lat, replayPosition.lng], {
+          radius: 8,
+          color: '#FFFFFF',
+          weight: 3,
+          fillColor: '#00D4FF',
+          fillOpacity: 1
+        }).addTo(map);
+      }
+    } catch (error) {
+      console.error('Error updating replay position:', error);
+    }
+  }, [replayPosition, isMapReady]);
+
   return (
     <div className={className}>
       <div 
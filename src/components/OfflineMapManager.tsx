@@ -0,0 +1,216 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { CloudDownload, Trash2 } from 'lucide-react';
+import { Location, OfflineMapArea } from '@/types';
+import {
+  AVERAGE_TILE_BYTES,
+  DownloadProgress,
+  MAX_CACHE_BYTES,
+  MAX_OFFLINE_ZOOM,
+  MAX_TILES_PER_AREA,
+  MIN_OFFLINE_ZOOM,
+  TileCacheError,
+  countTilesInBounds,
+  getCorridorBounds,
+  tileCache
+} from '@/services/tileCache';
+import { StorageManager } from '@/utils/storage';
+import { findRecordedRoute, getTransitRoute } from '@/utils/journeyRoute';
+import { toast } from '@/hooks/use-toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import GlassCard from './GlassCard';
+import GlassButton from './GlassButton';
+
+interface OfflineMapManagerProps {
+  currentLocation?: Location | null;
+  className?: string;
+}
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const OfflineMapManager: React.FC<OfflineMapManagerProps> = ({ currentLocation, className = '' }) => {
+  const [destinations] = useState(() => StorageManager.getDestinations());
+  const [areas, setAreas] = useState<OfflineMapArea[]>(() => tileCache.getAreas());
+  const [destinationId, setDestinationId] = useState('');
+  const [zoomRange, setZoomRange] = useState<[number, number]>([12, 16]);
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const destination = destinations.find(d => d.id === destinationId);
+
+  // The way there: the transit shape or a previous trip, plus where the user is now
+  const bounds = useMemo(() => {
+    if (!destination) return null;
+
+    const route = destination.transit
+      ? getTransitRoute(destination.transit)
+      : findRecordedRoute(StorageManager.getJourneyHistory(), destination);
+    const points = [destination.location, ...(route?.points ?? [])];
+    if (currentLocation) points.push(currentLocation);
+    return getCorridorBounds(points);
+  }, [destination, currentLocation]);
+
+  const tileCount = bounds ? countTilesInBounds(bounds, zoomRange[0], zoomRange[1]) : 0;
+  const usedBytes = areas.reduce((total, area) => total + area.bytes, 0);
+  const isTooLarge = tileCount > MAX_TILES_PER_AREA;
+
+  const handleDownload = async () => {
+    if (!destination || !bounds) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: tileCount, bytes: 0 });
+
+    try {
+      const area = await tileCache.downloadArea(
+        {
+          name: destination.name,
+          destinationId: destination.id,
+          bounds,
+          minZoom: zoomRange[0],
+          maxZoom: zoomRange[1]
+        },
+        setProgress,
+        controller.signal
+      );
+
+      // A fresh download replaces the older area for the same destination
+      const replaced = tileCache.getAreas().filter(a => a.destinationId === destination.id && a.id !== area.id);
+      for (const old of replaced) {
+        await tileCache.deleteArea(old.id);
+      }
+
+      setAreas(tileCache.getAreas());
+      toast({
+        title: "Map Saved Offline",
+        description: `${area.tileCount} tiles (${formatBytes(area.bytes)}) around ${area.name}`,
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error('Error downloading offline map:', error);
+      toast({
+        title: "Download Failed",
+        description: error instanceof TileCacheError ? error.message : 'The map could not be downloaded',
+        variant: "destructive",
+      });
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await tileCache.deleteArea(id);
+    } catch (error) {
+      console.error('Error deleting offline map:', error);
+    }
+    setAreas(tileCache.getAreas());
+  };
+
+  if (!tileCache.isSupported()) {
+    return (
+      <GlassCard className={`p-6 text-center ${className}`}>
+        <p className="text-gray-400 text-sm">Offline maps are not supported on this device</p>
+      </GlassCard>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <GlassCard className="p-6 space-y-4">
+        <div className="text-center">
+          <CloudDownload size={40} className="mx-auto text-electric-400 mb-2" />
+          <p className="text-gray-400 text-sm">
+            Save the map along the way to a destination, so it still shows in tunnels and without data
+          </p>
+        </div>
+
+        {destinations.length === 0 ? (
+          <p className="text-gray-500 text-sm text-center">Save a destination first</p>
+        ) : (
+          <Select value={destinationId} onValueChange={setDestinationId}>
+            <SelectTrigger className="h-auto py-2 bg-white/5 border-white/10 text-gray-300">
+              <SelectValue placeholder="Destination" />
+            </SelectTrigger>
+            <SelectContent>
+              {destinations.map(d => (
+                <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-300">Zoom levels</span>
+            <span className="text-white">{zoomRange[0]}–{zoomRange[1]}</span>
+          </div>
+          <Slider
+            min={MIN_OFFLINE_ZOOM}
+            max={MAX_OFFLINE_ZOOM}
+            step={1}
+            value={zoomRange}
+            onValueChange={([min, max]) => setZoomRange([min, max])}
+            disabled={!!progress}
+          />
+        </div>
+
+        {bounds && (
+          <p className={`text-xs ${isTooLarge ? 'text-red-400' : 'text-gray-400'}`}>
+            {tileCount} tiles, about {formatBytes(tileCount * AVERAGE_TILE_BYTES)}
+            {isTooLarge && ` — lower the zoom to stay under ${MAX_TILES_PER_AREA} tiles`}
+          </p>
+        )}
+
+        {progress ? (
+          <div className="space-y-3">
+            <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-white">{progress.done} / {progress.total} tiles</span>
+              <GlassButton variant="secondary" size="sm" onClick={() => abortRef.current?.abort()}>
+                Cancel
+              </GlassButton>
+            </div>
+          </div>
+        ) : (
+          <GlassButton
+            variant="primary"
+            className="w-full"
+            disabled={!bounds || isTooLarge}
+            onClick={handleDownload}
+          >
+            Download for Offline
+          </GlassButton>
+        )}
+      </GlassCard>
+
+      {areas.length > 0 && (
+        <GlassCard className="p-4 space-y-3">
+          <div className="flex justify-between text-sm">
+            <span className="text-white font-semibold">Saved Areas</span>
+            <span className="text-gray-400">{formatBytes(usedBytes)} of {formatBytes(MAX_CACHE_BYTES)}</span>
+          </div>
+          {areas.map(area => (
+            <div key={area.id} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-white text-sm truncate">{area.name}</p>
+                <p className="text-gray-500 text-xs">
+                  Zoom {area.minZoom}–{area.maxZoom} · {formatBytes(area.bytes)} · {format(area.downloadedAt, 'd MMM yyyy')}
+                </p>
+              </div>
+              <GlassButton variant="danger" size="sm" onClick={() => handleDelete(area.id)}>
+                <Trash2 size={14} />
+              </GlassButton>
+            </div>
+          ))}
+        </GlassCard>
+      )}
+    </div>
+  );
+};
+
+export default OfflineMapManager;
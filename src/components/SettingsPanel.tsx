@@ -0,0 +1,655 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Bell, Volume2, Smartphone, Eye, Battery, MapPin, Palette, RotateCcw, Play, Route, AlarmClock, Music, Trash2, LucideIcon } from 'lucide-react';
+import { AlarmProfileId, AlarmSoundId, AlertRuleType, AlertTrigger, AlertType, RoutingEngine, UserPreferences } from '@/types';
+import { StorageManager, DEFAULT_PREFERENCES } from '@/utils/storage';
+import { preferencesSchema, PreferencesFormValues } from '@/utils/preferencesSchema';
+import { NotificationManager } from '@/utils/notifications';
+import { formatDistance } from '@/utils/geolocation';
+import { ALARM_PROFILES, ALARM_PROFILE_IDS, ALARM_SOUNDS, getProfileSettings } from '@/utils/alarmProfiles';
+import { DEFAULT_ROUTING_URLS } from '@/services/routingService';
+import { AlarmSoundError, alarmSounds } from '@/services/alarmSounds';
+import { toast } from '@/hooks/use-toast';
+import { Form, FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import GlassCard from './GlassCard';
+import GlassButton from './GlassButton';
+import TransportModeSelector from './TransportModeSelector';
+
+interface SettingsPanelProps {
+  onPreferencesChange?: (preferences: UserPreferences) => void;
+  className?: string;
+}
+
+const ALERT_RULE_SETTINGS: {
+  type: AlertRuleType;
+  label: string;
+  distanceRange: [number, number, number]; // min, max, step in meters
+  allowTime: boolean;
+  allowStops: boolean; // arrival is always by distance to the stop itself
+}[] = [
+  { type: 'first_warning', label: 'First warning', distanceRange: [200, 10000, 100], allowTime: true, allowStops: true },
+  { type: 'approaching', label: 'Approaching', distanceRange: [100, 10000, 100], allowTime: true, allowStops: true },
+  { type: 'final_warning', label: 'Final warning', distanceRange: [50, 5000, 50], allowTime: true, allowStops: true },
+  { type: 'arrived', label: 'Arrival radius', distanceRange: [10, 500, 10], allowTime: false, allowStops: false }
+];
+
+const MAX_STOPS_BEFORE = 10;
+
+const TRIGGERS: { key: AlertTrigger; label: string }[] = [
+  { key: 'distance', label: 'Distance' },
+  { key: 'time', label: 'Time' },
+  { key: 'both', label: 'Both' }
+];
+
+const ALARM_SOUND_SETTINGS: { type: AlertType; label: string }[] = [
+  { type: 'first_warning', label: 'First warning' },
+  { type: 'approaching', label: 'Approaching' },
+  { type: 'final_warning', label: 'Final warning' },
+  { type: 'arrived', label: 'Arrival' },
+  { type: 'transfer', label: 'Transfer' },
+  { type: 'missed_stop', label: 'Missed stop' },
+  { type: 'emergency', label: 'Emergency' }
+];
+
+const BUNDLED_SOUNDS = Object.entries(ALARM_SOUNDS) as [Exclude<AlarmSoundId, 'custom'>, { name: string }][];
+
+const ROUTING_ENGINES: { key: RoutingEngine; label: string }[] = [
+  { key: 'osrm', label: 'OSRM' },
+  { key: 'valhalla', label: 'Valhalla' }
+];
+
+const THEMES: { key: UserPreferences['appearance']['theme']; label: string }[] = [
+  { key: 'dark', label: 'Dark' },
+  { key: 'light', label: 'Light' },
+  { key: 'auto', label: 'Auto' }
+];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  onPreferencesChange,
+  className = ''
+}) => {
+  const [notificationManager] = useState(() => new NotificationManager());
+  const [isImportingSound, setIsImportingSound] = useState(false);
+  const soundInputRef = useRef<HTMLInputElement>(null);
+
+  const form = useForm<PreferencesFormValues>({
+    resolver: zodResolver(preferencesSchema),
+    defaultValues: StorageManager.getPreferences(),
+    mode: 'onChange'
+  });
+
+  const soundEnabled = form.watch('notifications.sound');
+  const routingEnabled = form.watch('routing.enabled');
+  const vibrationEnabled = form.watch('notifications.vibration');
+  const alarm = form.watch('alarm');
+
+  useEffect(() => {
+    return () => {
+      notificationManager.stopLongAlarm();
+    };
+  }, [notificationManager]);
+
+  const handleSave = (values: PreferencesFormValues) => {
+    const preferences = values as UserPreferences;
+    StorageManager.savePreferences(preferences);
+    form.reset(preferences);
+    onPreferencesChange?.(preferences);
+
+    toast({
+      title: "Settings Saved",
+      description: "Your preferences have been updated",
+      duration: 2000,
+    });
+  };
+
+  const handleResetToDefaults = () => {
+    StorageManager.savePreferences(DEFAULT_PREFERENCES);
+    form.reset(DEFAULT_PREFERENCES);
+    onPreferencesChange?.(DEFAULT_PREFERENCES);
+
+    toast({
+      title: "Settings Reset",
+      description: "All preferences have been restored to their defaults",
+      duration: 2000,
+    });
+  };
+
+  // Follow the engine's public server unless a custom one has been entered
+  const handleRoutingEngineChange = (engine: RoutingEngine) => {
+    const baseUrl = form.getValues('routing.baseUrl');
+    if (Object.values(DEFAULT_ROUTING_URLS).includes(baseUrl)) {
+      form.setValue('routing.baseUrl', DEFAULT_ROUTING_URLS[engine], { shouldDirty: true, shouldValidate: true });
+    }
+    form.setValue('routing.engine', engine, { shouldDirty: true });
+  };
+
+  const handlePreviewSound = async (alertType: AlertType) => {
+    await notificationManager.resumeAudioContext();
+    notificationManager.previewAlertSound(alertType, form.getValues('alarm') as UserPreferences['alarm']);
+    if (vibrationEnabled) {
+      notificationManager.vibrate();
+    }
+  };
+
+  const setAlarm = (value: UserPreferences['alarm']) => {
+    form.setValue('alarm', value, { shouldDirty: true, shouldValidate: true });
+  };
+
+  // A profile replaces the individual sound settings, which can then be adjusted
+  const handleProfileChange = (profile: AlarmProfileId) => {
+    setAlarm(getProfileSettings(profile, form.getValues('alarm.customSound') as UserPreferences['alarm']['customSound']));
+  };
+
+  const handleSoundFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImportingSound(true);
+    try {
+      const customSound = await alarmSounds.importCustomSound(file);
+      form.setValue('alarm.customSound', customSound, { shouldDirty: true });
+      toast({
+        title: "Sound Imported",
+        description: `Choose ${customSound.name} for any alert, then save your settings`,
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error('Error importing alarm sound:', error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof AlarmSoundError ? error.message : 'The sound could not be saved',
+        variant: "destructive",
+      });
+    } finally {
+      setIsImportingSound(false);
+    }
+  };
+
+  // Alerts that used the imported sound go back to the profile's own
+  const handleRemoveCustomSound = async () => {
+    notificationManager.stopLongAlarm();
+    try {
+      await alarmSounds.deleteCustomSound();
+    } catch (error) {
+      console.error('Error removing alarm sound:', error);
+    }
+
+    const current = form.getValues('alarm') as UserPreferences['alarm'];
+    const profileSounds = ALARM_PROFILES[current.profile].settings.sounds;
+    const sounds = { ...current.sounds };
+    (Object.keys(sounds) as AlertType[]).forEach(type => {
+      if (sounds[type] === 'custom') {
+        sounds[type] = profileSounds[type];
+      }
+    });
+    setAlarm({ ...current, sounds, customSound: undefined });
+  };
+
+  const renderSectionHeader = (Icon: LucideIcon, title: string, color: string) => (
+    <div className="flex items-center gap-3 mb-4">
+      <div className={`p-2 rounded-lg ${color}`}>
+        <Icon size={18} />
+      </div>
+      <h3 className="text-lg font-semibold text-white">{title}</h3>
+    </div>
+  );
+
+  const renderAlertRule = ({ type, label, distanceRange, allowTime, allowStops }: typeof ALERT_RULE_SETTINGS[number]) => {
+    const rule = form.watch(`alertRules.${type}`);
+    const [minDistance, maxDistance, distanceStep] = distanceRange;
+    const usesDistance = !allowTime || rule.trigger !== 'time';
+    const usesTime = allowTime && rule.trigger !== 'distance';
+
+    return (
+      <div key={type} className="space-y-3 pb-4 border-b border-white/10 last:border-b-0 last:pb-0">
+        <FormField
+          control={form.control}
+          name={`alertRules.${type}.enabled`}
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between space-y-0">
+              <span className="text-white text-sm font-medium">{label}</span>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        {rule.enabled && allowTime && (
+          <FormField
+            control={form.control}
+            name={`alertRules.${type}.trigger`}
+            render={({ field }) => (
+              <div className="grid grid-cols-3 gap-2">
+                {TRIGGERS.map(({ key, label: triggerLabel }) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => field.onChange(key)}
+                    className={`py-1.5 rounded-lg border text-xs transition-colors ${
+                      field.value === key
+                        ? 'border-electric-400/60 bg-electric-500/20 text-electric-300'
+                        : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10'
+                    }`}
+                  >
+                    {triggerLabel}
+                  </button>
+                ))}
+              </div>
+            )}
+          />
+        )}
+
+        {rule.enabled && usesDistance && (
+          <FormField
+            control={form.control}
+            name={`alertRules.${type}.distance`}
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-400 text-xs">Distance</span>
+                  <span className="text-electric-400 text-sm">{formatDistance(field.value)}</span>
+                </div>
+                <FormControl>
+                  <Slider
+                    min={minDistance}
+                    max={maxDistance}
+                    step={distanceStep}
+                    value={[field.value]}
+                    onValueChange={([value]) => field.onChange(value)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {rule.enabled && usesTime && (
+          <FormField
+            control={form.control}
+            name={`alertRules.${type}.time`}
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-400 text-xs">Time before arrival</span>
+                  <span className="text-electric-400 text-sm">{Math.round(field.value / 60000)} min</span>
+                </div>
+                <FormControl>
+                  <Slider
+                    min={1}
+                    max={60}
+                    step={1}
+                    value={[Math.max(1, Math.round(field.value / 60000))]}
+                    onValueChange={([minutes]) => field.onChange(minutes * 60000)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {rule.enabled && allowStops && (
+          <FormField
+            control={form.control}
+            name={`alertRules.${type}.stops`}
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-400 text-xs">Stops before, on transit routes</span>
+                  <span className="text-electric-400 text-sm">{field.value ? field.value : 'Off'}</span>
+                </div>
+                <FormControl>
+                  <Slider
+                    min={0}
+                    max={MAX_STOPS_BEFORE}
+                    step={1}
+                    value={[field.value ?? 0]}
+                    onValueChange={([stops]) => field.onChange(stops)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const renderToggle = (
+    name: `notifications.${keyof UserPreferences['notifications']}` | `tracking.${keyof UserPreferences['tracking']}` | 'routing.enabled' | `appearance.${'animations' | 'particles'}`,
+    label: string,
+    description: string,
+    Icon: LucideIcon
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between gap-4 space-y-0 py-2">
+          <div className="flex items-center gap-3">
+            <Icon size={18} className="text-gray-400" />
+            <div>
+              <div className="text-white text-sm font-medium">{label}</div>
+              <div className="text-gray-400 text-xs">{description}</div>
+            </div>
+          </div>
+          <FormControl>
+            <Switch checked={field.value} onCheckedChange={field.onChange} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSave)} className={`space-y-4 ${className}`}>
+        {/* Alert Rules */}
+        <GlassCard className="p-4">
+          {renderSectionHeader(Bell, 'Alerts', 'bg-electric-500/20 text-electric-400')}
+
+          <div className="space-y-4">
+            {ALERT_RULE_SETTINGS.map(setting => renderAlertRule(setting))}
+          </div>
+        </GlassCard>
+
+        {/* Default Transport Mode */}
+        <GlassCard className="p-4">
+          {renderSectionHeader(MapPin, 'Default Transport', 'bg-neon-500/20 text-neon-400')}
+          <FormField
+            control={form.control}
+            name="defaultTransportMode"
+            render={({ field }) => (
+              <TransportModeSelector selectedMode={field.value} onModeChange={field.onChange} />
+            )}
+          />
+        </GlassCard>
+
+        {/* Notifications */}
+        <GlassCard className="p-4">
+          {renderSectionHeader(Volume2, 'Notifications', 'bg-purple-500/20 text-purple-400')}
+          {renderToggle('notifications.sound', 'Sound', 'Play alarm sounds for alerts', Volume2)}
+          {renderToggle('notifications.vibration', 'Vibration', 'Vibrate the device on alerts', Smartphone)}
+          {renderToggle('notifications.visual', 'Visual', 'Show system notifications', Eye)}
+        </GlassCard>
+
+        {/* Alarm Sounds */}
+        <GlassCard className="p-4">
+          {renderSectionHeader(AlarmClock, 'Alarm Sounds', 'bg-red-500/20 text-red-400')}
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              {ALARM_PROFILE_IDS.map(profile => (
+                <button
+                  key={profile}
+                  type="button"
+                  onClick={() => handleProfileChange(profile)}
+                  className={`py-2 px-1 rounded-xl border text-sm transition-colors ${
+                    alarm.profile === profile
+                      ? 'border-electric-400/60 bg-electric-500/20 text-electric-300'
+                      : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10'
+                  }`}
+                >
+                  {ALARM_PROFILES[profile].name}
+                </button>
+              ))}
+            </div>
+            <p className="text-gray-400 text-xs">{ALARM_PROFILES[alarm.profile].description}</p>
+
+            <div className="space-y-2">
+              {ALARM_SOUND_SETTINGS.map(({ type, label }) => (
+                <FormField
+                  key={type}
+                  control={form.control}
+                  name={`alarm.sounds.${type}`}
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <span className="text-white text-sm flex-1">{label}</span>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="w-32 h-auto py-1.5 bg-white/5 border-white/10 text-gray-300">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {BUNDLED_SOUNDS.map(([sound, { name }]) => (
+                            <SelectItem key={sound} value={sound}>{name}</SelectItem>
+                          ))}
+                          {alarm.customSound && <SelectItem value="custom">Imported</SelectItem>}
+                        </SelectContent>
+                      </Select>
+                      <GlassButton
+                        variant="secondary"
+                        size="sm"
+                        className="px-2"
+                        disabled={!soundEnabled}
+                        onClick={() => handlePreviewSound(type)}
+                      >
+                        <Play size={14} />
+                      </GlassButton>
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="alarm.rampVolume"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 space-y-0 pt-2">
+                  <div>
+                    <div className="text-white text-sm font-medium">Ramp volume</div>
+                    <div className="text-gray-400 text-xs">Start quietly and grow louder</div>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="alarm.duration"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-400 text-xs">Sound for up to</span>
+                    <span className="text-electric-400 text-sm">{Math.round(field.value / 1000)} s</span>
+                  </div>
+                  <FormControl>
+                    <Slider
+                      min={5}
+                      max={120}
+                      step={5}
+                      value={[Math.round(field.value / 1000)]}
+                      onValueChange={([seconds]) => field.onChange(seconds * 1000)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="alarm.repeat"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-400 text-xs">Play the sound</span>
+                    <span className="text-electric-400 text-sm">{field.value === 1 ? 'Once' : `${field.value} times`}</span>
+                  </div>
+                  <FormControl>
+                    <Slider
+                      min={1}
+                      max={20}
+                      step={1}
+                      value={[field.value]}
+                      onValueChange={([repeat]) => field.onChange(repeat)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="pt-4 border-t border-white/10 space-y-3">
+              {alarm.customSound && (
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Music size={16} className="text-gray-400 shrink-0" />
+                    <span className="text-white text-sm truncate">{alarm.customSound.name}</span>
+                  </div>
+                  <GlassButton variant="danger" size="sm" onClick={handleRemoveCustomSound}>
+                    <Trash2 size={14} />
+                    Remove
+                  </GlassButton>
+                </div>
+              )}
+              <input
+                ref={soundInputRef}
+                type="file"
+                accept="audio/*"
+                onChange={handleSoundFileChange}
+                className="hidden"
+              />
+              <GlassButton
+                variant="secondary"
+                className="w-full"
+                loading={isImportingSound}
+                onClick={() => soundInputRef.current?.click()}
+              >
+                {alarm.customSound ? 'Replace Imported Sound' : 'Import a Sound'}
+              </GlassButton>
+            </div>
+          </div>
+        </GlassCard>
+
+        {/* Tracking */}
+        <GlassCard className="p-4">
+          {renderSectionHeader(Battery, 'Tracking', 'bg-yellow-500/20 text-yellow-400')}
+          {renderToggle('tracking.batteryOptimization', 'Battery optimization', 'Reduce GPS usage when far from your stop', Battery)}
+          {renderToggle('tracking.backgroundLocation', 'Background location', 'Keep tracking when the app is in the background', MapPin)}
+        </GlassCard>
+
+        {/* Routing */}
+        <GlassCard className="p-4">
+          {renderSectionHeader(Route, 'Routing', 'bg-purple-500/20 text-purple-400')}
+          {renderToggle('routing.enabled', 'Follow the road', 'Measure distance along a route from a routing server', Route)}
+
+          {routingEnabled && (
+            <div className="space-y-3 mt-2">
+              <FormField
+                control={form.control}
+                name="routing.engine"
+                render={({ field }) => (
+                  <div className="grid grid-cols-2 gap-2">
+                    {ROUTING_ENGINES.map(({ key, label }) => (
+                      <button
+                        key={key}
+                        type="button"
+                        onClick={() => handleRoutingEngineChange(key)}
+                        className={`py-2 rounded-xl border text-sm transition-colors ${
+                          field.value === key
+                            ? 'border-electric-400/60 bg-electric-500/20 text-electric-300'
+                            : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="routing.baseUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <span className="text-gray-400 text-xs">Server URL</span>
+                    <FormControl>
+                      <input
+                        {...field}
+                        type="url"
+                        className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-xl outline-none text-white placeholder-gray-400 text-sm"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <p className="text-gray-500 text-xs">
+                Point this at a local instance to route offline. Train journeys keep straight-line distance.
+              </p>
+            </div>
+          )}
+        </GlassCard>
+
+        {/* Appearance */}
+        <GlassCard className="p-4">
+          {renderSectionHeader(Palette, 'Appearance', 'bg-electric-500/20 text-electric-400')}
+
+          <FormField
+            control={form.control}
+            name="appearance.theme"
+            render={({ field }) => (
+              <FormItem className="mb-2">
+                <div className="grid grid-cols-3 gap-2">
+                  {THEMES.map(({ key, label }) => (
+                    <button
+                      key={key}
+                      type="button"
+                      onClick={() => field.onChange(key)}
+                      className={`py-2 rounded-xl border text-sm transition-colors ${
+                        field.value === key
+                          ? 'border-electric-400/60 bg-electric-500/20 text-electric-300'
+                          : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </FormItem>
+            )}
+          />
+          {renderToggle('appearance.animations', 'Animations', 'Enable interface animations', Palette)}
+          {renderToggle('appearance.particles', 'Particles', 'Show the animated particle background', Palette)}
+        </GlassCard>
+
+        {/* Actions */}
+        <div className="grid grid-cols-2 gap-4">
+          <GlassButton
+            variant="secondary"
+            onClick={handleResetToDefaults}
+            className="py-4"
+          >
+            <RotateCcw size={16} />
+            Reset Defaults
+          </GlassButton>
+          <GlassButton
+            variant="primary"
+            type="submit"
+            disabled={!form.formState.isDirty || !form.formState.isValid}
+            className="py-4"
+          >
+            Save Settings
+          </GlassButton>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default SettingsPanel;
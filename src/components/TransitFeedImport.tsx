@@ -0,0 +1,97 @@
+import React, { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { FileArchive, Trash2 } from 'lucide-react';
+import { TransitFeed } from '@/types';
+import { GtfsImportError } from '@/utils/gtfs';
+import { importGtfsFile } from '@/utils/gtfsImport';
+import { toast } from '@/hooks/use-toast';
+import GlassCard from './GlassCard';
+import GlassButton from './GlassButton';
+
+interface TransitFeedImportProps {
+  feed: TransitFeed | null;
+  onFeedChange: (feed: TransitFeed | null) => void;
+  className?: string;
+}
+
+const TransitFeedImport: React.FC<TransitFeedImportProps> = ({ feed, onFeedChange, className = '' }) => {
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const imported = await importGtfsFile(file);
+      onFeedChange(imported);
+      toast({
+        title: "Transit Feed Imported",
+        description: `${imported.routes.length} routes and ${imported.stops.length} stops from ${imported.name}`,
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error('Error importing GTFS feed:', error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof GtfsImportError ? error.message : 'The feed could not be read',
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {feed && (
+        <GlassCard className="p-4 space-y-3">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <h3 className="text-white font-semibold truncate">{feed.name}</h3>
+              <p className="text-gray-400 text-sm">
+                {feed.routes.length} routes · {feed.stops.length} stops
+              </p>
+              <p className="text-gray-500 text-xs">Imported {format(feed.importedAt, 'd MMM yyyy, HH:mm')}</p>
+            </div>
+            <GlassButton variant="danger" size="sm" onClick={() => onFeedChange(null)}>
+              <Trash2 size={14} />
+              Remove
+            </GlassButton>
+          </div>
+        </GlassCard>
+      )}
+
+      <GlassCard className="p-6 text-center space-y-4">
+        <FileArchive size={40} className="mx-auto text-electric-400" />
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-1">
+            {feed ? 'Replace Transit Feed' : 'Import Transit Feed'}
+          </h3>
+          <p className="text-gray-400 text-sm">
+            Choose a GTFS static zip from your transit agency to pick routes and stops, and get alerts a set number of stops before yours
+          </p>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <GlassButton
+          variant="primary"
+          className="w-full"
+          loading={isImporting}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Choose GTFS Zip
+        </GlassButton>
+      </GlassCard>
+    </div>
+  );
+};
+
+export default TransitFeedImport;
@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { TransitFeed, TransitRide } from '@/types';
+import { getRouteName } from '@/utils/gtfs';
+import { buildTransitRide, getPatternStops } from '@/utils/transitRide';
+import { TRANSPORT_ICONS } from '@/utils/journeyHistory';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import GlassButton from './GlassButton';
+
+interface TransitStopPickerProps {
+  feed: TransitFeed;
+  onRideSelect: (ride: TransitRide) => void;
+}
+
+const triggerClassName = 'h-auto py-2 bg-white/5 border-white/10 text-gray-300';
+
+// Route, then direction, then the stop to get off at
+const TransitStopPicker: React.FC<TransitStopPickerProps> = ({ feed, onRideSelect }) => {
+  const [routeId, setRouteId] = useState('');
+  const [patternId, setPatternId] = useState('');
+  const [stopIndex, setStopIndex] = useState('');
+
+  const route = feed.routes.find(r => r.id === routeId);
+  const pattern = route?.patterns.find(p => p.id === patternId);
+  const stops = useMemo(() => (pattern ? getPatternStops(feed, pattern) : []), [feed, pattern]);
+
+  const handleRouteChange = (id: string) => {
+    const nextRoute = feed.routes.find(r => r.id === id);
+    setRouteId(id);
+    // Most routes run one pattern each way; start with the first
+    setPatternId(nextRoute?.patterns[0]?.id ?? '');
+    setStopIndex('');
+  };
+
+  const handlePatternChange = (id: string) => {
+    setPatternId(id);
+    setStopIndex('');
+  };
+
+  const handleConfirm = () => {
+    if (!route || !pattern || stopIndex === '') return;
+    onRideSelect(buildTransitRide(route, pattern, stops, Number(stopIndex)));
+  };
+
+  return (
+    <div className="space-y-3 px-3 pb-3">
+      <Select value={routeId} onValueChange={handleRouteChange}>
+        <SelectTrigger className={triggerClassName}>
+          <SelectValue placeholder="Route" />
+        </SelectTrigger>
+        <SelectContent>
+          {feed.routes.map(r => (
+            <SelectItem key={r.id} value={r.id}>
+              {TRANSPORT_ICONS[r.transportMode]} {getRouteName(r)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {route && route.patterns.length > 1 && (
+        <Select value={patternId} onValueChange={handlePatternChange}>
+          <SelectTrigger className={triggerClassName}>
+            <SelectValue placeholder="Direction" />
+          </SelectTrigger>
+          <SelectContent>
+            {route.patterns.map(p => (
+              <SelectItem key={p.id} value={p.id}>
+                Towards {p.headsign} ({p.stopIds.length} stops)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {pattern && (
+        <Select value={stopIndex} onValueChange={setStopIndex}>
+          <SelectTrigger className={triggerClassName}>
+            <SelectValue placeholder="Get off at" />
+          </SelectTrigger>
+          <SelectContent>
+            {/* The first stop can only be boarded at */}
+            {stops.slice(1).map((stop, index) => (
+              <SelectItem key={`${stop.id}_${index}`} value={String(index + 1)}>
+                {stop.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <GlassButton
+        variant="primary"
+        className="w-full"
+        disabled={!pattern || stopIndex === ''}
+        onClick={handleConfirm}
+      >
+        {stopIndex !== '' && stops[Number(stopIndex)]
+          ? `Ride to ${stops[Number(stopIndex)].name}`
+          : 'Choose a stop'}
+      </GlassButton>
+    </div>
+  );
+};
+
+export default TransitStopPicker;
@@ -0,0 +1,244 @@
+import React, { useMemo, useState } from 'react';
+import { format, parse } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { BarChart3 } from 'lucide-react';
+import { Journey, TransportMode, TravelStats } from '@/types';
+import { formatDistance, formatDuration } from '@/utils/geolocation';
+import { getDestinationFrequencies } from '@/utils/journeyHistory';
+import { getCompletionRate, getDurationsByTimeOfDay } from '@/utils/insights';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { Progress } from '@/components/ui/progress';
+import GlassCard from './GlassCard';
+
+interface TravelInsightsProps {
+  travelStats: TravelStats;
+  journeys: Journey[];
+  className?: string;
+}
+
+type InsightsPeriod = 'week' | 'month';
+type InsightsMetric = 'journeys' | 'distance' | 'time';
+
+const TRANSPORT_MODES: TransportMode[] = ['bus', 'train', 'car', 'walk'];
+const TOP_DESTINATIONS = 5;
+
+const PERIOD_LABELS: Record<InsightsPeriod, string> = {
+  week: 'Weekly',
+  month: 'Monthly'
+};
+
+const METRIC_LABELS: Record<InsightsMetric, string> = {
+  journeys: 'Journeys',
+  distance: 'Distance',
+  time: 'Time'
+};
+
+const periodConfig: ChartConfig = {
+  value: { label: 'Total', color: '#00D4FF' }
+};
+
+const modeConfig: ChartConfig = {
+  bus: { label: 'Bus', color: '#00D4FF' },
+  train: { label: 'Train', color: '#A855F7' },
+  car: { label: 'Car', color: '#F59E0B' },
+  walk: { label: 'Walk', color: '#39FF14' }
+};
+
+const timeOfDayConfig: ChartConfig = {
+  minutes: { label: 'Typical duration', color: '#A855F7' }
+};
+
+// Chart values are kept in readable units; tooltips format them back
+const toMetricValue = (metric: InsightsMetric, period: { journeys: number; distance: number; time: number }): number => {
+  switch (metric) {
+    case 'distance':
+      return Math.round(period.distance / 100) / 10; // km
+    case 'time':
+      return Math.round(period.time / 60000); // minutes
+    default:
+      return period.journeys;
+  }
+};
+
+const formatMetricValue = (metric: InsightsMetric, value: number): string => {
+  switch (metric) {
+    case 'distance':
+      return formatDistance(value * 1000);
+    case 'time':
+      return formatDuration(value * 60000);
+    default:
+      return `${value} ${value === 1 ? 'journey' : 'journeys'}`;
+  }
+};
+
+const TravelInsights: React.FC<TravelInsightsProps> = ({ travelStats, journeys, className = '' }) => {
+  const [period, setPeriod] = useState<InsightsPeriod>('week');
+  const [metric, setMetric] = useState<InsightsMetric>('journeys');
+
+  const periodData = useMemo(() => (
+    period === 'week'
+      ? travelStats.weeklyStats.map(week => ({
+        label: week.week.slice(week.week.indexOf('W')),
+        value: toMetricValue(metric, week)
+      }))
+      : travelStats.monthlyStats.map(month => ({
+        label: format(parse(month.month, 'yyyy-MM', new Date()), 'MMM'),
+        value: toMetricValue(metric, month)
+      }))
+  ), [travelStats, period, metric]);
+
+  const modeData = useMemo(
+    () => TRANSPORT_MODES
+      .map(mode => ({ mode, count: travelStats.transportModeUsage[mode] }))
+      .filter(entry => entry.count > 0),
+    [travelStats]
+  );
+
+  const topDestinations = useMemo(() => getDestinationFrequencies(journeys).slice(0, TOP_DESTINATIONS), [journeys]);
+
+  const timeOfDayData = useMemo(
+    () => getDurationsByTimeOfDay(journeys).map(entry => ({
+      label: entry.label,
+      journeys: entry.journeys,
+      minutes: entry.typicalDuration !== null ? Math.round(entry.typicalDuration / 60000) : 0
+    })),
+    [journeys]
+  );
+
+  const completion = useMemo(() => getCompletionRate(journeys), [journeys]);
+
+  const renderChoice = <T extends string>(value: T, selected: T, label: string, onSelect: (value: T) => void) => (
+    <button
+      key={value}
+      type="button"
+      onClick={() => onSelect(value)}
+      className={`py-1.5 rounded-lg border text-xs transition-colors ${
+        value === selected
+          ? 'border-electric-400/60 bg-electric-500/20 text-electric-300'
+          : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  if (travelStats.totalJourneys === 0) {
+    return (
+      <GlassCard className={`p-8 text-center ${className}`}>
+        <BarChart3 size={48} className="mx-auto text-gray-400 mb-4" />
+        <h3 className="text-lg font-semibold text-white mb-2">No Insights Yet</h3>
+        <p className="text-gray-400 text-sm">Complete a few journeys to see your travel patterns</p>
+      </GlassCard>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Journeys, distance and time per period */}
+      <GlassCard className="p-4 space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          {(['week', 'month'] as InsightsPeriod[]).map(value => renderChoice<InsightsPeriod>(value, period, PERIOD_LABELS[value], setPeriod))}
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {(['journeys', 'distance', 'time'] as InsightsMetric[]).map(value => renderChoice<InsightsMetric>(value, metric, METRIC_LABELS[value], setMetric))}
+        </div>
+
+        <ChartContainer config={periodConfig} className="w-full">
+          <BarChart data={periodData}>
+            <CartesianGrid vertical={false} strokeOpacity={0.1} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={metric === 'distance'} />
+            <ChartTooltip
+              content={<ChartTooltipContent formatter={value => formatMetricValue(metric, Number(value))} />}
+            />
+            <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </GlassCard>
+
+      {/* Transport mode breakdown */}
+      <GlassCard className="p-4">
+        <h3 className="text-lg font-semibold text-white mb-2">Transport Modes</h3>
+        <ChartContainer config={modeConfig} className="w-full">
+          <PieChart>
+            <ChartTooltip content={<ChartTooltipContent nameKey="mode" hideLabel />} />
+            <Pie data={modeData} dataKey="count" nameKey="mode" innerRadius="50%" strokeWidth={0}>
+              {modeData.map(entry => (
+                <Cell key={entry.mode} fill={`var(--color-${entry.mode})`} />
+              ))}
+            </Pie>
+            <ChartLegend content={<ChartLegendContent nameKey="mode" />} />
+          </PieChart>
+        </ChartContainer>
+      </GlassCard>
+
+      {/* Completion rate */}
+      <GlassCard className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Completion Rate</h3>
+          <span className="text-neon-400 font-bold">{completion.rate.toFixed(0)}%</span>
+        </div>
+        <Progress value={completion.rate} className="h-2 bg-white/10" />
+        <div className="flex justify-between text-xs text-gray-400">
+          <span>{completion.arrived} arrived</span>
+          <span>{completion.stopped} stopped early</span>
+        </div>
+      </GlassCard>
+
+      {/* Most frequent destinations */}
+      <GlassCard className="p-4">
+        <h3 className="text-lg font-semibold text-white mb-3">Top Destinations</h3>
+        <div className="space-y-2">
+          {topDestinations.map(({ destination, count }) => (
+            <div key={destination.id} className="flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="text-white text-sm truncate">{destination.name}</div>
+                <div className="h-1.5 mt-1 rounded-full bg-white/10 overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-electric-500"
+                    style={{ width: `${(count / topDestinations[0].count) * 100}%` }}
+                  />
+                </div>
+              </div>
+              <span className="text-gray-400 text-xs">{count}×</span>
+            </div>
+          ))}
+        </div>
+      </GlassCard>
+
+      {/* Typical durations by time of day */}
+      <GlassCard className="p-4">
+        <h3 className="text-lg font-semibold text-white mb-2">Typical Journey Time</h3>
+        <ChartContainer config={timeOfDayConfig} className="w-full">
+          <BarChart data={timeOfDayData}>
+            <CartesianGrid vertical={false} strokeOpacity={0.1} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value, _, item) => item.payload.journeys > 0
+                    ? `${formatDuration(Number(value) * 60000)} median of ${item.payload.journeys}`
+                    : 'No journeys'}
+                />
+              }
+            />
+            <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+        <div className="text-gray-400 text-xs text-center mt-1">
+          Median minutes by the time a journey started
+        </div>
+      </GlassCard>
+    </div>
+  );
+};
+
+export default TravelInsights;
@@ -1,407 +1,193 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Journey, Destination, Location, TransportMode, JourneyStatus, Alert, AlertType } from '@/types';
-import { GeolocationManager, calculateDistance } from '@/utils/geolocation';
-import { NotificationManager } from '@/utils/notifications';
-import { StorageManager } from '@/utils/storage';
+import { Journey, Destination, Location, NotificationActionId, SnoozeOption, TransportMode } from '@/types';
+import { getAlertTitle } from '@/utils/alertRules';
 import { toast } from '@/hooks/use-toast';
-import { backgroundLocationService } from '@/services/backgroundLocationService';
+import { journeyEngine, JourneyEngine, JourneyEngineState, JourneyStartOptions } from '@/services/journeyEngine';
+import { serviceWorkerManager } from '@/services/serviceWorker';
+import { nativeNotifications } from '@/services/nativeNotifications';
+import { JourneyLegPlan } from '@/utils/journeyLegs';
+import { NOTIFICATION_SNOOZE } from '@/utils/alarms';
 
 interface UseJourneyManagerReturn {
   currentJourney: Journey | null;
-  startJourney: (destination: Destination, transportMode: TransportMode) => Promise<void>;
+  startJourney: (destination: Destination, transportMode: TransportMode, options?: JourneyStartOptions) => Promise<void>;
+  startJourneyLegs: (legs: JourneyLegPlan[], options?: JourneyStartOptions) => Promise<void>;
   stopJourney: () => void;
   pauseJourney: () => void;
   resumeJourney: () => void;
   emergencyStop: () => void;
+  acknowledgeAlarm: () => void;
+  snoozeAlarm: (option: SnoozeOption) => void;
   currentLocation: Location | null;
   isTracking: boolean;
   error: string | null;
   isBackgroundTrackingActive: boolean;
 }
 
-export const useJourneyManager = (): UseJourneyManagerReturn => {
-  const [currentJourney, setCurrentJourney] = useState<Journey | null>(null);
-  const [currentLocation, setCurrentLocation] = useState<Location | null>(null);
-  const [isTracking, setIsTracking] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [geolocationManager] = useState(() => new GeolocationManager());
-  const [notificationManager] = useState(() => new NotificationManager());
-  const [alertedDistances, setAlertedDistances] = useState<Set<AlertType>>(new Set());
-  const [isBackgroundTrackingActive, setIsBackgroundTrackingActive] = useState(false);
+// Thin React binding over the JourneyEngine: mirrors its state and turns its events into toasts
+export const useJourneyManager = (engine: JourneyEngine = journeyEngine): UseJourneyManagerReturn => {
+  const [state, setState] = useState<JourneyEngineState>(() => engine.getState());
 
-  // Initialize from storage
   useEffect(() => {
-    const savedJourney = StorageManager.getCurrentJourney();
-    if (savedJourney && savedJourney.status !== 'stopped' && savedJourney.status !== 'arrived') {
-      setCurrentJourney(savedJourney);
-      startLocationTracking();
-    }
-  }, []);
-
-  // Save journey state
-  useEffect(() => {
-    StorageManager.saveCurrentJourney(currentJourney);
-  }, [currentJourney]);
-
-  // Resume audio context on user interaction
-  useEffect(() => {
-    const resumeAudio = () => {
-      notificationManager.resumeAudioContext();
-    };
-
-    // Listen for user interactions to resume audio context
-    document.addEventListener('touchstart', resumeAudio, { once: true });
-    document.addEventListener('click', resumeAudio, { once: true });
-
-    return () => {
-      document.removeEventListener('touchstart', resumeAudio);
-      document.removeEventListener('click', resumeAudio);
-    };
-  }, [notificationManager]);
-
-  const startLocationTracking = useCallback(() => {
-    console.log('Starting location tracking...');
-    
-    const handleLocationUpdate = (location: Location) => {
-      console.log('Location updated:', location);
-      setCurrentLocation(location);
-      setError(null);
-    };
-
-    const handleLocationError = (error: GeolocationPositionError) => {
-      console.error('Location error:', error);
-      setError(error.message);
-      toast({
-        title: "Location Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    };
-
-    const unsubscribeLocation = geolocationManager.onPositionUpdate(handleLocationUpdate);
-    const unsubscribeError = geolocationManager.onError(handleLocationError);
-
-    geolocationManager.startTracking();
-    setIsTracking(true);
-    setIsBackgroundTrackingActive(geolocationManager.isBackgroundTrackingActive());
+    const unsubscribers = [
+      engine.on('change', setState),
 
-    return () => {
-      unsubscribeLocation();
-      unsubscribeError();
-      geolocationManager.stopTracking();
-      setIsTracking(false);
-      setIsBackgroundTrackingActive(false);
-    };
-  }, [geolocationManager]);
-
-  const stopLocationTracking = useCallback(() => {
-    console.log('Stopping location tracking...');
-    geolocationManager.stopTracking();
-    // Also stop any long alarms
-    notificationManager.stopLongAlarm();
-    setIsTracking(false);
-  }, [geolocationManager, notificationManager]);
-
-  // Enhanced journey tracking logic with better alert handling
-  useEffect(() => {
-    if (!currentJourney || !currentLocation || currentJourney.status !== 'tracking') {
-      return;
-    }
-
-    const distance = calculateDistance(currentLocation, currentJourney.destination.location);
-    const preferences = StorageManager.getPreferences();
-    
-    console.log(`Distance to destination: ${distance}m`);
-
-    // Update journey with current location and distance
-    setCurrentJourney(prev => prev ? {
-      ...prev,
-      currentLocation,
-      distance
-    } : null);
-
-    // Enhanced alert checking with better distance thresholds
-    const checkAndSendAlert = async (alertType: AlertType, distance: number, threshold: number) => {
-      if (distance <= threshold && !alertedDistances.has(alertType)) {
-        console.log(`🚨 Triggering ${alertType} alert at ${distance}m`);
-        
-        const alert: Alert = {
-          id: `${alertType}_${Date.now()}`,
-          type: alertType,
-          message: getAlertMessage(alertType),
-          timestamp: Date.now(),
-          distance
-        };
-
-        // Add alert to journey
-        setCurrentJourney(prev => prev ? {
-          ...prev,
-          alerts: [...prev.alerts, alert]
-        } : null);
-
-        // Resume audio context before playing sounds
-        await notificationManager.resumeAudioContext();
-
-        // Send notification with enhanced alerts
-        if (preferences.notifications.sound || preferences.notifications.vibration) {
-          switch (alertType) {
-            case 'first_warning':
-              // Special 1km warning with long alarm
-              console.log('🔔 Sending 1KM WARNING with long alarm');
-              await notificationManager.showProgressAlert(distance, 600000);
-              break;
-            case 'approaching':
-              await notificationManager.showProgressAlert(distance, 120000);
-              break;
-            case 'final_warning':
-              await notificationManager.showFinalAlert();
-              break;
-            case 'arrived':
-              await notificationManager.showArrivalAlert();
-              break;
-          }
+      engine.on('alert', ({ alert }) => {
+        toast({
+          title: getAlertTitle(alert.type),
+          description: alert.message,
+          duration: ['first_warning', 'final_warning', 'transfer'].includes(alert.type) ? 10000 : 5000,
+        });
+      }),
+
+      engine.on('statusChange', ({ status, previousStatus, journey }) => {
+        switch (status) {
+          case 'tracking':
+            if (previousStatus === 'starting' && journey) {
+              toast({
+                title: "Journey Started",
+                description: `Tracking your trip to ${journey.destination.name}`,
+                duration: 3000,
+              });
+            } else if (previousStatus === 'paused') {
+              toast({
+                title: "Journey Resumed",
+                description: "Location tracking has been resumed",
+                duration: 2000,
+              });
+            }
+            break;
+          case 'paused':
+            toast({
+              title: "Journey Paused",
+              description: "Location tracking has been paused",
+              duration: 2000,
+            });
+            break;
+          case 'arrived':
+            toast({
+              title: "Journey Complete!",
+              description: `You have arrived at ${journey?.destination.name}`,
+              duration: 5000,
+            });
+            break;
+          case 'stopped':
+            toast({
+              title: "Journey Stopped",
+              description: "Your journey tracking has been stopped",
+              duration: 3000,
+            });
+            break;
         }
+      }),
 
-        // Mark alert as sent
-        setAlertedDistances(prev => new Set([...prev, alertType]));
-
-        // Show toast
+      engine.on('error', ({ message }) => {
         toast({
-          title: getAlertTitle(alertType),
-          description: getAlertMessage(alertType),
-          duration: alertType === 'final_warning' || alertType === 'first_warning' ? 10000 : 5000,
+          title: "Location Error",
+          description: message,
+          variant: "destructive",
         });
+      })
+    ];
+
+    engine.restore();
+    setState(engine.getState());
+
+    // After restoring, so an action that relaunched the app applies to the saved journey
+    const handleNotificationAction = (action: NotificationActionId) => {
+      if (action === 'silence_alarm') {
+        engine.acknowledgeAlarm();
+      } else if (action === 'snooze_alarm') {
+        engine.snoozeAlarm(NOTIFICATION_SNOOZE);
+      } else if (action === 'end_journey') {
+        engine.stop();
       }
     };
+    unsubscribers.push(
+      serviceWorkerManager.onNotificationAction(handleNotificationAction),
+      nativeNotifications.onNotificationAction(handleNotificationAction)
+    );
 
-    // Enhanced alert checking with adjusted thresholds
-    if (distance <= 50) {
-      // Arrived
-      checkAndSendAlert('arrived', distance, 50);
-      completeJourney();
-    } else if (distance <= preferences.alertDistances.final) {
-      // Final warning (200m default)
-      checkAndSendAlert('final_warning', distance, preferences.alertDistances.final);
-      geolocationManager.setTrackingMode('precision');
-    } else if (distance <= preferences.alertDistances.approaching) {
-      // Approaching (1km default)
-      checkAndSendAlert('approaching', distance, preferences.alertDistances.approaching);
-      geolocationManager.setTrackingMode('active');
-    } else if (distance <= 1200) {
-      // First warning for 1km - enhanced with long alarm
-      checkAndSendAlert('first_warning', distance, 1200);
-      geolocationManager.setTrackingMode('active');
-    } else {
-      // Use minimal tracking when far away
-      geolocationManager.setTrackingMode('minimal');
-    }
-
-  }, [currentJourney, currentLocation, alertedDistances, geolocationManager, notificationManager]);
-
-  const getAlertTitle = (alertType: AlertType): string => {
-    switch (alertType) {
-      case 'first_warning': return '🚨 1KM WARNING!';
-      case 'approaching': return '⚠️ Approaching Destination';
-      case 'final_warning': return '🎯 Get Ready!';
-      case 'arrived': return '✅ Destination Reached';
-      default: return 'Transit Alert';
-    }
-  };
-
-  const getAlertMessage = (alertType: AlertType): string => {
-    switch (alertType) {
-      case 'first_warning': return 'You are 1km from your destination! Start preparing to exit.';
-      case 'approaching': return 'Less than 1km to your destination. Prepare to exit.';
-      case 'final_warning': return 'Very close to your destination. Get ready to exit!';
-      case 'arrived': return 'You have arrived at your destination. Safe travels!';
-      default: return 'Transit notification';
-    }
-  };
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [engine]);
 
-  const completeJourney = useCallback(() => {
-    if (!currentJourney) return;
-
-    const completedJourney: Journey = {
-      ...currentJourney,
-      status: 'arrived',
-      endTime: Date.now(),
-      actualArrival: Date.now()
+  // Unlock the engine's alert audio on the first user interaction
+  useEffect(() => {
+    const unlockAudio = () => {
+      engine.unlockAudio();
     };
 
-    setCurrentJourney(completedJourney);
-    StorageManager.addJourney(completedJourney);
-    StorageManager.addDestination(completedJourney.destination);
-    
-    stopLocationTracking();
+    document.addEventListener('touchstart', unlockAudio, { once: true });
+    document.addEventListener('click', unlockAudio, { once: true });
 
-    toast({
-      title: "Journey Complete!",
-      description: `You have arrived at ${completedJourney.destination.name}`,
-      duration: 5000,
-    });
-
-    // Clear current journey after a delay
-    setTimeout(() => {
-      setCurrentJourney(null);
-      setAlertedDistances(new Set());
-    }, 3000);
-  }, [currentJourney, stopLocationTracking]);
+    return () => {
+      document.removeEventListener('touchstart', unlockAudio);
+      document.removeEventListener('click', unlockAudio);
+    };
+  }, [engine]);
 
-  const startJourney = async (destination: Destination, transportMode: TransportMode): Promise<void> => {
+  const startJourneyLegs = useCallback(async (legs: JourneyLegPlan[], options?: JourneyStartOptions): Promise<void> => {
     try {
-      console.log('Starting journey to:', destination.name);
-
-      // Request permissions
-      const hasLocationPermission = await geolocationManager.requestPermission();
-      if (!hasLocationPermission) {
-        throw new Error('Location permission is required for journey tracking');
-      }
-
-      const hasNotificationPermission = await notificationManager.requestPermission();
-      if (!hasNotificationPermission) {
-        console.warn('Notification permission not granted');
-      }
-
-      // Get initial position
-      const startLocation = await geolocationManager.getCurrentPosition();
-      
-      const journey: Journey = {
-        id: `journey_${Date.now()}`,
-        destination,
-        startTime: Date.now(),
-        transportMode,
-        status: 'tracking',
-        startLocation,
-        currentLocation: startLocation,
-        alerts: [],
-        distance: calculateDistance(startLocation, destination.location)
-      };
-
-      setCurrentJourney(journey);
-      setCurrentLocation(startLocation);
-      setAlertedDistances(new Set());
-      
-      // Enable background tracking for mobile
-      const backgroundEnabled = await geolocationManager.enableBackgroundTracking(
-        destination.location,
-        transportMode
-      );
-      
-      if (backgroundEnabled) {
-        console.log('Background tracking enabled for journey');
-        setIsBackgroundTrackingActive(true);
-        
-        // Send background notification
-        await backgroundLocationService.sendBackgroundNotification(
-          'Journey Started',
-          `Tracking your trip to ${destination.name} in background`
-        );
-      }
-      
-      startLocationTracking();
-
-      toast({
-        title: "Journey Started",
-        description: `Tracking your trip to ${destination.name}${backgroundEnabled ? ' (Background mode enabled)' : ''}`,
-        duration: 3000,
-      });
-
+      await engine.startLegs(legs, options);
     } catch (error) {
-      console.error('Failed to start journey:', error);
-      setError(error instanceof Error ? error.message : 'Failed to start journey');
       toast({
         title: "Journey Start Failed",
         description: error instanceof Error ? error.message : 'Unknown error occurred',
         variant: "destructive",
       });
     }
-  };
-
-  const stopJourney = useCallback(async () => {
-    if (!currentJourney) return;
-
-    const stoppedJourney: Journey = {
-      ...currentJourney,
-      status: 'stopped',
-      endTime: Date.now()
-    };
+  }, [engine]);
 
-    setCurrentJourney(stoppedJourney);
-    StorageManager.addJourney(stoppedJourney);
-    
-    // Disable background tracking
-    await geolocationManager.disableBackgroundTracking();
-    setIsBackgroundTrackingActive(false);
-    
-    stopLocationTracking();
+  const startJourney = useCallback((
+    destination: Destination,
+    transportMode: TransportMode,
+    options?: JourneyStartOptions
+  ): Promise<void> => startJourneyLegs([{ destination, transportMode }], options), [startJourneyLegs]);
 
-    toast({
-      title: "Journey Stopped",
-      description: "Your journey tracking has been stopped",
-      duration: 3000,
-    });
-
-    // Clear current journey
-    setTimeout(() => {
-      setCurrentJourney(null);
-      setAlertedDistances(new Set());
-    }, 1000);
-  }, [currentJourney, geolocationManager]);
+  const stopJourney = useCallback(() => {
+    engine.stop();
+  }, [engine]);
 
   const pauseJourney = useCallback(() => {
-    if (!currentJourney) return;
-
-    setCurrentJourney(prev => prev ? { ...prev, status: 'paused' } : null);
-    stopLocationTracking();
-
-    toast({
-      title: "Journey Paused",
-      description: "Location tracking has been paused",
-      duration: 2000,
-    });
-  }, [currentJourney, stopLocationTracking]);
+    engine.pause();
+  }, [engine]);
 
   const resumeJourney = useCallback(() => {
-    if (!currentJourney) return;
+    engine.resume();
+  }, [engine]);
 
-    setCurrentJourney(prev => prev ? { ...prev, status: 'tracking' } : null);
-    startLocationTracking();
+  const acknowledgeAlarm = useCallback(() => {
+    engine.acknowledgeAlarm();
+  }, [engine]);
 
-    toast({
-      title: "Journey Resumed",
-      description: "Location tracking has been resumed",
-      duration: 2000,
-    });
-  }, [currentJourney, startLocationTracking]);
+  const snoozeAlarm = useCallback((option: SnoozeOption) => {
+    engine.snoozeAlarm(option);
+  }, [engine]);
 
   const emergencyStop = useCallback(async () => {
-    if (!currentJourney) return;
+    await engine.emergencyStop();
 
-    // Resume audio context and play emergency alarm
-    await notificationManager.resumeAudioContext();
-    
-    stopJourney();
-    
-    notificationManager.showEmergencyAlert('Emergency stop activated. Journey tracking stopped.');
-    
     toast({
       title: "🚨 Emergency Stop",
       description: "Journey tracking stopped immediately",
       variant: "destructive",
       duration: 5000,
     });
-  }, [currentJourney, stopJourney, notificationManager]);
+  }, [engine]);
 
   return {
-    currentJourney,
+    currentJourney: state.journey,
     startJourney,
+    startJourneyLegs,
     stopJourney,
     pauseJourney,
     resumeJourney,
     emergencyStop,
-    currentLocation,
-    isTracking,
-    error,
-    isBackgroundTrackingActive
+    acknowledgeAlarm,
+    snoozeAlarm,
+    currentLocation: state.currentLocation,
+    isTracking: state.isTracking,
+    error: state.error,
+    isBackgroundTrackingActive: state.isBackgroundTrackingActive
   };
 };
@@ -1,5 +1,19 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { StorageManager } from './utils/storage'
+import { serviceWorkerManager } from './services/serviceWorker'
+import { nativeNotifications } from './services/nativeNotifications'
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Stored data is loaded into memory before the first render
+StorageManager.initialize().finally(() => {
+  createRoot(document.getElementById("root")!).render(<App />);
+});
+
+// Listening from launch catches the notification action that opened the app
+nativeNotifications.start();
+
+// The dev server serves modules the worker's caches would go stale on
+if (import.meta.env.PROD) {
+  serviceWorkerManager.register();
+}
@@ -1,5 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useTheme } from 'next-themes';
 import ParticleBackground from '@/components/ParticleBackground';
 import Dashboard from '@/components/Dashboard';
 import DestinationInput from '@/components/DestinationInput';
@@ -9,62 +10,229 @@ import MapView from '@/components/MapView';
 import GlassCard from '@/components/GlassCard';
 import GlassButton from '@/components/GlassButton';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import SettingsPanel from '@/components/SettingsPanel';
+import JourneyReplay from '@/components/JourneyReplay';
+import DeveloperPanel from '@/components/DeveloperPanel';
+import JourneyHistory from '@/components/JourneyHistory';
+import JourneyDetail from '@/components/JourneyDetail';
+import JourneyExportMenu from '@/components/JourneyExportMenu';
+import ImportWizard from '@/components/ImportWizard';
+import TravelInsights from '@/components/TravelInsights';
+import CommuteManager from '@/components/CommuteManager';
+import TransitFeedImport from '@/components/TransitFeedImport';
+import OfflineMapManager from '@/components/OfflineMapManager';
+import EmergencyContactManager from '@/components/EmergencyContactManager';
+import ContactMessageDialog from '@/components/ContactMessageDialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
 import { useJourneyManager } from '@/hooks/useJourneyManager';
+import { journeyEngine } from '@/services/journeyEngine';
+import { commuteScheduler } from '@/services/commuteScheduler';
+import { emergencyContacts } from '@/services/emergencyContacts';
+import { journeyProgressNotification } from '@/services/journeyProgressNotification';
+import { ContactMessage } from '@/utils/contactMessages';
+import { getNextCommute } from '@/utils/commuteSchedule';
+import { JourneyLegPlan, getCurrentLeg } from '@/utils/journeyLegs';
+import { TRANSPORT_ICONS } from '@/utils/journeyHistory';
 import { StorageManager } from '@/utils/storage';
-import { Destination, TransportMode } from '@/types';
-import { ArrowLeft, Settings, MapPin, Map } from 'lucide-react';
+import { saveExportFile } from '@/utils/journeyExport';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { CommuteTemplate, Destination, Journey, TransitFeed, TransportMode, UserPreferences } from '@/types';
+import { ArrowLeft, Settings, MapPin, Map, Bug, Database, Download, RefreshCw, Plus, X, TramFront, CloudDownload, Users } from 'lucide-react';
 
-type AppScreen = 'dashboard' | 'destination' | 'transport' | 'tracking' | 'settings' | 'map';
+type AppScreen = 'dashboard' | 'destination' | 'transport' | 'tracking' | 'settings' | 'map' | 'replay' | 'developer' | 'history' | 'journeyDetail' | 'backup' | 'insights' | 'commutes' | 'transit' | 'offline' | 'contacts';
 
 const Index = () => {
   const [currentScreen, setCurrentScreen] = useState<AppScreen>('dashboard');
   const [selectedDestination, setSelectedDestination] = useState<Destination | null>(null);
   const [selectedTransportMode, setSelectedTransportMode] = useState<TransportMode>('bus');
+  // Earlier legs of a multi-stop journey being planned; the selection above is the last leg
+  const [plannedLegs, setPlannedLegs] = useState<JourneyLegPlan[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showMap, setShowMap] = useState(false);
+  const [replayJourney, setReplayJourney] = useState<Journey | null>(null);
+  const [historyJourney, setHistoryJourney] = useState<Journey | null>(null);
+  const [preferences, setPreferences] = useState<UserPreferences>(() => StorageManager.getPreferences());
+  const [dueCommute, setDueCommute] = useState<CommuteTemplate | null>(null);
+  const [transitFeed, setTransitFeed] = useState<TransitFeed | null>(() => StorageManager.getTransitFeed());
+  const [contactMessage, setContactMessage] = useState<ContactMessage | null>(null);
 
   const {
     currentJourney,
     startJourney,
+    startJourneyLegs,
     stopJourney,
     pauseJourney,
     resumeJourney,
     emergencyStop,
+    acknowledgeAlarm,
+    snoozeAlarm,
     currentLocation,
     isTracking,
     error
   } = useJourneyManager();
+  const { setTheme } = useTheme();
 
-  // Load user preferences
+  // Apply user preferences
   useEffect(() => {
-    const preferences = StorageManager.getPreferences();
     setSelectedTransportMode(preferences.defaultTransportMode);
-  }, []);
+  }, [preferences.defaultTransportMode]);
+
+  // On the document element so dialogs and toasts rendered outside the page are covered too
+  useEffect(() => {
+    document.documentElement.classList.toggle('reduce-motion', !preferences.appearance.animations);
+  }, [preferences.appearance.animations]);
+
+  // next-themes calls following the system theme 'system'
+  const { theme } = preferences.appearance;
+  useEffect(() => {
+    setTheme(theme === 'auto' ? 'system' : theme);
+  }, [theme, setTheme]);
 
   // Auto-navigate to tracking screen when journey starts
   useEffect(() => {
-    if (currentJourney && (currentJourney.status === 'tracking' || currentJourney.status === 'paused')) {
+    if (currentJourney && ['tracking', 'approaching', 'paused'].includes(currentJourney.status)) {
       setCurrentScreen('tracking');
     } else if (!currentJourney) {
       setCurrentScreen('dashboard');
     }
   }, [currentJourney]);
 
+  const startCommute = useCallback(async (template: CommuteTemplate) => {
+    setSelectedDestination(template.destination);
+    setSelectedTransportMode(template.transportMode);
+    await startJourney(template.destination, template.transportMode, {
+      alertRules: template.alertRules,
+      commuteId: template.id
+    });
+  }, [startJourney]);
+
+  // Arm saved commutes; due ones either start straight away or ask first
+  useEffect(() => {
+    const unsubscribe = commuteScheduler.onCommuteDue(({ template }) => {
+      if (journeyEngine.getStatus() !== 'idle') {
+        toast({
+          title: `${template.name} Not Started`,
+          description: "A journey is already in progress",
+          duration: 5000,
+        });
+        return;
+      }
+
+      if (template.schedule.action === 'auto') {
+        startCommute(template);
+      } else {
+        setDueCommute(template);
+      }
+    });
+    commuteScheduler.start();
+
+    return () => {
+      unsubscribe();
+      commuteScheduler.stop();
+    };
+  }, [startCommute]);
+
+  // Journey events the user's contacts asked to hear about come back as messages to send
+  useEffect(() => {
+    const unsubscribe = emergencyContacts.onMessage(setContactMessage);
+    emergencyContacts.start();
+
+    return () => {
+      unsubscribe();
+      emergencyContacts.stop();
+    };
+  }, []);
+
+  // Native builds keep the journey's progress in an ongoing notification
+  useEffect(() => {
+    journeyProgressNotification.start();
+    return () => journeyProgressNotification.stop();
+  }, []);
+
+  const handleSos = () => {
+    const message = emergencyContacts.createSosMessage(currentJourney, currentLocation);
+    if (!message) {
+      toast({
+        title: "No Emergency Contacts",
+        description: "Add contacts in Settings to send an SOS",
+        variant: "destructive",
+      });
+      return;
+    }
+    setContactMessage(message);
+  };
+
+  const handleEmergencyStop = async () => {
+    const journey = currentJourney;
+    await emergencyStop();
+    // Straight on to an SOS when there is someone to send it to
+    const message = emergencyContacts.createSosMessage(journey, currentLocation);
+    if (message) {
+      setContactMessage(message);
+    }
+  };
+
   const handleStartNewJourney = () => {
+    setPlannedLegs([]);
     setCurrentScreen('destination');
   };
 
+  const handleReplayJourney = (journey: Journey) => {
+    setReplayJourney(journey);
+    setCurrentScreen('replay');
+  };
+
+  const handleViewHistory = () => {
+    setHistoryJourney(null);
+    setCurrentScreen('history');
+  };
+
+  const handleSelectHistoryJourney = (journey: Journey) => {
+    setHistoryJourney(journey);
+    setCurrentScreen('journeyDetail');
+  };
+
+  // Pre-fill the previous destination and mode, leaving the user to confirm
+  const handleRepeatJourney = (journey: Journey) => {
+    const legs = journey.legs ?? [];
+    setPlannedLegs(legs.slice(0, -1).map(({ destination, transportMode }) => ({ destination, transportMode })));
+    setSelectedDestination(journey.destination);
+    setSelectedTransportMode(legs.length > 0 ? legs[legs.length - 1].transportMode : journey.transportMode);
+    setCurrentScreen('transport');
+  };
+
   const handleDestinationSelect = (destination: Destination) => {
     setSelectedDestination(destination);
+    if (destination.transit) {
+      setSelectedTransportMode(destination.transit.transportMode);
+    }
     setCurrentScreen('transport');
   };
 
+  const handleTransitFeedChange = (feed: TransitFeed | null) => {
+    StorageManager.saveTransitFeed(feed);
+    setTransitFeed(feed);
+  };
+
   const handleTransportModeConfirm = async () => {
     if (!selectedDestination) return;
 
     setIsLoading(true);
     try {
-      await startJourney(selectedDestination, selectedTransportMode);
+      await startJourneyLegs([...plannedLegs, { destination: selectedDestination, transportMode: selectedTransportMode }]);
+      if (journeyEngine.getStatus() !== 'idle') {
+        setPlannedLegs([]);
+      }
       setCurrentScreen('tracking');
     } catch (error) {
       console.error('Failed to start journey:', error);
@@ -73,10 +241,32 @@ const Index = () => {
     }
   };
 
+  // Keep the chosen leg and pick where the next one goes
+  const handleAddTransfer = () => {
+    if (!selectedDestination) return;
+
+    setPlannedLegs(prev => [...prev, { destination: selectedDestination, transportMode: selectedTransportMode }]);
+    setSelectedDestination(null);
+    setCurrentScreen('destination');
+  };
+
+  const handleRemovePlannedLeg = (index: number) => {
+    setPlannedLegs(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleBackNavigation = () => {
     switch (currentScreen) {
       case 'destination':
-        setCurrentScreen('dashboard');
+        if (plannedLegs.length > 0) {
+          // Back to the leg that was being planned before adding a transfer
+          const previous = plannedLegs[plannedLegs.length - 1];
+          setPlannedLegs(plannedLegs.slice(0, -1));
+          setSelectedDestination(previous.destination);
+          setSelectedTransportMode(previous.transportMode);
+          setCurrentScreen('transport');
+        } else {
+          setCurrentScreen('dashboard');
+        }
         break;
       case 'transport':
         setCurrentScreen('destination');
@@ -91,11 +281,45 @@ const Index = () => {
       case 'settings':
         setCurrentScreen('dashboard');
         break;
+      case 'developer':
+      case 'backup':
+      case 'transit':
+      case 'offline':
+      case 'contacts':
+        setCurrentScreen('settings');
+        break;
+      case 'journeyDetail':
+        setCurrentScreen('history');
+        break;
+      case 'replay':
+        setCurrentScreen(historyJourney && historyJourney.id === replayJourney?.id ? 'journeyDetail' : 'dashboard');
+        break;
       default:
         setCurrentScreen('dashboard');
     }
   };
 
+  const handleExportBackup = async () => {
+    try {
+      await saveExportFile({
+        fileName: `smart-transit-backup-${format(Date.now(), 'yyyy-MM-dd')}.json`,
+        mimeType: 'application/json',
+        content: StorageManager.exportData()
+      });
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+    }
+  };
+
+  const handleRebuildStats = () => {
+    const stats = StorageManager.rebuildTravelStats();
+    toast({
+      title: "Stats Rebuilt",
+      description: `Recalculated from ${stats.totalJourneys} ${stats.totalJourneys === 1 ? 'journey' : 'journeys'}`,
+      duration: 3000,
+    });
+  };
+
   const handleJourneyStop = () => {
     stopJourney();
     setSelectedDestination(null);
@@ -165,6 +389,12 @@ const Index = () => {
             travelStats={StorageManager.getTravelStats()}
             onStartNewJourney={handleStartNewJourney}
             onResumeJourney={currentJourney?.status === 'paused' ? resumeJourney : undefined}
+            lastJourney={StorageManager.getJourneyHistory()[0] || null}
+            onReplayJourney={handleReplayJourney}
+            onViewHistory={handleViewHistory}
+            onViewInsights={() => setCurrentScreen('insights')}
+            nextCommute={getNextCommute(StorageManager.getCommutes(), Date.now(), StorageManager.getCommuteHolidays())}
+            onViewCommutes={() => setCurrentScreen('commutes')}
             className="p-4"
           />
         );
@@ -174,7 +404,11 @@ const Index = () => {
           <div className="p-4 space-y-4">
             <div className="text-center space-y-2">
               <h2 className="text-2xl font-bold text-white">Where to?</h2>
-              <p className="text-gray-400">Choose your destination</p>
+              <p className="text-gray-400">
+                {plannedLegs.length > 0
+                  ? `Next stop after ${plannedLegs[plannedLegs.length - 1].destination.name}`
+                  : 'Choose your destination'}
+              </p>
             </div>
             
             <DestinationInput
@@ -182,6 +416,7 @@ const Index = () => {
               recentDestinations={StorageManager.getDestinations().filter(d => !d.isFavorite).slice(0, 5)}
               favoriteDestinations={StorageManager.getDestinations().filter(d => d.isFavorite)}
               currentLocation={currentLocation}
+              transitFeed={transitFeed}
             />
 
             {(selectedDestination || currentLocation) && (
@@ -214,6 +449,26 @@ const Index = () => {
               <p className="text-gray-400">How are you traveling?</p>
             </div>
 
+            {plannedLegs.length > 0 && (
+              <GlassCard className="p-4 space-y-2">
+                {plannedLegs.map((leg, index) => (
+                  <div key={index} className="flex items-center gap-3 text-sm">
+                    <span className="text-gray-400 w-12">Leg {index + 1}</span>
+                    <span>{TRANSPORT_ICONS[leg.transportMode]}</span>
+                    <span className="flex-1 text-white truncate">{leg.destination.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => handleRemovePlannedLeg(index)}
+                      className="text-gray-400 hover:text-white"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                ))}
+                <div className="text-electric-400 text-xs">Leg {plannedLegs.length + 1}: choose below</div>
+              </GlassCard>
+            )}
+
             {selectedDestination && (
               <GlassCard className="p-4">
                 <div className="flex items-start gap-3">
@@ -244,6 +499,16 @@ const Index = () => {
               />
             )}
 
+            <GlassButton
+              variant="secondary"
+              onClick={handleAddTransfer}
+              className="w-full"
+              disabled={!selectedDestination}
+            >
+              <Plus size={16} />
+              Add Transfer
+            </GlassButton>
+
             <GlassButton
               variant="primary"
               size="lg"
@@ -263,16 +528,21 @@ const Index = () => {
             <JourneyTracker
               journey={currentJourney}
               currentLocation={currentLocation}
+              alertRules={preferences.alertRules}
               onStopJourney={handleJourneyStop}
               onPauseJourney={pauseJourney}
               onResumeJourney={resumeJourney}
-              onEmergencyStop={emergencyStop}
+              onEmergencyStop={handleEmergencyStop}
+              onSos={handleSos}
+              onAcknowledgeAlarm={acknowledgeAlarm}
+              onSnoozeAlarm={snoozeAlarm}
             />
             
             {currentLocation && (
               <MapView
                 currentLocation={currentLocation}
-                destination={currentJourney.destination.location}
+                destination={getCurrentLeg(currentJourney).destination.location}
+                route={getCurrentLeg(currentJourney).route?.points}
                 height="250px"
               />
             )}
@@ -297,16 +567,180 @@ const Index = () => {
               <p className="text-gray-400">Customize your experience</p>
             </div>
             
-            <GlassCard className="p-6 text-center">
-              <Settings size={48} className="mx-auto mb-4 text-gray-600" />
-              <h3 className="text-white font-medium mb-2">Settings Panel</h3>
-              <p className="text-gray-400 text-sm">
-                Settings interface coming soon. All core functionality is available in the main app.
-              </p>
-            </GlassCard>
+            <SettingsPanel onPreferencesChange={setPreferences} />
+
+            <GlassButton variant="secondary" className="w-full" onClick={() => setCurrentScreen('backup')}>
+              <Database size={16} />
+              Backup & Restore
+            </GlassButton>
+
+            <GlassButton variant="secondary" className="w-full" onClick={() => setCurrentScreen('contacts')}>
+              <Users size={16} />
+              Emergency Contacts
+            </GlassButton>
+
+            <GlassButton variant="secondary" className="w-full" onClick={() => setCurrentScreen('transit')}>
+              <TramFront size={16} />
+              Transit Feed
+            </GlassButton>
+
+            <GlassButton variant="secondary" className="w-full" onClick={() => setCurrentScreen('offline')}>
+              <CloudDownload size={16} />
+              Offline Maps
+            </GlassButton>
+
+            <GlassButton variant="secondary" className="w-full" onClick={() => setCurrentScreen('developer')}>
+              <Bug size={16} />
+              Developer Tools
+            </GlassButton>
+          </div>
+        );
+
+      case 'backup':
+        return (
+          <div className="p-4 space-y-4">
+            <div className="text-center space-y-2">
+              <h2 className="text-2xl font-bold text-white">Backup & Restore</h2>
+              <p className="text-gray-400">Move your data between devices</p>
+            </div>
+
+            <GlassButton variant="primary" className="w-full" onClick={handleExportBackup}>
+              <Download size={16} />
+              Export Backup
+            </GlassButton>
+
+            <GlassButton variant="secondary" className="w-full" onClick={handleRebuildStats}>
+              <RefreshCw size={16} />
+              Rebuild Travel Stats
+            </GlassButton>
+
+            <ImportWizard onImported={() => setPreferences(StorageManager.getPreferences())} />
+          </div>
+        );
+
+      case 'transit':
+        return (
+          <div className="p-4 space-y-4">
+            <div className="text-center space-y-2">
+              <h2 className="text-2xl font-bold text-white">Transit Feed</h2>
+              <p className="text-gray-400">Routes and stops from your transit agency</p>
+            </div>
+
+            <TransitFeedImport feed={transitFeed} onFeedChange={handleTransitFeedChange} />
+          </div>
+        );
+
+      case 'contacts':
+        return (
+          <div className="p-4 space-y-4">
+            <div className="text-center space-y-2">
+              <h2 className="text-2xl font-bold text-white">Emergency Contacts</h2>
+              <p className="text-gray-400">People to message on the way and in an emergency</p>
+            </div>
+
+            <EmergencyContactManager preferences={preferences} onPreferencesChange={setPreferences} />
+          </div>
+        );
+
+      case 'offline':
+        return (
+          <div className="p-4 space-y-4">
+            <div className="text-center space-y-2">
+              <h2 className="text-2xl font-bold text-white">Offline Maps</h2>
+              <p className="text-gray-400">Keep the map working without a connection</p>
+            </div>
+
+            <OfflineMapManager currentLocation={currentLocation} />
+          </div>
+        );
+
+      case 'developer':
+        return (
+          <div className="p-4 space-y-4">
+            <div className="text-center space-y-2">
+              <h2 className="text-2xl font-bold text-white">Developer Tools</h2>
+              <p className="text-gray-400">Simulate journeys without moving</p>
+            </div>
+
+            <DeveloperPanel />
+          </div>
+        );
+
+      case 'history':
+        return (
+          <div className="p-4 space-y-4">
+            <div className="text-center space-y-2">
+              <h2 className="text-2xl font-bold text-white">Journey History</h2>
+              <p className="text-gray-400">Your past trips</p>
+            </div>
+
+            <JourneyHistory
+              journeys={StorageManager.getJourneyHistory()}
+              onSelectJourney={handleSelectHistoryJourney}
+            />
           </div>
         );
 
+      case 'commutes':
+        return (
+          <div className="p-4 space-y-4">
+            <div className="text-center space-y-2">
+              <h2 className="text-2xl font-bold text-white">Commutes</h2>
+              <p className="text-gray-400">Regular trips, ready on schedule</p>
+            </div>
+
+            <CommuteManager preferences={preferences} destinations={StorageManager.getDestinations()} />
+          </div>
+        );
+
+      case 'insights':
+        return (
+          <div className="p-4 space-y-4">
+            <div className="text-center space-y-2">
+              <h2 className="text-2xl font-bold text-white">Travel Insights</h2>
+              <p className="text-gray-400">How, where and when you travel</p>
+            </div>
+
+            <TravelInsights
+              travelStats={StorageManager.getTravelStats()}
+              journeys={StorageManager.getJourneyHistory()}
+            />
+          </div>
+        );
+
+      case 'journeyDetail':
+        return historyJourney ? (
+          <div className="p-4 space-y-4">
+            <div className="text-center space-y-2">
+              <h2 className="text-2xl font-bold text-white">Journey Details</h2>
+            </div>
+
+            <JourneyDetail
+              journey={historyJourney}
+              onReplay={handleReplayJourney}
+              onRepeat={handleRepeatJourney}
+            />
+          </div>
+        ) : null;
+
+      case 'replay':
+        return replayJourney ? (
+          <div className="p-4 space-y-4">
+            <div className="text-center space-y-2">
+              <h2 className="text-2xl font-bold text-white">Journey Replay</h2>
+              <p className="text-gray-400">
+                {replayJourney.destination.name} · {new Date(replayJourney.startTime).toLocaleString()}
+              </p>
+            </div>
+
+            <div className="flex justify-end">
+              <JourneyExportMenu journeys={[replayJourney]} label="Export" />
+            </div>
+
+            <JourneyReplay journey={replayJourney} />
+          </div>
+        ) : null;
+
       default:
         return null;
     }
@@ -331,9 +765,9 @@ const Index = () => {
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 relative overflow-hidden">
+    <div className="min-h-screen bg-gradient-to-br from-slate-100 via-white to-slate-100 dark:from-gray-900 dark:via-black dark:to-gray-900 relative overflow-hidden">
       {/* Particle Background */}
-      <ParticleBackground />
+      {preferences.appearance.particles && <ParticleBackground />}
       
       {/* Main Content */}
       <div className="relative z-10 flex flex-col min-h-screen">
@@ -346,6 +780,26 @@ const Index = () => {
 
       {/* Error Overlay */}
       {renderErrorState()}
+
+      {/* Commute that asks before starting */}
+      <AlertDialog open={!!dueCommute} onOpenChange={(open) => !open && setDueCommute(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Time for {dueCommute?.name}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Start tracking your trip to {dueCommute?.destination.name} by {dueCommute?.transportMode}?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Not Today</AlertDialogCancel>
+            <AlertDialogAction onClick={() => dueCommute && startCommute(dueCommute)}>
+              Start Journey
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ContactMessageDialog message={contactMessage} onClose={() => setContactMessage(null)} />
     </div>
   );
 };
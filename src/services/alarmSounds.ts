@@ -0,0 +1,77 @@
+import { AlarmSettings, AlarmSoundId } from '@/types';
+import { ALARM_SOUNDS } from '@/utils/alarmProfiles';
+
+const CACHE_NAME = 'smart-transit-alarm-sounds-v1';
+// Cache Storage is keyed by request; this URL is never fetched
+const CUSTOM_SOUND_KEY = '/alarm-sounds/custom';
+export const MAX_CUSTOM_SOUND_BYTES = 5 * 1024 * 1024;
+
+export class AlarmSoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlarmSoundError';
+  }
+}
+
+/**
+ * Resolves alarm sounds to playable URLs and keeps the one the user imported. The
+ * imported audio lives in Cache Storage; preferences only record its name and type.
+ */
+class AlarmSoundLibrary {
+  private customUrl: string | null = null;
+
+  isSupported(): boolean {
+    return typeof caches !== 'undefined';
+  }
+
+  async importCustomSound(file: File): Promise<NonNullable<AlarmSettings['customSound']>> {
+    if (!this.isSupported()) {
+      throw new AlarmSoundError('Importing sounds is not supported on this device');
+    }
+    if (!file.type.startsWith('audio/')) {
+      throw new AlarmSoundError('Choose an audio file');
+    }
+    if (file.size > MAX_CUSTOM_SOUND_BYTES) {
+      throw new AlarmSoundError('Choose a sound under 5MB');
+    }
+
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(CUSTOM_SOUND_KEY, new Response(file, { headers: { 'Content-Type': file.type } }));
+    this.releaseCustomUrl();
+    console.log(`Imported alarm sound ${file.name}`);
+    return { name: file.name, type: file.type };
+  }
+
+  async deleteCustomSound(): Promise<void> {
+    this.releaseCustomUrl();
+    if (this.isSupported()) {
+      await caches.delete(CACHE_NAME);
+    }
+  }
+
+  // A URL for an audio element, or null if an imported sound is missing
+  async getSoundUrl(sound: AlarmSoundId): Promise<string | null> {
+    if (sound !== 'custom') return ALARM_SOUNDS[sound].url;
+    if (this.customUrl || !this.isSupported()) return this.customUrl;
+
+    try {
+      const cache = await caches.open(CACHE_NAME);
+      const response = await cache.match(CUSTOM_SOUND_KEY);
+      if (response) {
+        this.customUrl = URL.createObjectURL(await response.blob());
+      }
+    } catch (error) {
+      console.error('Failed to read imported alarm sound:', error);
+    }
+    return this.customUrl;
+  }
+
+  private releaseCustomUrl(): void {
+    if (this.customUrl) {
+      URL.revokeObjectURL(this.customUrl);
+      this.customUrl = null;
+    }
+  }
+}
+
+export const alarmSounds = new AlarmSoundLibrary();
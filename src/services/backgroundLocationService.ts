@@ -2,8 +2,11 @@
 import { Capacitor } from '@capacitor/core';
 import { Geolocation } from '@capacitor/geolocation';
 import { LocalNotifications } from '@capacitor/local-notifications';
-import { Location, TrackingMode } from '@/types';
-import { calculateDistance, estimateArrivalTime } from '@/utils/geolocation';
+import { Location, TrackingMode, TransportMode } from '@/types';
+import { calculateDistance } from '@/utils/geolocation';
+import { EtaEstimator } from '@/utils/etaEstimator';
+import { locationSourceManager } from '@/services/locationSource';
+import { nativeNotifications } from '@/services/nativeNotifications';
 
 export interface SmartTrackingConfig {
   destinationLocation: Location;
@@ -12,13 +15,14 @@ export interface SmartTrackingConfig {
 }
 
 export class BackgroundLocationService {
-  private watchId: string | null = null;
+  private clearWatch: (() => void) | null = null;
   private isBackgroundEnabled = false;
   private config: SmartTrackingConfig | null = null;
   private lastKnownLocation: Location | null = null;
   private trackingStartTime: number = 0;
   private currentTrackingMode: TrackingMode = 'minimal';
   private callbacks: Set<(location: Location) => void> = new Set();
+  private etaEstimator = new EtaEstimator();
 
   async initialize(): Promise<boolean> {
     if (!Capacitor.isNativePlatform()) {
@@ -55,6 +59,7 @@ export class BackgroundLocationService {
   async startSmartTracking(config: SmartTrackingConfig): Promise<void> {
     this.config = config;
     this.trackingStartTime = Date.now();
+    this.etaEstimator.reset(config.transportMode as TransportMode);
     
     console.log('Smart tracking started (using standard location tracking)');
     
@@ -65,21 +70,22 @@ export class BackgroundLocationService {
     this.setupSmartTrackingAlgorithm();
   }
 
+  // Point the smart tracking cadence at a new destination, e.g. the next leg of a journey
+  updateDestination(destinationLocation: Location, transportMode: TransportMode): void {
+    if (!this.config) return;
+
+    this.config = { ...this.config, destinationLocation, transportMode };
+    this.etaEstimator.reset(transportMode);
+  }
+
   private async getCurrentLocationAndTrack(): Promise<void> {
     try {
-      const position = await Geolocation.getCurrentPosition({
+      const location = await locationSourceManager.getNativeSource().getCurrentPosition({
         enableHighAccuracy: this.currentTrackingMode === 'precision',
         timeout: 15000,
         maximumAge: this.getMaxAge()
       });
 
-      const location: Location = {
-        lat: position.coords.latitude,
-        lng: position.coords.longitude,
-        accuracy: position.coords.accuracy,
-        timestamp: position.timestamp
-      };
-
       this.lastKnownLocation = location;
       this.notifyLocationUpdate(location);
 
@@ -96,7 +102,7 @@ export class BackgroundLocationService {
 
       const elapsedTime = Date.now() - this.trackingStartTime;
       const distance = calculateDistance(this.lastKnownLocation, this.config.destinationLocation);
-      const estimatedTimeRemaining = estimateArrivalTime(distance, this.config.transportMode);
+      const estimatedTimeRemaining = this.etaEstimator.estimate(distance);
 
       console.log(`Smart tracking check: ${distance}m remaining, ${estimatedTimeRemaining}ms estimated`);
 
@@ -138,37 +144,27 @@ export class BackgroundLocationService {
 
   private async restartLocationTracking(): Promise<void> {
     // Stop current tracking
-    if (this.watchId) {
-      await Geolocation.clearWatch({ id: this.watchId });
-      this.watchId = null;
+    if (this.clearWatch) {
+      this.clearWatch();
+      this.clearWatch = null;
     }
 
     // Start new tracking with updated settings
     try {
-      const watchId = await Geolocation.watchPosition({
-        enableHighAccuracy: this.currentTrackingMode === 'precision',
-        timeout: this.getTimeout(),
-        maximumAge: this.getMaxAge()
-      }, (position, err) => {
-        if (err) {
-          console.error('Location watch error:', err);
-          return;
-        }
-
-        if (position) {
-          const location: Location = {
-            lat: position.coords.latitude,
-            lng: position.coords.longitude,
-            accuracy: position.coords.accuracy,
-            timestamp: position.timestamp
-          };
-
+      this.clearWatch = locationSourceManager.getNativeSource().watchPosition(
+        (location) => {
           this.lastKnownLocation = location;
           this.notifyLocationUpdate(location);
+        },
+        (err) => {
+          console.error('Location watch error:', err);
+        },
+        {
+          enableHighAccuracy: this.currentTrackingMode === 'precision',
+          timeout: this.getTimeout(),
+          maximumAge: this.getMaxAge()
         }
-      });
-
-      this.watchId = watchId;
+      );
     } catch (error) {
       console.error('Failed to restart location tracking:', error);
     }
@@ -193,9 +189,9 @@ export class BackgroundLocationService {
   }
 
   async stopTracking(): Promise<void> {
-    if (this.watchId) {
-      await Geolocation.clearWatch({ id: this.watchId });
-      this.watchId = null;
+    if (this.clearWatch) {
+      this.clearWatch();
+      this.clearWatch = null;
     }
 
     this.config = null;
@@ -209,26 +205,13 @@ export class BackgroundLocationService {
   }
 
   private notifyLocationUpdate(location: Location): void {
+    this.etaEstimator.addPosition(location);
     this.callbacks.forEach(callback => callback(location));
   }
 
+  // Each status message replaces the last rather than piling up
   async sendBackgroundNotification(title: string, body: string): Promise<void> {
-    try {
-      await LocalNotifications.schedule({
-        notifications: [{
-          title,
-          body,
-          id: Date.now(),
-          schedule: { at: new Date(Date.now() + 1000) },
-          sound: 'default',
-          attachments: undefined,
-          actionTypeId: '',
-          extra: null
-        }]
-      });
-    } catch (error) {
-      console.error('Failed to send background notification:', error);
-    }
+    await nativeNotifications.show({ title, body, tag: 'journey-status' });
   }
 
   getTrackingMode(): TrackingMode {
@@ -240,7 +223,7 @@ export class BackgroundLocationService {
   }
 
   isTracking(): boolean {
-    return this.watchId !== null;
+    return this.clearWatch !== null;
   }
 }
 
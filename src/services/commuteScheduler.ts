@@ -0,0 +1,209 @@
+import { LocalNotifications, LocalNotificationSchema } from '@capacitor/local-notifications';
+import { PluginListenerHandle } from '@capacitor/core';
+import { addDays } from 'date-fns';
+import { CommuteTemplate } from '@/types';
+import { StorageManager } from '@/utils/storage';
+import {
+  getCommuteOccurrences,
+  getCommuteTimeOn,
+  getDateKey,
+  isCommuteScheduledOn,
+  pruneSkippedDates
+} from '@/utils/commuteSchedule';
+
+export interface CommuteDue {
+  template: CommuteTemplate;
+  date: string; // yyyy-MM-dd of the occurrence
+  source: 'timer' | 'notification';
+}
+
+// Notifications are scheduled a week ahead and topped up whenever the app opens
+const SCHEDULE_AHEAD_DAYS = 7;
+// iOS keeps at most 64 pending notifications per app
+const MAX_SCHEDULED_NOTIFICATIONS = 32;
+const NOTIFICATION_ID_BASE = 41000;
+const CHECK_INTERVAL = 30000;
+// A commute still counts as due this long after its time, e.g. when the app was just opened
+const DUE_WINDOW = 10 * 60 * 1000;
+
+/**
+ * Keeps saved commutes armed: schedules a local notification for each upcoming
+ * occurrence and, while the app is open, reports commutes as they come due. Opening a
+ * commute notification reports it too, so a closed app can still start the journey.
+ */
+class CommuteScheduler {
+  private callbacks: Set<(due: CommuteDue) => void> = new Set();
+  private checkInterval: ReturnType<typeof setInterval> | null = null;
+  private listener: Promise<PluginListenerHandle> | null = null;
+
+  start(): void {
+    if (this.checkInterval) return;
+
+    this.listener = LocalNotifications.addListener('localNotificationActionPerformed', ({ notification }) => {
+      const { commuteId, date } = notification.extra ?? {};
+      if (typeof commuteId === 'string' && typeof date === 'string') {
+        this.handleNotification(commuteId, date);
+      }
+    });
+
+    this.checkInterval = setInterval(() => this.checkDue(), CHECK_INTERVAL);
+    this.checkDue();
+    // Nothing to top up until a commute is saved
+    if (this.getCommutes().length > 0) {
+      this.sync();
+    }
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    this.listener?.then(handle => handle.remove());
+    this.listener = null;
+  }
+
+  onCommuteDue(callback: (due: CommuteDue) => void): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  // Templates
+  getCommutes(): CommuteTemplate[] {
+    return StorageManager.getCommutes();
+  }
+
+  saveCommute(template: CommuteTemplate): void {
+    const commutes = this.getCommutes();
+    const exists = commutes.some(c => c.id === template.id);
+    this.update(exists ? commutes.map(c => (c.id === template.id ? template : c)) : [...commutes, template]);
+  }
+
+  deleteCommute(id: string): void {
+    this.update(this.getCommutes().filter(c => c.id !== id));
+  }
+
+  setCommuteEnabled(id: string, enabled: boolean): void {
+    this.update(this.getCommutes().map(c => (c.id === id ? { ...c, enabled } : c)));
+  }
+
+  // Skips or restores a single occurrence, e.g. today's
+  setDateSkipped(id: string, date: string, skipped: boolean): void {
+    this.update(this.getCommutes().map(c => {
+      if (c.id !== id) return c;
+      const skippedDates = c.skippedDates.filter(d => d !== date);
+      return { ...c, skippedDates: skipped ? [...skippedDates, date].sort() : skippedDates };
+    }));
+  }
+
+  // Holidays apply to every commute
+  getHolidays(): string[] {
+    return StorageManager.getCommuteHolidays();
+  }
+
+  setHolidays(holidays: string[]): void {
+    StorageManager.saveCommuteHolidays([...new Set(holidays)].sort());
+    this.sync();
+  }
+
+  private update(commutes: CommuteTemplate[]): void {
+    const now = Date.now();
+    StorageManager.saveCommutes(commutes.map(c => ({ ...c, skippedDates: pruneSkippedDates(c.skippedDates, now) })));
+    this.sync();
+  }
+
+  // Due commutes
+  private checkDue(): void {
+    const now = Date.now();
+    const holidays = this.getHolidays();
+
+    this.getCommutes().forEach(template => {
+      const date = getDateKey(now);
+      const time = getCommuteTimeOn(template, now).getTime();
+      const isDue = now >= time && now - time < DUE_WINDOW;
+
+      if (isDue && template.lastTriggered !== date && isCommuteScheduledOn(template, now, holidays)) {
+        this.trigger(template, date, 'timer');
+      }
+    });
+  }
+
+  private handleNotification(commuteId: string, date: string): void {
+    const template = this.getCommutes().find(c => c.id === commuteId);
+    // Already reported by the in-app timer
+    if (!template || template.lastTriggered === date) return;
+
+    this.trigger(template, date, 'notification');
+  }
+
+  private trigger(template: CommuteTemplate, date: string, source: CommuteDue['source']): void {
+    console.log(`Commute ${template.name} due (${source})`);
+    const triggered = { ...template, lastTriggered: date };
+    StorageManager.saveCommutes(this.getCommutes().map(c => (c.id === template.id ? triggered : c)));
+    this.callbacks.forEach(callback => callback({ template: triggered, date, source }));
+  }
+
+  // Notifications
+  // Asked for when a commute is saved rather than at launch, so the prompt follows something the user did
+  async requestPermission(): Promise<boolean> {
+    try {
+      const permission = await LocalNotifications.checkPermissions();
+      if (permission.display === 'granted') return true;
+
+      const requested = await LocalNotifications.requestPermissions();
+      if (requested.display !== 'granted') return false;
+
+      await this.sync();
+      return true;
+    } catch (error) {
+      console.error('Failed to request notification permission:', error);
+      return false;
+    }
+  }
+
+  async sync(): Promise<void> {
+    try {
+      const permission = await LocalNotifications.checkPermissions();
+      if (permission.display !== 'granted') {
+        console.warn('Notification permission not granted, commutes only trigger while the app is open');
+        return;
+      }
+
+      const { notifications: pending } = await LocalNotifications.getPending();
+      const stale = pending.filter(notification => typeof notification.extra?.commuteId === 'string');
+      if (stale.length > 0) {
+        await LocalNotifications.cancel({ notifications: stale.map(({ id }) => ({ id })) });
+      }
+
+      const notifications = this.buildNotifications(Date.now());
+      if (notifications.length > 0) {
+        await LocalNotifications.schedule({ notifications });
+      }
+      console.log(`Scheduled ${notifications.length} commute notifications`);
+    } catch (error) {
+      console.error('Failed to schedule commute notifications:', error);
+    }
+  }
+
+  private buildNotifications(now: number): LocalNotificationSchema[] {
+    const until = addDays(now, SCHEDULE_AHEAD_DAYS).getTime();
+    const holidays = this.getHolidays();
+
+    return this.getCommutes()
+      .flatMap(template => getCommuteOccurrences(template, now, until, holidays).map(at => ({ template, at })))
+      .sort((a, b) => a.at.getTime() - b.at.getTime())
+      .slice(0, MAX_SCHEDULED_NOTIFICATIONS)
+      .map(({ template, at }, index) => ({
+        id: NOTIFICATION_ID_BASE + index,
+        title: template.schedule.action === 'auto' ? `Starting ${template.name}` : `Time for ${template.name}`,
+        body: template.schedule.action === 'auto'
+          ? `Tracking your trip to ${template.destination.name}. Open the app if it is not running.`
+          : `Tap to start tracking your trip to ${template.destination.name}`,
+        schedule: { at, allowWhileIdle: true },
+        sound: 'default',
+        extra: { commuteId: template.id, date: getDateKey(at) }
+      }));
+  }
+}
+
+export const commuteScheduler = new CommuteScheduler();
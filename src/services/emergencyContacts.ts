@@ -0,0 +1,171 @@
+import { Share } from '@capacitor/share';
+import { ContactEvent, EmergencyContact, Journey, JourneyStatus, Location } from '@/types';
+import { journeyEngine, JourneyEngine, JourneyEngineState } from '@/services/journeyEngine';
+import { StorageManager } from '@/utils/storage';
+import { NotificationManager } from '@/utils/notifications';
+import { isFinalLeg } from '@/utils/journeyLegs';
+import { ContactMessage, composeContactMessage, getMailtoUrl, getSmsUrl } from '@/utils/contactMessages';
+
+export type ContactChannel = 'sms' | 'email' | 'share';
+
+const ACTIVE_STATUSES: JourneyStatus[] = ['tracking', 'approaching', 'paused'];
+// Overdue is checked on a timer too, since a stalled journey may stop sending positions
+const OVERDUE_CHECK_INTERVAL = 30000;
+
+export class ContactMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContactMessageError';
+  }
+}
+
+/**
+ * Emergency contacts and the messages sent to them. Messages can only be composed, not
+ * sent silently, so journey events are offered to the UI as prompts that open the SMS
+ * app, an email draft or the share sheet.
+ */
+export class EmergencyContactService {
+  private callbacks: Set<(message: ContactMessage) => void> = new Set();
+  private unsubscribers: (() => void)[] = [];
+  private overdueInterval: ReturnType<typeof setInterval> | null = null;
+  private notifications: NotificationManager | null = null;
+  // The journey being watched for overdue, and the arrival it was first expected at
+  private journeyId: string | null = null;
+  private expectedArrival: number | null = null;
+  private overdueSent = false;
+
+  constructor(private engine: JourneyEngine = journeyEngine) {}
+
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+
+    this.unsubscribers = [
+      this.engine.on('statusChange', ({ status, previousStatus, journey }) => {
+        if (!journey) return;
+        if (status === 'tracking' && previousStatus === 'starting') {
+          this.prompt('start', journey);
+        } else if (status === 'arrived') {
+          this.prompt('arrival', journey);
+        }
+      }),
+      this.engine.on('change', state => this.watchOverdue(state))
+    ];
+    this.watchOverdue(this.engine.getState());
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.stopOverdueTimer();
+  }
+
+  onMessage(callback: (message: ContactMessage) => void): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  // Contacts
+  getContacts(): EmergencyContact[] {
+    return StorageManager.getEmergencyContacts();
+  }
+
+  saveContact(contact: EmergencyContact): void {
+    const contacts = this.getContacts();
+    const exists = contacts.some(c => c.id === contact.id);
+    StorageManager.saveEmergencyContacts(exists ? contacts.map(c => (c.id === contact.id ? contact : c)) : [...contacts, contact]);
+  }
+
+  deleteContact(id: string): void {
+    StorageManager.saveEmergencyContacts(this.getContacts().filter(c => c.id !== id));
+  }
+
+  // SOS goes to every contact, whatever they opted into
+  createSosMessage(journey: Journey | null, location: Location | null): ContactMessage | null {
+    const contacts = this.getContacts();
+    return contacts.length > 0 ? composeContactMessage('sos', contacts, journey, location) : null;
+  }
+
+  async canShare(): Promise<boolean> {
+    try {
+      return (await Share.canShare()).value;
+    } catch {
+      return false;
+    }
+  }
+
+  async send(message: ContactMessage, channel: ContactChannel): Promise<void> {
+    if (channel === 'share') {
+      await Share.share({ title: message.subject, text: message.body, dialogTitle: 'Send to your contacts' });
+      return;
+    }
+
+    const url = channel === 'sms' ? getSmsUrl(message) : getMailtoUrl(message);
+    if (!url) {
+      throw new ContactMessageError(channel === 'sms' ? 'No contact has a phone number' : 'No contact has an email address');
+    }
+    // Hands the draft to the messaging or email app; native builds open it as an intent
+    window.location.href = url;
+  }
+
+  private prompt(event: ContactEvent, journey: Journey): void {
+    const recipients = this.getContacts().filter(contact => contact.notifyOn.includes(event));
+    if (recipients.length === 0) return;
+
+    const message = composeContactMessage(event, recipients, journey, journey.currentLocation ?? null);
+    console.log(`Prompting to tell ${recipients.length} contact(s): ${event}`);
+    this.callbacks.forEach(callback => callback(message));
+
+    // The prompt waits in the app; a notification brings the user back to it
+    if (typeof document !== 'undefined' && document.visibilityState === 'hidden') {
+      this.notifications ??= new NotificationManager();
+      this.notifications.showNotification({
+        title: 'Let your contacts know',
+        body: message.subject,
+        tag: 'contact-message',
+        requireInteraction: true
+      });
+    }
+  }
+
+  private watchOverdue({ journey, status }: JourneyEngineState): void {
+    if (!journey || !ACTIVE_STATUSES.includes(status)) {
+      this.stopOverdueTimer();
+      return;
+    }
+
+    if (journey.id !== this.journeyId) {
+      this.journeyId = journey.id;
+      this.expectedArrival = null;
+      this.overdueSent = false;
+    }
+    // The first estimate for the final leg is what the journey is held to
+    if (this.expectedArrival === null && journey.estimatedArrival && isFinalLeg(journey)) {
+      this.expectedArrival = journey.estimatedArrival;
+    }
+
+    if (!this.overdueInterval) {
+      this.overdueInterval = setInterval(() => this.checkOverdue(), OVERDUE_CHECK_INTERVAL);
+    }
+    this.checkOverdue();
+  }
+
+  private checkOverdue(): void {
+    const { journey } = this.engine.getState();
+    if (!journey || this.overdueSent || this.expectedArrival === null) return;
+
+    const { overdueDelay } = StorageManager.getPreferences().safety;
+    if (Date.now() > this.expectedArrival + overdueDelay) {
+      this.overdueSent = true;
+      this.prompt('overdue', journey);
+    }
+  }
+
+  private stopOverdueTimer(): void {
+    if (this.overdueInterval) {
+      clearInterval(this.overdueInterval);
+      this.overdueInterval = null;
+    }
+  }
+}
+
+export const emergencyContacts = new EmergencyContactService();
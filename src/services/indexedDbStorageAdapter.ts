@@ -0,0 +1,135 @@
+import { Journey } from '@/types';
+import { JourneyQuery, StorageAdapter } from '@/services/storageAdapter';
+
+const DB_NAME = 'smart_transit';
+const DB_VERSION = 1;
+const KEY_VALUE_STORE = 'keyval';
+const JOURNEY_STORE = 'journeys';
+const START_TIME_INDEX = 'startTime';
+const DESTINATION_INDEX = 'destinationStartTime';
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const whenComplete = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+export class IndexedDbStorageAdapter implements StorageAdapter {
+  readonly name = 'indexedDB';
+  private db: IDBDatabase | null = null;
+
+  async open(): Promise<void> {
+    if (this.db) return;
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+
+      if (!db.objectStoreNames.contains(KEY_VALUE_STORE)) {
+        db.createObjectStore(KEY_VALUE_STORE);
+      }
+
+      if (!db.objectStoreNames.contains(JOURNEY_STORE)) {
+        const journeys = db.createObjectStore(JOURNEY_STORE, { keyPath: 'id' });
+        journeys.createIndex(START_TIME_INDEX, 'startTime');
+        journeys.createIndex(DESTINATION_INDEX, ['destination.id', 'startTime']);
+      }
+    };
+
+    this.db = await toPromise(request);
+    // Another tab upgrading the database needs this connection out of the way
+    this.db.onversionchange = () => {
+      this.db?.close();
+      this.db = null;
+    };
+  }
+
+  private getDb(): IDBDatabase {
+    if (!this.db) {
+      throw new Error('IndexedDB storage has not been opened');
+    }
+    return this.db;
+  }
+
+  async get(key: string): Promise<unknown> {
+    const store = this.getDb().transaction(KEY_VALUE_STORE, 'readonly').objectStore(KEY_VALUE_STORE);
+    return toPromise(store.get(key));
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    const transaction = this.getDb().transaction(KEY_VALUE_STORE, 'readwrite');
+    transaction.objectStore(KEY_VALUE_STORE).put(value, key);
+    await whenComplete(transaction);
+  }
+
+  async remove(key: string): Promise<void> {
+    const transaction = this.getDb().transaction(KEY_VALUE_STORE, 'readwrite');
+    transaction.objectStore(KEY_VALUE_STORE).delete(key);
+    await whenComplete(transaction);
+  }
+
+  async getJourneys(query: JourneyQuery = {}): Promise<Journey[]> {
+    const store = this.getDb().transaction(JOURNEY_STORE, 'readonly').objectStore(JOURNEY_STORE);
+    const from = query.from ?? 0;
+    const to = query.to ?? Number.MAX_SAFE_INTEGER;
+
+    const [index, range] = query.destinationId !== undefined
+      ? [store.index(DESTINATION_INDEX), IDBKeyRange.bound([query.destinationId, from], [query.destinationId, to])]
+      : [store.index(START_TIME_INDEX), IDBKeyRange.bound(from, to)];
+
+    return new Promise((resolve, reject) => {
+      const journeys: Journey[] = [];
+      const request = index.openCursor(range, 'prev');
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || (query.limit !== undefined && journeys.length >= query.limit)) {
+          resolve(journeys);
+          return;
+        }
+        journeys.push(cursor.value);
+        cursor.continue();
+      };
+    });
+  }
+
+  async putJourney(journey: Journey): Promise<void> {
+    const transaction = this.getDb().transaction(JOURNEY_STORE, 'readwrite');
+    transaction.objectStore(JOURNEY_STORE).put(journey);
+    await whenComplete(transaction);
+  }
+
+  async deleteJourneys(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const transaction = this.getDb().transaction(JOURNEY_STORE, 'readwrite');
+    const store = transaction.objectStore(JOURNEY_STORE);
+    ids.forEach(id => store.delete(id));
+    await whenComplete(transaction);
+  }
+
+  async replaceJourneys(journeys: Journey[]): Promise<void> {
+    const transaction = this.getDb().transaction(JOURNEY_STORE, 'readwrite');
+    const store = transaction.objectStore(JOURNEY_STORE);
+    store.clear();
+    journeys.forEach(journey => store.put(journey));
+    await whenComplete(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const transaction = this.getDb().transaction([KEY_VALUE_STORE, JOURNEY_STORE], 'readwrite');
+    transaction.objectStore(KEY_VALUE_STORE).clear();
+    transaction.objectStore(JOURNEY_STORE).clear();
+    await whenComplete(transaction);
+  }
+}
+
+export default IndexedDbStorageAdapter;
@@ -0,0 +1,434 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Destination, Journey, JourneyStatus, Location, UserPreferences } from '@/types';
+import { DEFAULT_PREFERENCES } from '@/utils/storage';
+import {
+  InvalidTransitionError,
+  JOURNEY_TRANSITIONS,
+  JourneyAlertNotifier,
+  JourneyEngine,
+  JourneyLocationProvider,
+  JourneyStore
+} from '@/services/journeyEngine';
+
+// About 5.5km north of the start, along a meridian so distances are easy to reason about
+const destination: Destination = {
+  id: 'dest',
+  name: 'Central Station',
+  address: '1 Station Road',
+  location: { lat: 0.05, lng: 0 }
+};
+
+const START = 0;
+const APPROACHING = 0.045; // ~560m out: inside the approaching radius
+const FAR = 0.035; // ~1.7km out: back outside it
+const AT_STOP = 0.0499; // ~11m out: inside the arrival radius
+
+// Every edge taken in this file, checked against the transition table at the end
+const seenTransitions = new Set<string>();
+
+const createEngine = (preferences: Partial<UserPreferences> = {}) => {
+  let time = 1_000_000;
+  let savedJourney: Journey | null = null;
+  let backgroundActive = false;
+  const scheduled: (() => void)[] = [];
+
+  const location: JourneyLocationProvider = {
+    requestPermission: vi.fn(async () => true),
+    getCurrentPosition: vi.fn(async () => ({ lat: START, lng: 0, timestamp: time })),
+    startTracking: vi.fn(async () => {}),
+    stopTracking: vi.fn(),
+    onPositionUpdate: vi.fn(() => () => {}),
+    onError: vi.fn(() => () => {}),
+    setTrackingMode: vi.fn(),
+    enableBackgroundTracking: vi.fn(async () => { backgroundActive = true; return true; }),
+    updateBackgroundDestination: vi.fn(),
+    disableBackgroundTracking: vi.fn(async () => { backgroundActive = false; }),
+    isBackgroundTrackingActive: vi.fn(() => backgroundActive)
+  };
+
+  const notifications: JourneyAlertNotifier = {
+    requestPermission: vi.fn(async () => true),
+    resumeAudioContext: vi.fn(async () => {}),
+    showProgressAlert: vi.fn(async () => {}),
+    showFinalAlert: vi.fn(async () => {}),
+    showArrivalAlert: vi.fn(async () => {}),
+    showTransferAlert: vi.fn(async () => {}),
+    showMissedStopAlert: vi.fn(async () => {}),
+    showAlarmReminder: vi.fn(async () => {}),
+    showEmergencyAlert: vi.fn(async () => {}),
+    stopLongAlarm: vi.fn()
+  };
+
+  const store: JourneyStore = {
+    getCurrentJourney: vi.fn(() => savedJourney),
+    saveCurrentJourney: vi.fn((journey: Journey | null) => { savedJourney = journey; }),
+    addJourney: vi.fn(),
+    addDestination: vi.fn(),
+    getPreferences: vi.fn(() => ({ ...DEFAULT_PREFERENCES, ...preferences })),
+    getJourneyHistory: vi.fn(() => []),
+    getTransitFeed: vi.fn(() => null)
+  };
+
+  const sendBackgroundNotification = vi.fn(async () => {});
+
+  const engine = new JourneyEngine({
+    location,
+    notifications,
+    store,
+    routing: { getRoute: vi.fn(async () => null) },
+    sendBackgroundNotification,
+    now: () => time,
+    schedule: callback => { scheduled.push(callback); }
+  });
+
+  engine.on('statusChange', ({ previousStatus, status }) => {
+    seenTransitions.add(`${previousStatus}->${status}`);
+  });
+
+  // Positions a few seconds apart, as a phone on a bus would report them
+  const moveTo = (lat: number) => {
+    time += 5000;
+    const fix: Location = { lat, lng: 0, timestamp: time };
+    engine.handleLocationUpdate(fix);
+  };
+
+  const runScheduled = () => {
+    scheduled.splice(0).forEach(callback => callback());
+  };
+
+  const saveJourney = (status: JourneyStatus) => {
+    savedJourney = {
+      id: 'journey_saved',
+      destination,
+      startTime: time,
+      transportMode: 'walk',
+      status,
+      alerts: [],
+      currentLocation: { lat: START, lng: 0, timestamp: time }
+    };
+  };
+
+  return { engine, location, notifications, store, sendBackgroundNotification, moveTo, runScheduled, saveJourney };
+};
+
+describe('JourneyEngine', () => {
+  let setup: ReturnType<typeof createEngine>;
+
+  beforeEach(() => {
+    setup = createEngine();
+  });
+
+  describe('start', () => {
+    it('moves from idle through starting to tracking', async () => {
+      const statuses: JourneyStatus[] = [];
+      setup.engine.on('statusChange', ({ status }) => statuses.push(status));
+
+      await setup.engine.start(destination, 'walk');
+
+      expect(statuses).toEqual(['starting', 'tracking']);
+      expect(setup.engine.getState()).toMatchObject({ status: 'tracking', isTracking: true, error: null });
+      expect(setup.engine.getState().journey?.distance).toBeGreaterThan(5000);
+      // The first estimate is ready for anything reacting to the start, such as contact messages
+      expect(setup.engine.getState().journey?.estimatedArrival).toBeGreaterThan(setup.engine.getState().journey!.startTime);
+      expect(setup.location.startTracking).toHaveBeenCalled();
+      expect(setup.store.saveCurrentJourney).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'tracking' }));
+    });
+
+    it('enables background tracking and announces it', async () => {
+      await setup.engine.start(destination, 'walk');
+
+      expect(setup.location.enableBackgroundTracking).toHaveBeenCalledWith(destination.location, 'walk');
+      expect(setup.sendBackgroundNotification).toHaveBeenCalledWith('Journey Started', expect.stringContaining(destination.name));
+      expect(setup.engine.getState().isBackgroundTrackingActive).toBe(true);
+    });
+
+    it('leaves background tracking off when the rider has turned it off', async () => {
+      setup = createEngine({ tracking: { ...DEFAULT_PREFERENCES.tracking, backgroundLocation: false } });
+
+      await setup.engine.start(destination, 'walk');
+
+      expect(setup.location.enableBackgroundTracking).not.toHaveBeenCalled();
+      expect(setup.sendBackgroundNotification).not.toHaveBeenCalled();
+      expect(setup.engine.getStatus()).toBe('tracking');
+    });
+
+    it('returns to idle when location permission is refused', async () => {
+      vi.mocked(setup.location.requestPermission).mockResolvedValue(false);
+      const statuses: JourneyStatus[] = [];
+      setup.engine.on('statusChange', ({ status }) => statuses.push(status));
+
+      await expect(setup.engine.start(destination, 'walk')).rejects.toThrow('Location permission is required');
+
+      expect(statuses).toEqual(['starting', 'idle']);
+      expect(setup.engine.getState()).toMatchObject({
+        status: 'idle',
+        journey: null,
+        error: 'Location permission is required for journey tracking'
+      });
+      expect(setup.location.startTracking).not.toHaveBeenCalled();
+      expect(setup.store.saveCurrentJourney).toHaveBeenLastCalledWith(null);
+    });
+
+    it('returns to idle and turns background tracking back off when the start notice fails', async () => {
+      vi.mocked(setup.sendBackgroundNotification).mockRejectedValue(new Error('Notification plugin unavailable'));
+      const statuses: JourneyStatus[] = [];
+      setup.engine.on('statusChange', ({ status }) => statuses.push(status));
+
+      await expect(setup.engine.start(destination, 'walk')).rejects.toThrow('Notification plugin unavailable');
+
+      expect(statuses).toEqual(['starting', 'idle']);
+      expect(setup.engine.getState()).toMatchObject({
+        status: 'idle',
+        journey: null,
+        isBackgroundTrackingActive: false,
+        error: 'Notification plugin unavailable'
+      });
+      expect(setup.location.disableBackgroundTracking).toHaveBeenCalled();
+      expect(setup.location.startTracking).not.toHaveBeenCalled();
+    });
+
+    it('returns to idle when background tracking cannot be enabled', async () => {
+      vi.mocked(setup.location.enableBackgroundTracking).mockRejectedValue(new Error('Background location denied'));
+
+      await expect(setup.engine.start(destination, 'walk')).rejects.toThrow('Background location denied');
+
+      expect(setup.engine.getState()).toMatchObject({ status: 'idle', journey: null, error: 'Background location denied' });
+      expect(setup.location.startTracking).not.toHaveBeenCalled();
+      expect(setup.store.saveCurrentJourney).toHaveBeenLastCalledWith(null);
+    });
+
+    it('abandons the start when stopped while waiting for a position', async () => {
+      let resolvePosition: (location: Location) => void = () => {};
+      vi.mocked(setup.location.getCurrentPosition).mockReturnValue(new Promise(resolve => { resolvePosition = resolve; }));
+
+      const starting = setup.engine.start(destination, 'walk');
+      await vi.waitFor(() => expect(setup.location.getCurrentPosition).toHaveBeenCalled());
+      await setup.engine.stop();
+      resolvePosition({ lat: START, lng: 0, timestamp: 0 });
+      await starting;
+
+      expect(setup.engine.getState()).toMatchObject({ status: 'idle', journey: null, isTracking: false });
+      expect(setup.location.enableBackgroundTracking).not.toHaveBeenCalled();
+      expect(setup.location.startTracking).not.toHaveBeenCalled();
+      expect(setup.store.addJourney).not.toHaveBeenCalled();
+    });
+
+    it('turns background tracking back off when stopped while enabling it', async () => {
+      let resolveBackground: (enabled: boolean) => void = () => {};
+      vi.mocked(setup.location.enableBackgroundTracking).mockReturnValue(new Promise(resolve => { resolveBackground = resolve; }));
+
+      const starting = setup.engine.start(destination, 'walk');
+      await vi.waitFor(() => expect(setup.location.enableBackgroundTracking).toHaveBeenCalled());
+      await setup.engine.stop();
+      resolveBackground(true);
+      await starting;
+
+      expect(setup.engine.getState()).toMatchObject({ status: 'idle', journey: null, isBackgroundTrackingActive: false });
+      expect(setup.location.disableBackgroundTracking).toHaveBeenCalled();
+      expect(setup.sendBackgroundNotification).not.toHaveBeenCalled();
+      expect(setup.location.startTracking).not.toHaveBeenCalled();
+    });
+
+    it('rejects a second journey while one is running', async () => {
+      await setup.engine.start(destination, 'walk');
+
+      await expect(setup.engine.start(destination, 'walk')).rejects.toBeInstanceOf(InvalidTransitionError);
+      expect(setup.engine.getStatus()).toBe('tracking');
+    });
+  });
+
+  describe('approaching', () => {
+    beforeEach(async () => {
+      await setup.engine.start(destination, 'walk');
+    });
+
+    it('moves to approaching inside the approaching radius and back out again', () => {
+      setup.moveTo(APPROACHING);
+      expect(setup.engine.getStatus()).toBe('approaching');
+      expect(setup.engine.getState().journey?.alerts.map(alert => alert.type)).toContain('approaching');
+
+      setup.moveTo(FAR);
+      expect(setup.engine.getStatus()).toBe('tracking');
+    });
+  });
+
+  describe('pause and resume', () => {
+    beforeEach(async () => {
+      await setup.engine.start(destination, 'walk');
+    });
+
+    it('pauses tracking and resumes to tracking', () => {
+      setup.engine.pause();
+      expect(setup.engine.getState()).toMatchObject({ status: 'paused', isTracking: false });
+      expect(setup.location.stopTracking).toHaveBeenCalled();
+
+      setup.engine.resume();
+      expect(setup.engine.getState()).toMatchObject({ status: 'tracking', isTracking: true });
+    });
+
+    it('resumes to approaching when paused while approaching', () => {
+      setup.moveTo(APPROACHING);
+      setup.engine.pause();
+      expect(setup.engine.getStatus()).toBe('paused');
+
+      setup.engine.resume();
+      expect(setup.engine.getStatus()).toBe('approaching');
+    });
+
+    it('ignores position updates while paused', () => {
+      setup.engine.pause();
+      setup.moveTo(AT_STOP);
+
+      expect(setup.engine.getStatus()).toBe('paused');
+      expect(setup.engine.getState().journey?.alerts).toEqual([]);
+    });
+
+    it('does nothing when there is no journey to pause or resume', () => {
+      const idle = createEngine();
+
+      idle.engine.pause();
+      idle.engine.resume();
+
+      expect(idle.engine.getStatus()).toBe('idle');
+    });
+  });
+
+  describe('stop', () => {
+    it.each([
+      ['tracking', START],
+      ['approaching', APPROACHING]
+    ])('stops from %s, saves the journey and clears it', async (status, lat) => {
+      await setup.engine.start(destination, 'walk');
+      setup.moveTo(lat);
+      expect(setup.engine.getStatus()).toBe(status);
+
+      await setup.engine.stop();
+
+      expect(setup.engine.getStatus()).toBe('stopped');
+      expect(setup.store.addJourney).toHaveBeenCalledWith(expect.objectContaining({ status: 'stopped', endTime: expect.any(Number) }));
+      expect(setup.location.disableBackgroundTracking).toHaveBeenCalled();
+      expect(setup.engine.getState().isTracking).toBe(false);
+
+      setup.runScheduled();
+      expect(setup.engine.getState()).toMatchObject({ status: 'idle', journey: null });
+    });
+
+    it('stops a paused journey', async () => {
+      await setup.engine.start(destination, 'walk');
+      setup.engine.pause();
+
+      await setup.engine.stop();
+
+      expect(setup.engine.getStatus()).toBe('stopped');
+      setup.runScheduled();
+      expect(setup.engine.getStatus()).toBe('idle');
+    });
+  });
+
+  describe('arrive', () => {
+    it('arrives from tracking, records the journey and clears it', async () => {
+      await setup.engine.start(destination, 'walk');
+
+      setup.moveTo(AT_STOP);
+
+      expect(setup.engine.getStatus()).toBe('arrived');
+      // Alerts play once the audio context has resumed
+      await vi.waitFor(() => expect(setup.notifications.showArrivalAlert).toHaveBeenCalled());
+      expect(setup.store.addJourney).toHaveBeenCalledWith(expect.objectContaining({ status: 'arrived', actualArrival: expect.any(Number) }));
+      expect(setup.store.addDestination).toHaveBeenCalledWith(destination);
+
+      setup.runScheduled();
+      expect(setup.engine.getState()).toMatchObject({ status: 'idle', journey: null });
+    });
+
+    it('reports a failure to turn off background tracking on arrival', async () => {
+      vi.mocked(setup.location.disableBackgroundTracking).mockRejectedValue(new Error('Plugin not responding'));
+      await setup.engine.start(destination, 'walk');
+
+      setup.moveTo(AT_STOP);
+
+      expect(setup.engine.getStatus()).toBe('arrived');
+      await vi.waitFor(() => expect(setup.engine.getState().error).toBe('Plugin not responding'));
+      expect(setup.engine.getState().isBackgroundTrackingActive).toBe(false);
+    });
+
+    it('arrives from approaching', async () => {
+      await setup.engine.start(destination, 'walk');
+      setup.moveTo(APPROACHING);
+
+      setup.moveTo(AT_STOP);
+
+      expect(setup.engine.getStatus()).toBe('arrived');
+    });
+  });
+
+  describe('restore', () => {
+    it.each<JourneyStatus>(['tracking', 'approaching'])('resumes a saved %s journey and its tracking', status => {
+      setup.saveJourney(status);
+
+      setup.engine.restore();
+
+      expect(setup.engine.getState()).toMatchObject({ status, isTracking: true });
+      expect(setup.engine.getState().journey?.id).toBe('journey_saved');
+      expect(setup.location.startTracking).toHaveBeenCalled();
+    });
+
+    it('restores a paused journey without tracking', () => {
+      setup.saveJourney('paused');
+
+      setup.engine.restore();
+
+      expect(setup.engine.getState()).toMatchObject({ status: 'paused', isTracking: false });
+      expect(setup.location.startTracking).not.toHaveBeenCalled();
+
+      setup.engine.resume();
+      expect(setup.engine.getStatus()).toBe('tracking');
+    });
+
+    it('stays idle when nothing resumable was saved', () => {
+      setup.saveJourney('arrived');
+
+      setup.engine.restore();
+
+      expect(setup.engine.getState()).toMatchObject({ status: 'idle', journey: null });
+    });
+  });
+
+  describe('audio', () => {
+    it('unlocks audio through the notifier that plays the alerts', async () => {
+      await setup.engine.unlockAudio();
+
+      expect(setup.notifications.resumeAudioContext).toHaveBeenCalled();
+    });
+  });
+
+  describe('transitions', () => {
+    it('only allows the moves in the transition table', async () => {
+      expect(setup.engine.canTransition('arrived')).toBe(false);
+      expect(setup.engine.canTransition('starting')).toBe(true);
+
+      await setup.engine.start(destination, 'walk');
+
+      expect(setup.engine.canTransition('idle')).toBe(false);
+      expect(setup.engine.canTransition('starting')).toBe(false);
+      expect(setup.engine.canTransition('paused')).toBe(true);
+    });
+
+    it('reports an illegal move with the statuses involved', async () => {
+      await setup.engine.start(destination, 'walk');
+
+      const error = await setup.engine.start(destination, 'walk').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(InvalidTransitionError);
+      expect(error.name).toBe('InvalidTransitionError');
+      expect(error.message).toBe('Invalid journey transition from tracking to starting');
+    });
+
+    it('has taken every edge in the transition table', () => {
+      const edges = Object.entries(JOURNEY_TRANSITIONS).flatMap(([from, targets]) => targets.map(to => `${from}->${to}`));
+
+      expect([...seenTransitions].sort()).toEqual(edges.sort());
+    });
+  });
+});
@@ -0,0 +1,1019 @@
+import {
+  Alert,
+  AlertRuleType,
+  AlertRules,
+  AlertType,
+  Destination,
+  Journey,
+  JourneyLeg,
+  JourneyStatus,
+  Location,
+  Route,
+  SnoozeOption,
+  SnoozedAlarm,
+  TrackingMode,
+  TransitRide,
+  TransportMode,
+  UserPreferences
+} from '@/types';
+import { GeolocationManager, calculateDistance } from '@/utils/geolocation';
+import { NotificationManager } from '@/utils/notifications';
+import { StorageManager } from '@/utils/storage';
+import { EtaEstimator } from '@/utils/etaEstimator';
+import { appendTrackPoint } from '@/utils/track';
+import { getTriggeredAlert, getTrackingModeForAlert, getAlertMessage, getStopsAlertMessage } from '@/utils/alertRules';
+import { getRideProgress } from '@/utils/transitRide';
+import { getRouteProgress, resolveRoute } from '@/utils/journeyRoute';
+import { getSoundingAlarm } from '@/utils/alarms';
+import { ARRIVAL_HOLD_LIMIT, MISSED_STOP_MARGIN, WALKING_SPEED, getReturnSuggestion, getStepSpeed, isRideMode } from '@/utils/missedStop';
+import {
+  JourneyLegPlan,
+  getCurrentLeg,
+  getCurrentLegIndex,
+  getJourneyLegs,
+  getLegAlertRules,
+  getNextLeg,
+  getTransferMessage
+} from '@/utils/journeyLegs';
+import { backgroundLocationService } from '@/services/backgroundLocationService';
+import { RoutingService } from '@/services/routingService';
+
+export type JourneyLocationProvider = Pick<
+  GeolocationManager,
+  | 'requestPermission'
+  | 'getCurrentPosition'
+  | 'startTracking'
+  | 'stopTracking'
+  | 'onPositionUpdate'
+  | 'onError'
+  | 'setTrackingMode'
+  | 'enableBackgroundTracking'
+  | 'updateBackgroundDestination'
+  | 'disableBackgroundTracking'
+  | 'isBackgroundTrackingActive'
+>;
+
+export type JourneyAlertNotifier = Pick<
+  NotificationManager,
+  | 'requestPermission'
+  | 'resumeAudioContext'
+  | 'showProgressAlert'
+  | 'showFinalAlert'
+  | 'showArrivalAlert'
+  | 'showTransferAlert'
+  | 'showMissedStopAlert'
+  | 'showAlarmReminder'
+  | 'showEmergencyAlert'
+  | 'stopLongAlarm'
+>;
+
+export type JourneyStore = Pick<
+  typeof StorageManager,
+  | 'getCurrentJourney'
+  | 'saveCurrentJourney'
+  | 'addJourney'
+  | 'addDestination'
+  | 'getPreferences'
+  | 'getJourneyHistory'
+  | 'getTransitFeed'
+>;
+
+export type JourneyRouter = Pick<RoutingService, 'getRoute'>;
+
+export interface JourneyEngineDependencies {
+  location: JourneyLocationProvider;
+  notifications: JourneyAlertNotifier;
+  store: JourneyStore;
+  routing: JourneyRouter;
+  sendBackgroundNotification: (title: string, body: string) => Promise<void>;
+  now: () => number;
+  schedule: (callback: () => void, delay: number) => void;
+}
+
+export interface JourneyEngineState {
+  journey: Journey | null;
+  status: JourneyStatus;
+  currentLocation: Location | null;
+  isTracking: boolean;
+  isBackgroundTrackingActive: boolean;
+  error: string | null;
+}
+
+export interface JourneyEngineEvents {
+  change: JourneyEngineState;
+  statusChange: { status: JourneyStatus; previousStatus: JourneyStatus; journey: Journey | null };
+  alert: { alert: Alert; journey: Journey };
+  legChange: { leg: number; journey: Journey };
+  error: { message: string };
+}
+
+// Per-journey settings; anything left out comes from the user's preferences
+export interface JourneyStartOptions {
+  alertRules?: AlertRules;
+  commuteId?: string;
+}
+
+type Listener<T> = (payload: T) => void;
+
+// Allowed lifecycle transitions; idle means no journey is loaded and can move
+// straight to an active or paused state when a saved journey is restored
+export const JOURNEY_TRANSITIONS: Record<JourneyStatus, JourneyStatus[]> = {
+  idle: ['starting', 'tracking', 'approaching', 'paused'],
+  starting: ['tracking', 'idle'],
+  tracking: ['approaching', 'paused', 'stopped', 'arrived'],
+  approaching: ['tracking', 'paused', 'stopped', 'arrived'],
+  paused: ['tracking', 'approaching', 'stopped'],
+  arrived: ['idle'],
+  stopped: ['idle']
+};
+
+const RESUMABLE_STATUSES: JourneyStatus[] = ['tracking', 'approaching', 'paused'];
+
+// How long a finished journey stays visible before the engine returns to idle
+const ARRIVED_CLEAR_DELAY = 3000;
+const STOPPED_CLEAR_DELAY = 1000;
+// Gaps between repeats of an unanswered alarm; the last one repeats until acknowledged
+const ALARM_REPEAT_DELAYS = [30000, 20000, 10000];
+
+export class InvalidTransitionError extends Error {
+  constructor(from: JourneyStatus, to: JourneyStatus) {
+    super(`Invalid journey transition from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+/**
+ * Framework-agnostic journey state machine. Owns the journey lifecycle, location
+ * subscription, alert evaluation and alert de-duplication; UI layers subscribe to
+ * its events and call its transition methods.
+ */
+export class JourneyEngine {
+  private deps: JourneyEngineDependencies;
+  private journey: Journey | null = null;
+  private status: JourneyStatus = 'idle';
+  private resumeStatus: JourneyStatus = 'tracking';
+  private currentLocation: Location | null = null;
+  private isTracking = false;
+  private isBackgroundTrackingActive = false;
+  private error: string | null = null;
+  private alertedTypes: Set<AlertType> = new Set();
+  private etaEstimator = new EtaEstimator();
+  // How far along the current leg's route the last fix was, while on the route
+  private routeDistanceAlong: number | null = null;
+  // Likewise along a transit ride's shape, for counting the stops left
+  private rideDistanceAlong: number | null = null;
+  // Closest the current leg has come to its destination, for spotting a passed stop
+  private closestDistance: number | null = null;
+  // Bumped to cancel whatever repeat of the sounding alarm is pending
+  private alarmRepeat = 0;
+  private unsubscribers: (() => void)[] = [];
+  private listeners = new Map<keyof JourneyEngineEvents, Set<Listener<unknown>>>();
+
+  constructor(dependencies: Partial<JourneyEngineDependencies> = {}) {
+    this.deps = {
+      location: dependencies.location ?? new GeolocationManager(),
+      notifications: dependencies.notifications ?? new NotificationManager(),
+      store: dependencies.store ?? StorageManager,
+      routing: dependencies.routing ?? new RoutingService(() => StorageManager.getPreferences().routing),
+      sendBackgroundNotification: dependencies.sendBackgroundNotification
+        ?? ((title, body) => backgroundLocationService.sendBackgroundNotification(title, body)),
+      now: dependencies.now ?? Date.now,
+      schedule: dependencies.schedule ?? ((callback, delay) => { setTimeout(callback, delay); })
+    };
+  }
+
+  // Events
+  on<K extends keyof JourneyEngineEvents>(event: K, listener: Listener<JourneyEngineEvents[K]>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    const listeners = this.listeners.get(event)!;
+    listeners.add(listener as Listener<unknown>);
+    return () => listeners.delete(listener as Listener<unknown>);
+  }
+
+  private emit<K extends keyof JourneyEngineEvents>(event: K, payload: JourneyEngineEvents[K]): void {
+    this.listeners.get(event)?.forEach(listener => listener(payload));
+  }
+
+  private emitChange(): void {
+    this.emit('change', this.getState());
+  }
+
+  getState(): JourneyEngineState {
+    return {
+      journey: this.journey,
+      status: this.status,
+      currentLocation: this.currentLocation,
+      isTracking: this.isTracking,
+      isBackgroundTrackingActive: this.isBackgroundTrackingActive,
+      error: this.error
+    };
+  }
+
+  getStatus(): JourneyStatus {
+    return this.status;
+  }
+
+  canTransition(to: JourneyStatus): boolean {
+    return JOURNEY_TRANSITIONS[this.status].includes(to);
+  }
+
+  private transition(to: JourneyStatus): void {
+    if (!this.canTransition(to)) {
+      throw new InvalidTransitionError(this.status, to);
+    }
+
+    const previousStatus = this.status;
+    this.status = to;
+
+    if (this.journey && to !== 'idle') {
+      this.journey = { ...this.journey, status: to };
+    }
+    if (to === 'idle') {
+      this.journey = null;
+      this.alertedTypes = new Set();
+    }
+
+    this.persist();
+    this.emit('statusChange', { status: to, previousStatus, journey: this.journey });
+    this.emitChange();
+  }
+
+  private persist(): void {
+    // Only resumable journeys are saved; a journey still starting has no position yet
+    const isResumable = this.journey && RESUMABLE_STATUSES.includes(this.status);
+    this.deps.store.saveCurrentJourney(isResumable ? this.journey : null);
+  }
+
+  private setError(message: string | null): void {
+    this.error = message;
+    if (message) {
+      this.emit('error', { message });
+    }
+    this.emitChange();
+  }
+
+  private isActive(): boolean {
+    return this.status === 'tracking' || this.status === 'approaching';
+  }
+
+  // Lifecycle
+  restore(): void {
+    if (this.status !== 'idle') return;
+
+    const savedJourney = this.deps.store.getCurrentJourney();
+    if (!savedJourney || !RESUMABLE_STATUSES.includes(savedJourney.status)) {
+      return;
+    }
+
+    const status = savedJourney.status;
+    const legIndex = getCurrentLegIndex(savedJourney);
+    this.journey = savedJourney;
+    this.alertedTypes = new Set(
+      savedJourney.alerts.filter(alert => (alert.leg ?? 0) === legIndex).map(alert => alert.type)
+    );
+    this.etaEstimator.reset(getCurrentLeg(savedJourney).transportMode);
+    this.routeDistanceAlong = null;
+    this.rideDistanceAlong = null;
+    this.closestDistance = null;
+    this.resumeStatus = status === 'paused' ? 'tracking' : status;
+    this.transition(status);
+
+    if (this.isActive()) {
+      this.startLocationTracking();
+      this.rearmAlarm();
+    }
+  }
+
+  start(destination: Destination, transportMode: TransportMode, options: JourneyStartOptions = {}): Promise<void> {
+    return this.startLegs([{ destination, transportMode }], options);
+  }
+
+  // Starts a journey through each leg in order; a single leg is an ordinary journey
+  async startLegs(plan: JourneyLegPlan[], options: JourneyStartOptions = {}): Promise<void> {
+    if (this.status !== 'idle') {
+      throw new InvalidTransitionError(this.status, 'starting');
+    }
+    if (plan.length === 0) {
+      throw new Error('A journey needs at least one destination');
+    }
+
+    const [firstLeg] = plan;
+    const { destination, transportMode } = firstLeg;
+    const finalDestination = plan[plan.length - 1].destination;
+    console.log(`Starting journey to: ${finalDestination.name}${plan.length > 1 ? ` in ${plan.length} legs` : ''}`);
+
+    const history = this.deps.store.getJourneyHistory();
+    const legs = plan.map(leg => ({ ...leg, route: resolveRoute(leg.destination, leg.route, history) }));
+
+    this.journey = {
+      id: `journey_${this.deps.now()}`,
+      destination: finalDestination,
+      startTime: this.deps.now(),
+      transportMode,
+      status: 'starting',
+      alerts: [],
+      alertRules: plan.length === 1 ? firstLeg.alertRules ?? options.alertRules : options.alertRules,
+      route: plan.length === 1 ? legs[0].route : undefined,
+      commuteId: options.commuteId,
+      legs: plan.length > 1 ? legs : undefined,
+      currentLeg: plan.length > 1 ? 0 : undefined
+    };
+    this.error = null;
+    this.transition('starting');
+
+    // stop() cancels a start while any of the awaits below is pending
+    const journeyId = this.journey.id;
+    const isCancelled = () => this.status !== 'starting' || this.journey?.id !== journeyId;
+    let backgroundEnabled = false;
+
+    try {
+      // Request permissions
+      const hasLocationPermission = await this.deps.location.requestPermission();
+      if (isCancelled()) return;
+      if (!hasLocationPermission) {
+        throw new Error('Location permission is required for journey tracking');
+      }
+
+      const hasNotificationPermission = await this.deps.notifications.requestPermission();
+      if (isCancelled()) return;
+      if (!hasNotificationPermission) {
+        console.warn('Notification permission not granted');
+      }
+
+      // Get initial position
+      const startLocation = await this.deps.location.getCurrentPosition();
+      if (isCancelled()) return;
+
+      // Native setup happens while still starting, so a failure can fall back to idle
+      const preferences = this.deps.store.getPreferences();
+      backgroundEnabled = preferences.tracking.backgroundLocation
+        && await this.deps.location.enableBackgroundTracking(destination.location, transportMode);
+      if (isCancelled()) {
+        if (backgroundEnabled) await this.disableBackgroundTracking();
+        return;
+      }
+
+      if (backgroundEnabled && preferences.notifications.visual) {
+        await this.deps.sendBackgroundNotification(
+          'Journey Started',
+          `Tracking your trip to ${destination.name} in background`
+        );
+        if (isCancelled()) {
+          await this.disableBackgroundTracking();
+          return;
+        }
+      }
+
+      const startTime = this.deps.now();
+      this.routeDistanceAlong = null;
+      this.rideDistanceAlong = null;
+      this.closestDistance = null;
+      this.etaEstimator.reset(transportMode);
+      this.etaEstimator.addPosition(startLocation);
+      const distance = this.measureDistance(getCurrentLeg(this.journey), startLocation);
+      this.journey = {
+        ...this.journey,
+        startTime,
+        legs: this.journey.legs?.map((leg, index) => (index === 0 ? { ...leg, startTime } : leg)),
+        startLocation,
+        currentLocation: startLocation,
+        track: appendTrackPoint([], startLocation),
+        distance,
+        // From the mode's usual speed until movement is observed, so there is an estimate from the start
+        estimatedArrival: startTime + this.etaEstimator.estimate(distance)
+      };
+      this.currentLocation = startLocation;
+      this.alertedTypes = new Set();
+      this.resumeStatus = 'tracking';
+      this.isBackgroundTrackingActive = backgroundEnabled;
+    } catch (error) {
+      if (backgroundEnabled) await this.disableBackgroundTracking();
+      // Stopped while starting; the rider no longer wants this journey, so there is nothing to report
+      if (isCancelled()) return;
+
+      this.transition('idle');
+      // Surfaced to the caller through the rejection rather than the error event
+      this.error = error instanceof Error ? error.message : 'Failed to start journey';
+      this.emitChange();
+      throw error;
+    }
+
+    this.transition('tracking');
+
+    // Tracking starts straight away; routes fill in as they arrive
+    this.fetchMissingRoutes(this.currentLocation);
+    this.startLocationTracking();
+  }
+
+  pause(): void {
+    if (!this.journey || !this.canTransition('paused')) return;
+
+    this.resumeStatus = this.status;
+    this.stopLocationTracking();
+    this.transition('paused');
+  }
+
+  resume(): void {
+    if (!this.journey || this.status !== 'paused') return;
+
+    this.transition(this.resumeStatus);
+    this.startLocationTracking();
+    this.rearmAlarm();
+  }
+
+  async stop(): Promise<void> {
+    // A journey still starting has nothing to save yet; its start is abandoned
+    if (this.status === 'starting') {
+      this.transition('idle');
+      return;
+    }
+    if (!this.journey || !this.canTransition('stopped')) return;
+
+    this.journey = { ...this.journey, endTime: this.deps.now() };
+    this.transition('stopped');
+    this.deps.store.addJourney(this.journey);
+
+    await this.disableBackgroundTracking();
+
+    this.stopLocationTracking();
+    this.deps.schedule(() => this.clearFinishedJourney(), STOPPED_CLEAR_DELAY);
+  }
+
+  // Browsers keep audio suspended until the page is interacted with, so the UI calls this on the first gesture
+  unlockAudio(): Promise<void> {
+    return this.deps.notifications.resumeAudioContext();
+  }
+
+  async emergencyStop(): Promise<void> {
+    if (!this.journey) return;
+
+    // Resume audio context and play emergency alarm
+    await this.deps.notifications.resumeAudioContext();
+
+    await this.stop();
+
+    this.deps.notifications.showEmergencyAlert('Emergency stop activated. Journey tracking stopped.');
+  }
+
+  /**
+   * The rider has responded to an alarm: it stops sounding and repeating, every alert
+   * so far counts as acknowledged, and a ride held in the arrival radius is taken as arrived.
+   */
+  acknowledgeAlarm(): void {
+    this.silenceAlarm();
+    if (!this.journey) return;
+
+    const { alerts, missedStop } = this.journey;
+    this.journey = {
+      ...this.journey,
+      alerts: alerts.map(alert => (alert.acknowledged ? alert : { ...alert, acknowledged: true })),
+      missedStop: missedStop && { ...missedStop, acknowledged: true },
+      snoozedAlarm: undefined
+    };
+    this.persist();
+    this.emitChange();
+
+    if (this.journey.arrivalPendingSince !== undefined && this.isActive()) {
+      this.completeLeg();
+    }
+  }
+
+  // Silences the sounding alarm until the time or distance given, unless a new alert comes first
+  snoozeAlarm(option: SnoozeOption): void {
+    const alarm = getSoundingAlarm(this.journey);
+    if (!this.journey || !alarm || !this.isActive()) return;
+
+    this.silenceAlarm();
+    const snoozedAlarm: SnoozedAlarm = option.type === 'minutes'
+      ? { alertId: alarm.id, until: this.deps.now() + option.minutes * 60000 }
+      : { alertId: alarm.id, distance: option.distance };
+    console.log(`Alarm snoozed ${option.type === 'minutes' ? `for ${option.minutes} min` : `until ${option.distance}m away`}`);
+
+    this.journey = { ...this.journey, snoozedAlarm };
+    this.persist();
+    this.emitChange();
+    this.scheduleSnoozeWake(snoozedAlarm);
+  }
+
+  private async arrive(): Promise<void> {
+    if (!this.journey || !this.canTransition('arrived')) return;
+
+    const now = this.deps.now();
+    const lastLeg = (this.journey.legs?.length ?? 0) - 1;
+    this.journey = {
+      ...this.journey,
+      endTime: now,
+      actualArrival: now,
+      legs: this.journey.legs?.map((leg, index) => (index === lastLeg ? { ...leg, endTime: now } : leg))
+    };
+    this.transition('arrived');
+    this.deps.store.addJourney(this.journey);
+    this.deps.store.addDestination(this.journey.destination);
+
+    this.stopLocationTracking();
+    this.deps.schedule(() => this.clearFinishedJourney(), ARRIVED_CLEAR_DELAY);
+
+    await this.disableBackgroundTracking();
+  }
+
+  // A plugin failure here is reported rather than left to reject, since the journey has already ended
+  private async disableBackgroundTracking(): Promise<void> {
+    this.isBackgroundTrackingActive = false;
+    try {
+      await this.deps.location.disableBackgroundTracking();
+    } catch (error) {
+      this.setError(error instanceof Error ? error.message : 'Failed to turn off background tracking');
+      return;
+    }
+    this.emitChange();
+  }
+
+  private clearFinishedJourney(): void {
+    if (this.status === 'arrived' || this.status === 'stopped') {
+      this.transition('idle');
+    }
+  }
+
+  dispose(): void {
+    this.stopLocationTracking();
+    this.listeners.clear();
+  }
+
+  // Location tracking
+  private startLocationTracking(): void {
+    console.log('Starting location tracking...');
+    this.unsubscribeLocation();
+
+    this.unsubscribers = [
+      this.deps.location.onPositionUpdate(location => this.handleLocationUpdate(location)),
+      this.deps.location.onError(error => {
+        console.error('Location error:', error);
+        this.setError(error.message);
+      })
+    ];
+
+    // Without battery optimization the cadence never drops, so it is set before the first fix
+    if (!this.deps.store.getPreferences().tracking.batteryOptimization) {
+      this.deps.location.setTrackingMode(this.getTrackingMode(null));
+    }
+    this.deps.location.startTracking();
+    this.isTracking = true;
+    this.isBackgroundTrackingActive = this.deps.location.isBackgroundTrackingActive();
+    this.emitChange();
+  }
+
+  private stopLocationTracking(): void {
+    console.log('Stopping location tracking...');
+    this.unsubscribeLocation();
+    this.deps.location.stopTracking();
+    // Also stop any long alarms
+    this.deps.notifications.stopLongAlarm();
+    this.isTracking = false;
+    this.emitChange();
+  }
+
+  // Battery optimization tracks loosely until an alert is near; without it, tracking is always precise
+  private getTrackingMode(alertType: AlertRuleType | null): TrackingMode {
+    return this.deps.store.getPreferences().tracking.batteryOptimization
+      ? getTrackingModeForAlert(alertType)
+      : 'precision';
+  }
+
+  private unsubscribeLocation(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  handleLocationUpdate(location: Location): void {
+    const previousLocation = this.currentLocation;
+    this.currentLocation = location;
+    this.error = null;
+    this.etaEstimator.addPosition(location);
+
+    if (!this.journey || !this.isActive()) {
+      this.emitChange();
+      return;
+    }
+
+    const leg = getCurrentLeg(this.journey);
+    const distance = this.measureDistance(leg, location);
+    const estimatedTime = this.etaEstimator.estimate(distance);
+    const preferences = this.deps.store.getPreferences();
+    const ride = leg.destination.transit;
+    const stopsRemaining = ride ? this.countStopsRemaining(ride, location) : null;
+
+    console.log(`Distance to destination: ${distance}m, estimated ${estimatedTime}ms${this.etaEstimator.isDwelling() ? ' (stopped)' : ''}${stopsRemaining !== null ? `, ${stopsRemaining} stops left` : ''}`);
+
+    this.journey = {
+      ...this.journey,
+      currentLocation: location,
+      track: appendTrackPoint(this.journey.track, location),
+      distance,
+      estimatedArrival: this.deps.now() + estimatedTime,
+      stopsRemaining: stopsRemaining ?? undefined
+    };
+    this.persist();
+
+    // Only the most urgent triggered rule is raised for each position update
+    const triggeredAlert = getTriggeredAlert(
+      getLegAlertRules(this.journey, preferences.alertRules),
+      distance,
+      estimatedTime,
+      stopsRemaining
+    );
+    this.deps.location.setTrackingMode(this.getTrackingMode(triggeredAlert));
+    this.closestDistance = Math.min(this.closestDistance ?? distance, distance);
+
+    if (this.journey.arrivalPendingSince !== undefined) {
+      this.checkPendingArrival(triggeredAlert === 'arrived', location, previousLocation);
+      return;
+    }
+
+    if (triggeredAlert === 'arrived') {
+      // A rider who has not responded may be asleep; wait to see whether they get off
+      const latestAlert = this.journey.alerts[this.journey.alerts.length - 1];
+      if (isRideMode(leg.transportMode) && !latestAlert?.acknowledged) {
+        this.holdArrival(distance, estimatedTime, preferences);
+        return;
+      }
+      this.completeLeg();
+      return;
+    }
+
+    if (this.hasPassedStop(distance)) {
+      this.raiseMissedStop(location, distance, estimatedTime, preferences);
+    }
+
+    if (triggeredAlert) {
+      const message = stopsRemaining !== null
+        ? getStopsAlertMessage(triggeredAlert, stopsRemaining, leg.destination.name)
+        : undefined;
+      this.raiseAlert(triggeredAlert, distance, estimatedTime, preferences, message);
+    }
+
+    // A new alert has already ended the snooze and sounded instead
+    const snoozeDistance = this.journey.snoozedAlarm?.distance;
+    if (snoozeDistance !== undefined && distance <= snoozeDistance) {
+      this.wakeAlarm();
+    }
+
+    const approaching = triggeredAlert === 'approaching' || triggeredAlert === 'final_warning';
+    if (approaching && this.status === 'tracking') {
+      this.transition('approaching');
+    } else if (!approaching && this.status === 'approaching') {
+      this.transition('tracking');
+    } else {
+      this.emitChange();
+    }
+  }
+
+  // Ends the current leg: a transfer onto the next one, or arrival after the last
+  private completeLeg(): void {
+    if (!this.journey) return;
+
+    const leg = getCurrentLeg(this.journey);
+    const nextLeg = getNextLeg(this.journey);
+    const distance = this.journey.distance ?? 0;
+    const preferences = this.deps.store.getPreferences();
+    this.journey = { ...this.journey, arrivalPendingSince: undefined };
+
+    // Reaching the end of any leg but the last is a transfer, not an arrival
+    if (nextLeg) {
+      this.raiseAlert('transfer', distance, 0, preferences, getTransferMessage(leg, nextLeg));
+      this.advanceLeg();
+      return;
+    }
+
+    const ride = leg.destination.transit;
+    this.raiseAlert('arrived', distance, 0, preferences, ride ? getStopsAlertMessage('arrived', 0, leg.destination.name) : undefined);
+    this.arrive();
+  }
+
+  // Sounds the arrival alert but keeps tracking until the rider confirms, gets off or stays put
+  private holdArrival(distance: number, estimatedTime: number, preferences: UserPreferences): void {
+    if (!this.journey) return;
+
+    const leg = getCurrentLeg(this.journey);
+    const nextLeg = getNextLeg(this.journey);
+    console.log('In the arrival radius, waiting for the rider to confirm');
+
+    this.journey = { ...this.journey, arrivalPendingSince: this.deps.now() };
+    if (nextLeg) {
+      this.raiseAlert('transfer', distance, estimatedTime, preferences, getTransferMessage(leg, nextLeg));
+    } else {
+      this.raiseAlert('arrived', distance, estimatedTime, preferences, getStopsAlertMessage('arrived', 0, leg.destination.name));
+    }
+    // The alert may have been raised already; the held state still needs saving
+    this.persist();
+
+    if (this.status === 'tracking') {
+      this.transition('approaching');
+    } else {
+      this.emitChange();
+    }
+  }
+
+  private checkPendingArrival(withinArrival: boolean, location: Location, previousLocation: Location | null): void {
+    if (!this.journey?.arrivalPendingSince) return;
+
+    if (withinArrival) {
+      // Sitting at the stop this long means the rider is there, not passing through
+      if (this.deps.now() - this.journey.arrivalPendingSince >= ARRIVAL_HOLD_LIMIT) {
+        this.completeLeg();
+      } else {
+        this.emitChange();
+      }
+      return;
+    }
+
+    // Out of the radius: walking pace means they got off, vehicle speed means they did not.
+    // The smoothed speed still remembers the ride, so this uses the latest step alone.
+    const speed = getStepSpeed(previousLocation, location) ?? this.etaEstimator.getSpeed();
+    if (speed === null || speed <= WALKING_SPEED) {
+      this.completeLeg();
+      return;
+    }
+
+    const preferences = this.deps.store.getPreferences();
+    this.journey = { ...this.journey, arrivalPendingSince: undefined };
+    this.raiseMissedStop(location, this.journey.distance ?? 0, 0, preferences);
+    if (this.status === 'approaching') {
+      this.transition('tracking');
+    } else {
+      this.emitChange();
+    }
+  }
+
+  // Near enough to have been warned, and now moving away again by more than GPS noise
+  private hasPassedStop(distance: number): boolean {
+    if (!this.journey || this.journey.missedStop || this.closestDistance === null) return false;
+
+    const warned = this.alertedTypes.has('approaching') || this.alertedTypes.has('final_warning');
+    return warned && distance > this.closestDistance + MISSED_STOP_MARGIN;
+  }
+
+  private raiseMissedStop(location: Location, distance: number, estimatedTime: number, preferences: UserPreferences): void {
+    if (!this.journey) return;
+
+    const leg = getCurrentLeg(this.journey);
+    const suggestion = getReturnSuggestion(leg.destination, leg.transportMode, location, this.deps.store.getTransitFeed());
+    console.log(`Missed stop at ${leg.destination.name}: ${suggestion}`);
+
+    this.journey = {
+      ...this.journey,
+      missedStop: { detectedAt: this.deps.now(), location, suggestion, acknowledged: false }
+    };
+    this.raiseAlert('missed_stop', distance, estimatedTime, preferences, `You've passed ${leg.destination.name}. ${suggestion}`);
+  }
+
+  // Alarms
+  private silenceAlarm(): void {
+    this.alarmRepeat++;
+    this.deps.notifications.stopLongAlarm();
+  }
+
+  // Repeats the sounding alarm, more insistently each time, until the rider responds
+  private scheduleAlarmRepeat(level: number): void {
+    const repeat = ++this.alarmRepeat;
+    const delay = ALARM_REPEAT_DELAYS[Math.min(level - 1, ALARM_REPEAT_DELAYS.length - 1)];
+
+    this.deps.schedule(() => {
+      const alarm = getSoundingAlarm(this.journey);
+      if (repeat !== this.alarmRepeat || !alarm || this.journey?.snoozedAlarm || !this.isActive()) {
+        return;
+      }
+
+      this.soundAlarm(alarm, level);
+      this.scheduleAlarmRepeat(level + 1);
+    }, delay);
+  }
+
+  private soundAlarm(alarm: Alert, level: number): void {
+    if (alarm.type === 'missed_stop') {
+      this.deps.notifications.showMissedStopAlert(alarm.message, level);
+    } else {
+      this.deps.notifications.showAlarmReminder(alarm, level);
+    }
+  }
+
+  private scheduleSnoozeWake(snoozedAlarm: SnoozedAlarm): void {
+    if (snoozedAlarm.until === undefined) return;
+
+    this.deps.schedule(() => {
+      if (this.journey?.snoozedAlarm === snoozedAlarm) {
+        this.wakeAlarm();
+      }
+    }, Math.max(0, snoozedAlarm.until - this.deps.now()));
+  }
+
+  // The snooze is over: the alarm sounds again straight away and carries on repeating
+  private wakeAlarm(): void {
+    const alarm = getSoundingAlarm(this.journey);
+    if (!this.journey || !this.isActive()) return;
+
+    this.journey = { ...this.journey, snoozedAlarm: undefined };
+    this.persist();
+    this.emitChange();
+
+    if (alarm) {
+      console.log('Snooze over, sounding the alarm again');
+      this.soundAlarm(alarm, 1);
+      this.scheduleAlarmRepeat(2);
+    }
+  }
+
+  // Picks an unanswered alarm back up after a restore or resume
+  private rearmAlarm(): void {
+    if (!getSoundingAlarm(this.journey)) return;
+
+    const snoozedAlarm = this.journey?.snoozedAlarm;
+    if (snoozedAlarm) {
+      this.scheduleSnoozeWake(snoozedAlarm);
+    } else {
+      this.scheduleAlarmRepeat(1);
+    }
+  }
+
+  // Asks the routing provider for any leg without a route, each from the end of the leg before
+  private async fetchMissingRoutes(startLocation: Location): Promise<void> {
+    if (!this.journey) return;
+
+    const journeyId = this.journey.id;
+    const legs = getJourneyLegs(this.journey);
+
+    for (let index = 0; index < legs.length; index++) {
+      const leg = legs[index];
+      if (leg.route) continue;
+
+      const from = index === 0 ? startLocation : legs[index - 1].destination.location;
+      try {
+        const route = await this.deps.routing.getRoute(from, leg.destination.location, leg.transportMode);
+        // The journey may have finished or been replaced while the request was in flight
+        if (!route || this.journey?.id !== journeyId || !RESUMABLE_STATUSES.includes(this.status)) continue;
+        this.attachRoute(index, route);
+      } catch (error) {
+        console.warn(`No route for leg ${index + 1}, using straight-line distance:`, error);
+      }
+    }
+  }
+
+  private attachRoute(legIndex: number, route: Route): void {
+    if (!this.journey) return;
+
+    this.journey = this.journey.legs
+      ? { ...this.journey, legs: this.journey.legs.map((leg, i) => (i === legIndex ? { ...leg, route } : leg)) }
+      : { ...this.journey, route };
+
+    if (legIndex === getCurrentLegIndex(this.journey)) {
+      this.routeDistanceAlong = null;
+    }
+    this.persist();
+    this.emitChange();
+  }
+
+  // Remaining distance along the leg's route, or straight-line when there is none or the position is off it
+  private measureDistance(leg: JourneyLeg, location: Location): number {
+    const progress = leg.route
+      ? getRouteProgress(leg.route, leg.destination.location, location, this.routeDistanceAlong)
+      : null;
+
+    if (!progress) {
+      return calculateDistance(location, leg.destination.location);
+    }
+    this.routeDistanceAlong = progress.distanceAlong;
+    return progress.remaining;
+  }
+
+  // Stops left on the ride, or null while the position is off its shape
+  private countStopsRemaining(ride: TransitRide, location: Location): number | null {
+    const progress = getRideProgress(ride, location, this.rideDistanceAlong);
+    if (!progress) return null;
+
+    this.rideDistanceAlong = progress.distanceAlong;
+    return progress.stopsRemaining;
+  }
+
+  private advanceLeg(): void {
+    if (!this.journey?.legs) return;
+
+    const index = getCurrentLegIndex(this.journey);
+    const next = index + 1;
+    const now = this.deps.now();
+    const nextLeg = this.journey.legs[next];
+    this.routeDistanceAlong = null;
+    this.rideDistanceAlong = null;
+    this.closestDistance = null;
+
+    console.log(`Leg ${next + 1} of ${this.journey.legs.length}: ${nextLeg.transportMode} to ${nextLeg.destination.name}`);
+
+    this.journey = {
+      ...this.journey,
+      currentLeg: next,
+      legs: this.journey.legs.map((leg, i) => {
+        if (i === index) return { ...leg, endTime: now };
+        if (i === next) return { ...leg, startTime: now };
+        return leg;
+      }),
+      distance: this.currentLocation ? this.measureDistance(nextLeg, this.currentLocation) : undefined,
+      estimatedArrival: undefined,
+      stopsRemaining: undefined,
+      arrivalPendingSince: undefined,
+      missedStop: undefined
+    };
+
+    // Alerts, speed history and the background cadence all start over for the new leg
+    this.alertedTypes = new Set();
+    this.etaEstimator.reset(nextLeg.transportMode);
+    if (this.currentLocation) {
+      this.etaEstimator.addPosition(this.currentLocation);
+    }
+    this.deps.location.updateBackgroundDestination(nextLeg.destination.location, nextLeg.transportMode);
+    this.deps.location.setTrackingMode(this.getTrackingMode(null));
+
+    this.emit('legChange', { leg: next, journey: this.journey });
+    if (this.status === 'approaching') {
+      this.transition('tracking');
+    } else {
+      this.persist();
+      this.emitChange();
+    }
+  }
+
+  private raiseAlert(
+    alertType: Exclude<AlertType, 'emergency'>,
+    distance: number,
+    estimatedTime: number,
+    preferences: UserPreferences,
+    message?: string
+  ): void {
+    if (!this.journey || this.alertedTypes.has(alertType)) return;
+
+    console.log(`🚨 Triggering ${alertType} alert at ${distance}m`);
+
+    // Stamp alerts with the fix time so they line up with the recorded track,
+    // including when positions come from a simulated clock
+    const timestamp = this.currentLocation?.timestamp ?? this.deps.now();
+    const alert: Alert = {
+      id: `${alertType}_${timestamp}`,
+      type: alertType,
+      message: message ?? getAlertMessage(alertType, distance, estimatedTime),
+      timestamp,
+      distance,
+      location: this.currentLocation ?? undefined,
+      acknowledged: false,
+      leg: this.journey.legs ? getCurrentLegIndex(this.journey) : undefined
+    };
+
+    this.alertedTypes.add(alertType);
+    // A new alert needs its own response, so it also ends any snooze
+    this.journey = { ...this.journey, alerts: [...this.journey.alerts, alert], snoozedAlarm: undefined };
+    this.persist();
+    this.emit('alert', { alert, journey: this.journey });
+
+    // The notifier leaves out whichever of sound, vibration and notification are turned off
+    this.playAlert(alertType, distance, estimatedTime, message);
+    this.scheduleAlarmRepeat(1);
+  }
+
+  // A message replaces the notification's standard wording, e.g. with a stop count
+  private async playAlert(
+    alertType: Exclude<AlertType, 'emergency'>,
+    distance: number,
+    estimatedTime: number,
+    message?: string
+  ): Promise<void> {
+    const arrivalHeld = this.journey?.arrivalPendingSince !== undefined;
+    // Resume audio context before playing sounds
+    await this.deps.notifications.resumeAudioContext();
+
+    switch (alertType) {
+      case 'first_warning':
+      case 'approaching':
+        await this.deps.notifications.showProgressAlert(alertType, distance, estimatedTime, message);
+        break;
+      case 'final_warning':
+        await this.deps.notifications.showFinalAlert(message);
+        break;
+      case 'arrived':
+        // A ride held at the stop needs waking up, not congratulating
+        if (arrivalHeld) {
+          await this.deps.notifications.showFinalAlert(message);
+        } else {
+          await this.deps.notifications.showArrivalAlert();
+        }
+        break;
+      case 'transfer':
+        await this.deps.notifications.showTransferAlert(message ?? getAlertMessage('transfer'));
+        break;
+      case 'missed_stop':
+        await this.deps.notifications.showMissedStopAlert(message ?? getAlertMessage('missed_stop'));
+        break;
+    }
+  }
+}
+
+export const journeyEngine = new JourneyEngine();
+
+export default JourneyEngine;
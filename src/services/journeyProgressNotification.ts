@@ -0,0 +1,85 @@
+import { format } from 'date-fns';
+import { Journey, JourneyStatus } from '@/types';
+import { journeyEngine, JourneyEngine, JourneyEngineState } from '@/services/journeyEngine';
+import { nativeNotifications, NativeNotificationManager } from '@/services/nativeNotifications';
+import { formatDistance } from '@/utils/geolocation';
+import { StorageManager } from '@/utils/storage';
+import { getCurrentLeg } from '@/utils/journeyLegs';
+import { TRANSPORT_ICONS } from '@/utils/journeyHistory';
+import { formatStopsRemaining } from '@/utils/transitRide';
+
+const SHOWN_STATUSES: JourneyStatus[] = ['tracking', 'approaching', 'paused'];
+// Position fixes can come every second; the notification only needs to keep up roughly
+const MIN_UPDATE_INTERVAL = 15000;
+
+const describeProgress = (journey: Journey): string => {
+  if (journey.status === 'paused') return 'Tracking paused';
+  if (journey.missedStop) return `Stop missed · ${journey.missedStop.suggestion}`;
+
+  const parts = [journey.distance !== undefined ? `${formatDistance(journey.distance)} to go` : 'Finding your position'];
+  if (journey.stopsRemaining !== undefined) {
+    parts.push(formatStopsRemaining(journey.stopsRemaining));
+  }
+  if (journey.estimatedArrival) {
+    parts.push(`arriving around ${format(journey.estimatedArrival, 'HH:mm')}`);
+  }
+  return parts.join(' · ');
+};
+
+/**
+ * Keeps an ongoing notification on native builds showing how far the current leg has
+ * left, so progress can be checked from the lock screen without opening the app.
+ */
+export class JourneyProgressNotification {
+  private unsubscribe: (() => void) | null = null;
+  private shown: { title: string; body: string; status: JourneyStatus; at: number } | null = null;
+
+  constructor(
+    private engine: JourneyEngine = journeyEngine,
+    private notifications: NativeNotificationManager = nativeNotifications
+  ) {}
+
+  start(): void {
+    if (!this.notifications.isSupported() || this.unsubscribe) return;
+
+    this.unsubscribe = this.engine.on('change', state => this.update(state));
+    this.update(this.engine.getState());
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.clear();
+  }
+
+  private update({ journey, status }: JourneyEngineState): void {
+    const { visual } = StorageManager.getPreferences().notifications;
+    if (!journey || !SHOWN_STATUSES.includes(status) || !visual) {
+      this.clear();
+      return;
+    }
+
+    const leg = getCurrentLeg(journey);
+    const title = `${TRANSPORT_ICONS[leg.transportMode]} To ${leg.destination.name}`;
+    const body = describeProgress(journey);
+    const now = Date.now();
+
+    if (this.shown) {
+      // A new status or leg shows straight away; distance updates wait their turn
+      const sameStage = this.shown.status === status && this.shown.title === title;
+      if (sameStage && (this.shown.body === body || now - this.shown.at < MIN_UPDATE_INTERVAL)) return;
+    }
+
+    this.shown = { title, body, status, at: now };
+    this.notifications.showOngoing(title, body);
+  }
+
+  private clear(): void {
+    if (!this.shown) return;
+
+    this.shown = null;
+    this.notifications.clearOngoing();
+  }
+}
+
+export const journeyProgressNotification = new JourneyProgressNotification();
@@ -0,0 +1,173 @@
+import { Location, TrackPoint } from '@/types';
+import { calculateDistance } from '@/utils/geolocation';
+import { getTrackPositionAt } from '@/utils/track';
+import { LocationErrorCallback, LocationSource } from '@/services/locationSource';
+
+export interface SimulationOptions {
+  timeMultiplier: number; // simulated seconds per real second
+  updateInterval: number; // real ms between emitted positions
+  accuracy: number; // reported accuracy in meters
+}
+
+export interface SimulationProgress {
+  isRunning: boolean;
+  elapsed: number; // simulated ms since the start of the path
+  duration: number; // simulated ms for the whole path
+  position: Location;
+}
+
+const DEFAULT_OPTIONS: SimulationOptions = {
+  timeMultiplier: 1,
+  updateInterval: 1000,
+  accuracy: 10
+};
+
+// Give untimed points (e.g. a GeoJSON LineString) timestamps for a constant speed
+export const timePath = (points: Location[], speedKmh: number): TrackPoint[] => {
+  const metersPerMs = (speedKmh * 1000) / 3600000;
+  let timestamp = 0;
+
+  return points.map((point, index) => {
+    if (index > 0) {
+      timestamp += calculateDistance(points[index - 1], point) / metersPerMs;
+    }
+    return { lat: point.lat, lng: point.lng, timestamp };
+  });
+};
+
+/**
+ * Location source that plays back a timed path. Positions are emitted on a real-time
+ * interval while the simulated clock advances by the time multiplier, so a 30 minute
+ * ride can be exercised in a minute on a desktop.
+ */
+export class SimulatedLocationSource implements LocationSource {
+  readonly id = 'simulator';
+  private path: TrackPoint[];
+  private options: SimulationOptions;
+  private elapsed = 0;
+  private clockStart = Date.now();
+  private interval: NodeJS.Timeout | null = null;
+  private watchers: Set<(location: Location) => void> = new Set();
+  private progressCallbacks: Set<(progress: SimulationProgress) => void> = new Set();
+
+  constructor(path: TrackPoint[], options: Partial<SimulationOptions> = {}) {
+    if (path.length < 2) {
+      throw new Error('A simulated path needs at least two points');
+    }
+
+    // Normalise timestamps so the path starts at zero
+    const start = path[0].timestamp;
+    this.path = path.map(point => ({ ...point, timestamp: point.timestamp - start }));
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  static fromTrack(points: Location[], fallbackSpeedKmh: number, options: Partial<SimulationOptions> = {}): SimulatedLocationSource {
+    const isTimed = points.every(point => point.timestamp !== undefined)
+      && points.every((point, index) => index === 0 || point.timestamp! > points[index - 1].timestamp!);
+
+    const path = isTimed
+      ? points.map(point => ({ lat: point.lat, lng: point.lng, timestamp: point.timestamp! }))
+      : timePath(points, fallbackSpeedKmh);
+
+    return new SimulatedLocationSource(path, options);
+  }
+
+  static between(from: Location, to: Location, speedKmh: number, options: Partial<SimulationOptions> = {}): SimulatedLocationSource {
+    return new SimulatedLocationSource(timePath([from, to], speedKmh), options);
+  }
+
+  getDuration(): number {
+    return this.path[this.path.length - 1].timestamp;
+  }
+
+  private getPosition(): Location {
+    const point = getTrackPositionAt(this.path, this.elapsed)!;
+    return {
+      lat: point.lat,
+      lng: point.lng,
+      accuracy: this.options.accuracy,
+      timestamp: this.clockStart + this.elapsed
+    };
+  }
+
+  getProgress(): SimulationProgress {
+    return {
+      isRunning: this.interval !== null,
+      elapsed: this.elapsed,
+      duration: this.getDuration(),
+      position: this.getPosition()
+    };
+  }
+
+  setTimeMultiplier(timeMultiplier: number): void {
+    this.options = { ...this.options, timeMultiplier };
+  }
+
+  start(): void {
+    if (this.interval !== null) return;
+
+    this.interval = setInterval(() => this.tick(), this.options.updateInterval);
+    this.emit();
+  }
+
+  pause(): void {
+    if (this.interval !== null) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.notifyProgress();
+  }
+
+  reset(): void {
+    this.pause();
+    this.elapsed = 0;
+    this.clockStart = Date.now();
+    this.emit();
+  }
+
+  private tick(): void {
+    this.elapsed = Math.min(
+      this.getDuration(),
+      this.elapsed + this.options.updateInterval * this.options.timeMultiplier
+    );
+    this.emit();
+
+    if (this.elapsed >= this.getDuration()) {
+      console.log('Location simulation finished');
+      this.pause();
+    }
+  }
+
+  private emit(): void {
+    const position = this.getPosition();
+    this.watchers.forEach(watcher => watcher(position));
+    this.notifyProgress();
+  }
+
+  private notifyProgress(): void {
+    const progress = this.getProgress();
+    this.progressCallbacks.forEach(callback => callback(progress));
+  }
+
+  onProgress(callback: (progress: SimulationProgress) => void): () => void {
+    this.progressCallbacks.add(callback);
+    return () => this.progressCallbacks.delete(callback);
+  }
+
+  async getCurrentPosition(): Promise<Location> {
+    return this.getPosition();
+  }
+
+  watchPosition(onLocation: (location: Location) => void, _onError: LocationErrorCallback): () => void {
+    this.watchers.add(onLocation);
+    return () => this.watchers.delete(onLocation);
+  }
+
+  dispose(): void {
+    this.pause();
+    this.watchers.clear();
+    this.progressCallbacks.clear();
+  }
+}
+
+export default SimulatedLocationSource;
@@ -0,0 +1,119 @@
+import { Geolocation, Position } from '@capacitor/geolocation';
+import { Location } from '@/types';
+
+export type LocationErrorCallback = (error: GeolocationPositionError) => void;
+
+// Where position fixes come from: the device GPS, or a simulator during development
+export interface LocationSource {
+  readonly id: string;
+  getCurrentPosition(options?: PositionOptions): Promise<Location>;
+  // Returns a function that stops the watch
+  watchPosition(
+    onLocation: (location: Location) => void,
+    onError: LocationErrorCallback,
+    options?: PositionOptions
+  ): () => void;
+}
+
+const toLocation = (position: GeolocationPosition | Position): Location => ({
+  lat: position.coords.latitude,
+  lng: position.coords.longitude,
+  accuracy: position.coords.accuracy,
+  timestamp: position.timestamp
+});
+
+export class BrowserLocationSource implements LocationSource {
+  readonly id = 'browser';
+
+  getCurrentPosition(options?: PositionOptions): Promise<Location> {
+    return new Promise((resolve, reject) => {
+      navigator.geolocation.getCurrentPosition(
+        position => resolve(toLocation(position)),
+        reject,
+        options
+      );
+    });
+  }
+
+  watchPosition(
+    onLocation: (location: Location) => void,
+    onError: LocationErrorCallback,
+    options?: PositionOptions
+  ): () => void {
+    const watchId = navigator.geolocation.watchPosition(
+      position => onLocation(toLocation(position)),
+      onError,
+      options
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }
+}
+
+export class CapacitorLocationSource implements LocationSource {
+  readonly id = 'capacitor';
+
+  async getCurrentPosition(options?: PositionOptions): Promise<Location> {
+    const position = await Geolocation.getCurrentPosition(options);
+    return toLocation(position);
+  }
+
+  watchPosition(
+    onLocation: (location: Location) => void,
+    onError: LocationErrorCallback,
+    options?: PositionOptions
+  ): () => void {
+    let cleared = false;
+    const watchIdPromise = Geolocation.watchPosition(options ?? {}, (position, err) => {
+      if (err) {
+        onError(err as GeolocationPositionError);
+        return;
+      }
+      if (position) {
+        onLocation(toLocation(position));
+      }
+    });
+
+    return () => {
+      if (cleared) return;
+      cleared = true;
+      watchIdPromise
+        .then(id => Geolocation.clearWatch({ id }))
+        .catch(error => console.error('Failed to clear location watch:', error));
+    };
+  }
+}
+
+export const browserLocationSource = new BrowserLocationSource();
+export const capacitorLocationSource = new CapacitorLocationSource();
+
+class LocationSourceManager {
+  private override: LocationSource | null = null;
+  private callbacks: Set<(source: LocationSource) => void> = new Set();
+
+  // Source used by the web tracker
+  getSource(): LocationSource {
+    return this.override ?? browserLocationSource;
+  }
+
+  // Source used by the native background tracker
+  getNativeSource(): LocationSource {
+    return this.override ?? capacitorLocationSource;
+  }
+
+  isOverridden(): boolean {
+    return this.override !== null;
+  }
+
+  setSource(source: LocationSource | null): void {
+    this.override = source;
+    console.log(`Location source set to ${this.getSource().id}`);
+    this.callbacks.forEach(callback => callback(this.getSource()));
+  }
+
+  onSourceChange(callback: (source: LocationSource) => void): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+}
+
+export const locationSourceManager = new LocationSourceManager();
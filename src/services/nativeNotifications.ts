@@ -0,0 +1,229 @@
+import { Capacitor, PluginListenerHandle } from '@capacitor/core';
+import { Channel, LocalNotifications } from '@capacitor/local-notifications';
+import { NotificationActionId, NotificationPayload } from '@/types';
+import { isNotificationAction } from '@/services/serviceWorker';
+
+// Native buttons belong to an action type registered up front, not to each notification
+const ALARM_ACTION_TYPE = 'journey-alarm';
+// Bundled in android/app/src/main/res/raw
+const ALARM_SOUND = 'journey_alarm.wav';
+
+// Clear of the ids the commute scheduler uses. A tag always maps to the same id, so a
+// newer notification with the tag replaces the older one instead of stacking.
+const TAGGED_ID_BASE = 42000;
+const UNTAGGED_ID_BASE = 43000;
+const NOTIFICATION_ID_RANGE = 1000;
+const ONGOING_NOTIFICATION_ID = 44000;
+
+const ALARM_CHANNEL = 'journey-alarms';
+const SILENT_ALARM_CHANNEL = 'journey-alarms-silent';
+const UPDATES_CHANNEL = 'journey-updates';
+const PROGRESS_CHANNEL = 'journey-progress';
+
+// Android only lets the user, not the app, change a channel once it exists
+const CHANNELS: Channel[] = [
+  {
+    id: ALARM_CHANNEL,
+    name: 'Stop alarms',
+    description: 'Wake-up alarms as you near your stop, until you respond',
+    importance: 5,
+    visibility: 1,
+    sound: ALARM_SOUND,
+    vibration: true,
+    lights: true,
+    lightColor: '#FF4444'
+  },
+  {
+    // Channels cannot drop their sound per notification, so alarms with sound turned off need their own
+    id: SILENT_ALARM_CHANNEL,
+    name: 'Silent stop alarms',
+    description: 'Stop alarms while alarm sounds are turned off in settings',
+    importance: 2,
+    visibility: 1,
+    vibration: false
+  },
+  {
+    id: UPDATES_CHANNEL,
+    name: 'Journey updates',
+    description: 'Journeys starting, arriving and other news',
+    importance: 3,
+    visibility: 1,
+    vibration: true
+  },
+  {
+    id: PROGRESS_CHANNEL,
+    name: 'Journey progress',
+    description: 'The distance left while a journey is tracked',
+    importance: 2,
+    visibility: 1,
+    vibration: false
+  }
+];
+
+const getTaggedId = (tag: string): number =>
+  TAGGED_ID_BASE + [...tag].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % NOTIFICATION_ID_RANGE, 7);
+
+/**
+ * Shows alert notifications through Capacitor on native builds, where the web
+ * Notification API is missing, and relays their action buttons to the app.
+ * Alarms go to a maximum importance channel so they show heads-up and sound even
+ * when the screen is locked.
+ *
+ * Full-screen alarms over the lock screen are blocked: the plugin cannot attach a
+ * full-screen intent, and the Android project carries no native sources to register a
+ * plugin that posts one with USE_FULL_SCREEN_INTENT. Until then the alarm rings from the
+ * notification and the app opens once the phone is unlocked.
+ */
+export class NativeNotificationManager {
+  private callbacks: Set<(action: NotificationActionId) => void> = new Set();
+  private listener: Promise<PluginListenerHandle> | null = null;
+  private actionTypes: Promise<void> | null = null;
+  private channels: Promise<void> | null = null;
+  private nextId = 0;
+  // An action that launched the app before anything subscribed
+  private pendingAction: NotificationActionId | null = null;
+
+  isSupported(): boolean {
+    return Capacitor.isNativePlatform();
+  }
+
+  start(): void {
+    if (!this.isSupported() || this.listener) return;
+
+    this.createChannels();
+
+    this.listener = LocalNotifications.addListener('localNotificationActionPerformed', ({ actionId, notification }) => {
+      if (notification.actionTypeId === ALARM_ACTION_TYPE && isNotificationAction(actionId)) {
+        this.dispatch(actionId);
+      }
+    });
+  }
+
+  stop(): void {
+    this.listener?.then(handle => handle.remove());
+    this.listener = null;
+  }
+
+  async requestPermission(): Promise<boolean> {
+    try {
+      const permission = await LocalNotifications.checkPermissions();
+      if (permission.display === 'granted') return true;
+      return (await LocalNotifications.requestPermissions()).display === 'granted';
+    } catch (error) {
+      console.error('Failed to request notification permission:', error);
+      return false;
+    }
+  }
+
+  // Notifications with actions are alarms; the rest are plain journey updates
+  async show(payload: NotificationPayload, silent = false): Promise<void> {
+    const isAlarm = !!payload.actions?.length;
+    const alarmChannel = silent ? SILENT_ALARM_CHANNEL : ALARM_CHANNEL;
+
+    try {
+      await this.createChannels();
+      if (isAlarm) {
+        await this.registerActionTypes(payload.actions);
+      }
+
+      await LocalNotifications.schedule({
+        notifications: [{
+          id: payload.tag ? getTaggedId(payload.tag) : UNTAGGED_ID_BASE + (this.nextId++ % NOTIFICATION_ID_RANGE),
+          title: payload.title,
+          body: payload.body,
+          channelId: isAlarm ? alarmChannel : UPDATES_CHANNEL,
+          // For Android versions before channels
+          sound: isAlarm && !silent ? ALARM_SOUND : undefined,
+          actionTypeId: isAlarm ? ALARM_ACTION_TYPE : undefined,
+          autoCancel: !payload.requireInteraction,
+          extra: { tag: payload.tag }
+        }]
+      });
+    } catch (error) {
+      console.error('Failed to show native notification:', error);
+    }
+  }
+
+  // A single notification that stays put while a journey is tracked, updated in place
+  async showOngoing(title: string, body: string): Promise<void> {
+    try {
+      await this.createChannels();
+      await LocalNotifications.schedule({
+        notifications: [{
+          id: ONGOING_NOTIFICATION_ID,
+          title,
+          body,
+          channelId: PROGRESS_CHANNEL,
+          ongoing: true,
+          autoCancel: false,
+          silent: true
+        }]
+      });
+    } catch (error) {
+      console.error('Failed to show ongoing notification:', error);
+    }
+  }
+
+  async clearOngoing(): Promise<void> {
+    try {
+      await LocalNotifications.cancel({ notifications: [{ id: ONGOING_NOTIFICATION_ID }] });
+    } catch (error) {
+      console.error('Failed to clear ongoing notification:', error);
+    }
+  }
+
+  onNotificationAction(callback: (action: NotificationActionId) => void): () => void {
+    this.callbacks.add(callback);
+
+    if (this.pendingAction) {
+      const action = this.pendingAction;
+      this.pendingAction = null;
+      callback(action);
+    }
+
+    return () => this.callbacks.delete(callback);
+  }
+
+  // Channels only exist on Android 8 and later; elsewhere the sound and importance are per notification
+  private createChannels(): Promise<void> {
+    if (Capacitor.getPlatform() !== 'android') return Promise.resolve();
+
+    this.channels ??= Promise.all(CHANNELS.map(channel => LocalNotifications.createChannel(channel)))
+      .then(() => undefined)
+      .catch(error => {
+        this.channels = null;
+        console.error('Failed to create notification channels:', error);
+      });
+    return this.channels;
+  }
+
+  // Every alarm offers the same buttons, so the first set shown is registered once
+  private registerActionTypes(actions: NonNullable<NotificationPayload['actions']>): Promise<void> {
+    this.actionTypes ??= LocalNotifications.registerActionTypes({
+      types: [{
+        id: ALARM_ACTION_TYPE,
+        actions: actions.map(({ action, title }) => ({
+          id: action,
+          title,
+          foreground: true,
+          destructive: action === 'end_journey'
+        }))
+      }]
+    }).catch(error => {
+      this.actionTypes = null;
+      throw error;
+    });
+    return this.actionTypes;
+  }
+
+  private dispatch(action: NotificationActionId): void {
+    console.log('Native notification action:', action);
+    if (this.callbacks.size === 0) {
+      this.pendingAction = action;
+      return;
+    }
+    this.callbacks.forEach(callback => callback(action));
+  }
+}
+
+export const nativeNotifications = new NativeNotificationManager();
@@ -0,0 +1,101 @@
+import { Preferences } from '@capacitor/preferences';
+import { Journey } from '@/types';
+import { JourneyQuery, StorageAdapter, matchesJourneyQuery } from '@/services/storageAdapter';
+
+const GROUP = 'SmartTransit';
+const JOURNEY_PREFIX = 'smart_transit_journey:';
+const JOURNEY_INDEX_KEY = 'smart_transit_journey_index';
+
+// Enough of each journey to answer queries without loading its track
+interface JourneyIndexEntry {
+  id: string;
+  startTime: number;
+  destinationId: string;
+}
+
+const toIndexEntry = (journey: Journey): JourneyIndexEntry => ({
+  id: journey.id,
+  startTime: journey.startTime,
+  destinationId: journey.destination.id
+});
+
+/**
+ * Native persistence through Capacitor Preferences (SharedPreferences / UserDefaults),
+ * which the OS does not evict the way it can evict WebView storage. Journeys are stored
+ * one per key alongside a small index used for date and destination queries.
+ * StorageManager serialises writes, so the index is never updated concurrently.
+ */
+export class PreferencesStorageAdapter implements StorageAdapter {
+  readonly name = 'capacitorPreferences';
+  private index: JourneyIndexEntry[] = [];
+
+  async open(): Promise<void> {
+    await Preferences.configure({ group: GROUP });
+    const stored = await this.get(JOURNEY_INDEX_KEY);
+    this.index = Array.isArray(stored) ? stored : [];
+  }
+
+  async get(key: string): Promise<unknown> {
+    const { value } = await Preferences.get({ key });
+    if (value === null) return undefined;
+
+    try {
+      return JSON.parse(value);
+    } catch {
+      // Hand back the raw text so validation can quarantine it
+      return value;
+    }
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await Preferences.set({ key, value: JSON.stringify(value) });
+  }
+
+  async remove(key: string): Promise<void> {
+    await Preferences.remove({ key });
+  }
+
+  private async saveIndex(index: JourneyIndexEntry[]): Promise<void> {
+    this.index = [...index].sort((a, b) => b.startTime - a.startTime);
+    await this.set(JOURNEY_INDEX_KEY, this.index);
+  }
+
+  async getJourneys(query: JourneyQuery = {}): Promise<Journey[]> {
+    const entries = this.index
+      .filter(entry => matchesJourneyQuery(query, entry.startTime, entry.destinationId))
+      .slice(0, query.limit);
+
+    const journeys = await Promise.all(entries.map(entry => this.get(`${JOURNEY_PREFIX}${entry.id}`)));
+    return journeys.filter(journey => journey !== undefined) as Journey[];
+  }
+
+  async putJourney(journey: Journey): Promise<void> {
+    await this.set(`${JOURNEY_PREFIX}${journey.id}`, journey);
+    await this.saveIndex([toIndexEntry(journey), ...this.index.filter(entry => entry.id !== journey.id)]);
+  }
+
+  async deleteJourneys(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await Promise.all(ids.map(id => this.remove(`${JOURNEY_PREFIX}${id}`)));
+    await this.saveIndex(this.index.filter(entry => !ids.includes(entry.id)));
+  }
+
+  async replaceJourneys(journeys: Journey[]): Promise<void> {
+    const keep = new Set(journeys.map(journey => journey.id));
+    await Promise.all(
+      this.index
+        .filter(entry => !keep.has(entry.id))
+        .map(entry => this.remove(`${JOURNEY_PREFIX}${entry.id}`))
+    );
+    await Promise.all(journeys.map(journey => this.set(`${JOURNEY_PREFIX}${journey.id}`, journey)));
+    await this.saveIndex(journeys.map(toIndexEntry));
+  }
+
+  async clear(): Promise<void> {
+    await Preferences.clear();
+    this.index = [];
+  }
+}
+
+export default PreferencesStorageAdapter;
@@ -0,0 +1,166 @@
+import { Location, Route, RoutingEngine, TransportMode, UserPreferences } from '@/types';
+import { decodePolyline } from '@/utils/polyline';
+
+export type RoutingSettings = UserPreferences['routing'];
+
+export const DEFAULT_ROUTING_URLS: Record<RoutingEngine, string> = {
+  osrm: 'https://router.project-osrm.org',
+  valhalla: 'https://valhalla1.openstreetmap.de'
+};
+
+const REQUEST_TIMEOUT = 10000;
+
+export class RoutingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoutingError';
+  }
+}
+
+export interface RoutingProvider {
+  readonly name: string;
+  // Null when the provider cannot route this mode, e.g. rail
+  getRoute(from: Location, to: Location, transportMode: TransportMode): Promise<Route | null>;
+}
+
+const trimSlash = (url: string): string => url.replace(/\/+$/, '');
+
+const fetchJson = async (url: string, init: RequestInit = {}): Promise<unknown> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      throw new RoutingError(`Routing request failed: ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    if (error instanceof RoutingError) throw error;
+    throw new RoutingError(controller.signal.aborted ? 'Routing request timed out' : 'Routing server unreachable');
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// OSRM profile names; the public demo server only serves driving, a local instance may serve more
+const OSRM_PROFILES: Record<TransportMode, string | null> = {
+  car: 'driving',
+  bus: 'driving',
+  walk: 'foot',
+  train: null
+};
+
+interface OsrmResponse {
+  code: string;
+  message?: string;
+  routes?: { geometry: string; distance: number; duration: number }[];
+}
+
+export class OsrmRoutingProvider implements RoutingProvider {
+  readonly name = 'OSRM';
+
+  constructor(private baseUrl: string = DEFAULT_ROUTING_URLS.osrm) {}
+
+  async getRoute(from: Location, to: Location, transportMode: TransportMode): Promise<Route | null> {
+    const profile = OSRM_PROFILES[transportMode];
+    if (!profile) return null;
+
+    const coordinates = `${from.lng},${from.lat};${to.lng},${to.lat}`;
+    const url = `${trimSlash(this.baseUrl)}/route/v1/${profile}/${coordinates}?` + new URLSearchParams({
+      overview: 'full',
+      geometries: 'polyline6'
+    });
+
+    const data = await fetchJson(url) as OsrmResponse;
+    if (data.code !== 'Ok' || !data.routes?.length) {
+      // NoRoute and similar mean the server answered but found nothing
+      if (data.code === 'NoRoute') return null;
+      throw new RoutingError(data.message || `OSRM error: ${data.code}`);
+    }
+
+    const [route] = data.routes;
+    return {
+      points: decodePolyline(route.geometry, 6),
+      distance: route.distance,
+      duration: route.duration * 1000,
+      polyline: route.geometry,
+      source: 'routing'
+    };
+  }
+}
+
+// Valhalla costing models
+const VALHALLA_COSTING: Record<TransportMode, string | null> = {
+  car: 'auto',
+  bus: 'bus',
+  walk: 'pedestrian',
+  train: null
+};
+
+interface ValhallaResponse {
+  trip?: {
+    legs: { shape: string }[];
+    summary: { length: number; time: number }; // km, seconds
+  };
+  error?: string;
+  error_code?: number;
+}
+
+export class ValhallaRoutingProvider implements RoutingProvider {
+  readonly name = 'Valhalla';
+
+  constructor(private baseUrl: string = DEFAULT_ROUTING_URLS.valhalla) {}
+
+  async getRoute(from: Location, to: Location, transportMode: TransportMode): Promise<Route | null> {
+    const costing = VALHALLA_COSTING[transportMode];
+    if (!costing) return null;
+
+    const data = await fetchJson(`${trimSlash(this.baseUrl)}/route`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        locations: [{ lat: from.lat, lon: from.lng }, { lat: to.lat, lon: to.lng }],
+        costing,
+        directions_options: { units: 'kilometers' }
+      })
+    }) as ValhallaResponse;
+
+    if (!data.trip) {
+      throw new RoutingError(data.error || 'Valhalla returned no trip');
+    }
+
+    // One origin and one destination make a single leg
+    const [leg] = data.trip.legs;
+    return {
+      points: decodePolyline(leg.shape, 6),
+      distance: data.trip.summary.length * 1000,
+      duration: data.trip.summary.time * 1000,
+      polyline: leg.shape,
+      source: 'routing'
+    };
+  }
+}
+
+export const createRoutingProvider = (engine: RoutingEngine, baseUrl: string): RoutingProvider =>
+  engine === 'valhalla' ? new ValhallaRoutingProvider(baseUrl) : new OsrmRoutingProvider(baseUrl);
+
+/**
+ * Routes with whichever provider the settings currently name. Settings are read on every
+ * request so changes take effect without restarting the app.
+ */
+export class RoutingService {
+  constructor(private getSettings: () => RoutingSettings) {}
+
+  async getRoute(from: Location, to: Location, transportMode: TransportMode): Promise<Route | null> {
+    const settings = this.getSettings();
+    if (!settings.enabled) return null;
+
+    const provider = createRoutingProvider(settings.engine, settings.baseUrl);
+    const route = await provider.getRoute(from, to, transportMode);
+    if (route) {
+      console.log(`${provider.name} route for ${transportMode}: ${Math.round(route.distance)}m, ${route.points.length} points`);
+    }
+    return route;
+  }
+}
@@ -0,0 +1,83 @@
+import { Capacitor } from '@capacitor/core';
+import { NotificationActionId } from '@/types';
+
+const SERVICE_WORKER_URL = '/sw.js';
+// Set by the service worker when a notification action opens a new window
+const ACTION_PARAM = 'notificationAction';
+const NOTIFICATION_ACTIONS: NotificationActionId[] = ['silence_alarm', 'snooze_alarm', 'end_journey'];
+
+export const isNotificationAction = (value: unknown): value is NotificationActionId =>
+  NOTIFICATION_ACTIONS.includes(value as NotificationActionId);
+
+/**
+ * Registers the web build's service worker and relays notification actions from it.
+ * Native builds get neither: notifications there go through Capacitor.
+ */
+export class ServiceWorkerManager {
+  private registration: ServiceWorkerRegistration | null = null;
+  private callbacks: Set<(action: NotificationActionId) => void> = new Set();
+  // An action that launched the app before anything subscribed
+  private pendingAction: NotificationActionId | null = null;
+
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'serviceWorker' in navigator && !Capacitor.isNativePlatform();
+  }
+
+  async register(): Promise<void> {
+    if (!this.isSupported()) return;
+
+    this.takeLaunchAction();
+    navigator.serviceWorker.addEventListener('message', event => {
+      if (event.data?.type === 'notification-action' && isNotificationAction(event.data.action)) {
+        this.dispatch(event.data.action);
+      }
+    });
+
+    try {
+      this.registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      console.log('Service worker registered');
+    } catch (error) {
+      console.error('Service worker registration failed:', error);
+    }
+  }
+
+  // The registration once its worker is running, or null to fall back to page notifications
+  getRegistration(): ServiceWorkerRegistration | null {
+    return this.registration?.active ? this.registration : null;
+  }
+
+  onNotificationAction(callback: (action: NotificationActionId) => void): () => void {
+    this.callbacks.add(callback);
+
+    if (this.pendingAction) {
+      const action = this.pendingAction;
+      this.pendingAction = null;
+      callback(action);
+    }
+
+    return () => this.callbacks.delete(callback);
+  }
+
+  private dispatch(action: NotificationActionId): void {
+    console.log('Notification action:', action);
+    if (this.callbacks.size === 0) {
+      this.pendingAction = action;
+      return;
+    }
+    this.callbacks.forEach(callback => callback(action));
+  }
+
+  private takeLaunchAction(): void {
+    const url = new URL(window.location.href);
+    const action = url.searchParams.get(ACTION_PARAM);
+    if (!action) return;
+
+    url.searchParams.delete(ACTION_PARAM);
+    window.history.replaceState(window.history.state, '', url.toString());
+    if (isNotificationAction(action)) {
+      this.dispatch(action);
+    }
+  }
+}
+
+export const serviceWorkerManager = new ServiceWorkerManager();
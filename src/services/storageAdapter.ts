@@ -0,0 +1,90 @@
+import { Journey } from '@/types';
+import { STORAGE_KEYS } from '@/utils/storageSchema';
+
+export interface JourneyQuery {
+  from?: number; // earliest startTime, inclusive
+  to?: number; // latest startTime, inclusive
+  destinationId?: string;
+  limit?: number;
+}
+
+/**
+ * Async persistence backend for StorageManager. Settings-like records live in a
+ * key-value area; journeys are stored one record each so that adding a journey does not
+ * rewrite the whole history, and can be queried by start time and destination.
+ * Journeys are always returned newest first.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  open(): Promise<void>;
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
+  getJourneys(query?: JourneyQuery): Promise<Journey[]>;
+  putJourney(journey: Journey): Promise<void>;
+  deleteJourneys(ids: string[]): Promise<void>;
+  replaceJourneys(journeys: Journey[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export const matchesJourneyQuery = (query: JourneyQuery, startTime: number, destinationId: string): boolean =>
+  (query.from === undefined || startTime >= query.from)
+  && (query.to === undefined || startTime <= query.to)
+  && (query.destinationId === undefined || destinationId === query.destinationId);
+
+export const sortNewestFirst = (journeys: Journey[]): Journey[] =>
+  [...journeys].sort((a, b) => b.startTime - a.startTime);
+
+// Fallback when IndexedDB is unavailable (e.g. some private browsing modes)
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage';
+
+  async open(): Promise<void> {
+    // Nothing to open
+  }
+
+  async get(key: string): Promise<unknown> {
+    const stored = localStorage.getItem(key);
+    if (stored === null) return undefined;
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      // Hand back the raw text so validation can quarantine it
+      return stored;
+    }
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    localStorage.setItem(key, JSON.stringify(value));
+  }
+
+  async remove(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  async getJourneys(query: JourneyQuery = {}): Promise<Journey[]> {
+    const stored = await this.get(STORAGE_KEYS.JOURNEY_HISTORY);
+    const journeys = Array.isArray(stored) ? stored as Journey[] : [];
+    return sortNewestFirst(journeys.filter(journey => matchesJourneyQuery(query, journey?.startTime, journey?.destination?.id)))
+      .slice(0, query.limit);
+  }
+
+  async putJourney(journey: Journey): Promise<void> {
+    const journeys = await this.getJourneys();
+    await this.replaceJourneys([journey, ...journeys.filter(j => j.id !== journey.id)]);
+  }
+
+  async deleteJourneys(ids: string[]): Promise<void> {
+    const journeys = await this.getJourneys();
+    await this.replaceJourneys(journeys.filter(journey => !ids.includes(journey.id)));
+  }
+
+  async replaceJourneys(journeys: Journey[]): Promise<void> {
+    await this.set(STORAGE_KEYS.JOURNEY_HISTORY, sortNewestFirst(journeys));
+  }
+
+  async clear(): Promise<void> {
+    Object.values(STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+  }
+}
@@ -0,0 +1,255 @@
+import { Location, MapBounds, OfflineMapArea } from '@/types';
+import { StorageManager } from '@/utils/storage';
+
+// Single host without subdomains, so cached tiles are found whichever URL the map asks for
+export const TILE_URL_TEMPLATE = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const MIN_OFFLINE_ZOOM = 10;
+export const MAX_OFFLINE_ZOOM = 17;
+
+const CACHE_NAME = 'smart-transit-tiles-v1';
+// OpenStreetMap's tile policy discourages bulk downloads, so areas are kept small
+export const MAX_TILES_PER_AREA = 3000;
+export const MAX_CACHE_BYTES = 150 * 1024 * 1024;
+// Typical size of a street-level PNG tile, for estimates before downloading
+export const AVERAGE_TILE_BYTES = 20 * 1024;
+const DOWNLOAD_CONCURRENCY = 2;
+// Margin around the corridor, in meters
+const CORRIDOR_PADDING = 500;
+
+export class TileCacheError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TileCacheError';
+  }
+}
+
+export interface TileCoordinate {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface DownloadProgress {
+  done: number;
+  total: number;
+  bytes: number;
+}
+
+export const getTileUrl = ({ x, y, z }: TileCoordinate): string =>
+  TILE_URL_TEMPLATE.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+
+const toTileX = (lng: number, z: number): number => Math.floor(((lng + 180) / 360) * 2 ** z);
+
+const toTileY = (lat: number, z: number): number => {
+  const latRad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * 2 ** z);
+};
+
+// Every tile covering the bounds at each zoom level in the range
+export const getTilesInBounds = (bounds: MapBounds, minZoom: number, maxZoom: number): TileCoordinate[] => {
+  const tiles: TileCoordinate[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const [minX, maxX] = [toTileX(bounds.west, z), toTileX(bounds.east, z)];
+    const [minY, maxY] = [toTileY(bounds.north, z), toTileY(bounds.south, z)];
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        tiles.push({ x, y, z });
+      }
+    }
+  }
+  return tiles;
+};
+
+export const countTilesInBounds = (bounds: MapBounds, minZoom: number, maxZoom: number): number => {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const columns = toTileX(bounds.east, z) - toTileX(bounds.west, z) + 1;
+    const rows = toTileY(bounds.south, z) - toTileY(bounds.north, z) + 1;
+    count += columns * rows;
+  }
+  return count;
+};
+
+// Bounding box around every point, padded so the map around the line is covered too
+export const getCorridorBounds = (points: Location[], padding: number = CORRIDOR_PADDING): MapBounds => {
+  const lats = points.map(point => point.lat);
+  const lngs = points.map(point => point.lng);
+  const latPadding = padding / 111320;
+  const midLat = (Math.max(...lats) + Math.min(...lats)) / 2;
+  const lngPadding = padding / (111320 * Math.cos((midLat * Math.PI) / 180));
+
+  return {
+    north: Math.min(85, Math.max(...lats) + latPadding),
+    south: Math.max(-85, Math.min(...lats) - latPadding),
+    east: Math.min(180, Math.max(...lngs) + lngPadding),
+    west: Math.max(-180, Math.min(...lngs) - lngPadding)
+  };
+};
+
+/**
+ * Keeps map tiles for offline use in Cache Storage. Areas are downloaded on request
+ * and their totals recorded in StorageManager, which is what the size limit is
+ * checked against; tiles shared by overlapping areas are stored and counted once.
+ */
+class TileCache {
+  isSupported(): boolean {
+    return typeof caches !== 'undefined';
+  }
+
+  private open(): Promise<Cache> {
+    if (!this.isSupported()) {
+      throw new TileCacheError('Offline maps are not supported on this device');
+    }
+    return caches.open(CACHE_NAME);
+  }
+
+  getAreas(): OfflineMapArea[] {
+    return StorageManager.getOfflineAreas();
+  }
+
+  getUsedBytes(): number {
+    return this.getAreas().reduce((total, area) => total + area.bytes, 0);
+  }
+
+  // An object URL for a cached tile, or null to load it from the network
+  async getCachedTileUrl(url: string): Promise<string | null> {
+    if (!this.isSupported()) return null;
+
+    try {
+      const cache = await this.open();
+      const response = await cache.match(url);
+      return response ? URL.createObjectURL(await response.blob()) : null;
+    } catch (error) {
+      console.error('Failed to read cached tile:', error);
+      return null;
+    }
+  }
+
+  async downloadArea(
+    area: Pick<OfflineMapArea, 'name' | 'destinationId' | 'bounds' | 'minZoom' | 'maxZoom'>,
+    onProgress?: (progress: DownloadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<OfflineMapArea> {
+    const tiles = getTilesInBounds(area.bounds, area.minZoom, area.maxZoom);
+    if (tiles.length > MAX_TILES_PER_AREA) {
+      throw new TileCacheError(`That area needs ${tiles.length} tiles; lower the zoom to stay under ${MAX_TILES_PER_AREA}`);
+    }
+
+    const budget = MAX_CACHE_BYTES - this.getUsedBytes();
+    if (tiles.length * AVERAGE_TILE_BYTES > budget) {
+      throw new TileCacheError('Not enough offline map storage left; delete an area first');
+    }
+
+    const cache = await this.open();
+    const progress: DownloadProgress = { done: 0, total: tiles.length, bytes: 0 };
+    const queue = [...tiles];
+
+    // The first failure stops every worker; tiles already fetched are cleaned up below
+    let failure: unknown = null;
+    const worker = async () => {
+      for (let tile = queue.shift(); tile && !failure && !signal?.aborted; tile = queue.shift()) {
+        try {
+          const url = getTileUrl(tile);
+          // A tile another area already keeps is counted there, so only new ones use up the budget
+          if (!await cache.match(url)) {
+            const response = await fetch(url, { signal });
+            if (!response.ok) {
+              throw new TileCacheError(`Tile server error: ${response.status}`);
+            }
+
+            const blob = await response.blob();
+            await cache.put(url, new Response(blob, { headers: { 'Content-Type': blob.type || 'image/png' } }));
+            progress.bytes += blob.size;
+            if (progress.bytes > budget) {
+              throw new TileCacheError('Offline map storage is full; delete an area first');
+            }
+          }
+
+          progress.done++;
+          onProgress?.({ ...progress });
+        } catch (error) {
+          failure = failure ?? error;
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+
+    if (failure || signal?.aborted) {
+      // Leave no half-downloaded tiles behind that no area accounts for
+      await this.removeUnusedTiles(cache, this.getAreas());
+      if (failure instanceof TileCacheError) throw failure;
+      if (signal?.aborted) throw new TileCacheError('Download cancelled');
+      console.error('Tile download failed:', failure);
+      throw new TileCacheError('Could not download map tiles; check your connection');
+    }
+
+    const saved: OfflineMapArea = {
+      ...area,
+      id: `area_${Date.now()}`,
+      tileCount: tiles.length,
+      bytes: progress.bytes,
+      downloadedAt: Date.now()
+    };
+    StorageManager.saveOfflineAreas([...this.getAreas(), saved]);
+    console.log(`Downloaded ${tiles.length} tiles (${Math.round(progress.bytes / 1024)}KB) for ${area.name}`);
+    return saved;
+  }
+
+  async deleteArea(id: string): Promise<void> {
+    const areas = this.getAreas();
+    const deleted = areas.find(area => area.id === id);
+    let remaining = areas.filter(area => area.id !== id);
+    if (!deleted || !this.isSupported()) {
+      StorageManager.saveOfflineAreas(remaining);
+      return;
+    }
+
+    const cache = await this.open();
+    remaining = await this.handOverSharedTiles(cache, areas, deleted);
+    StorageManager.saveOfflineAreas(remaining);
+    await this.removeUnusedTiles(cache, remaining);
+  }
+
+  async clear(): Promise<void> {
+    StorageManager.saveOfflineAreas([]);
+    if (this.isSupported()) {
+      await caches.delete(CACHE_NAME);
+    }
+  }
+
+  /**
+   * A shared tile is counted by the earliest area covering it, which is the one that
+   * downloaded it. When that area goes, the next one covering the tile takes it over.
+   */
+  private async handOverSharedTiles(cache: Cache, areas: OfflineMapArea[], deleted: OfflineMapArea): Promise<OfflineMapArea[]> {
+    const deletedIndex = areas.indexOf(deleted);
+    const covered = areas.map(area => new Set(getTilesInBounds(area.bounds, area.minZoom, area.maxZoom).map(getTileUrl)));
+    const handedOver = new Map<number, number>();
+
+    for (const url of covered[deletedIndex]) {
+      if (covered.slice(0, deletedIndex).some(tiles => tiles.has(url))) continue;
+
+      const heir = covered.findIndex((tiles, index) => index > deletedIndex && tiles.has(url));
+      const response = heir === -1 ? undefined : await cache.match(url);
+      if (response) {
+        handedOver.set(heir, (handedOver.get(heir) ?? 0) + (await response.blob()).size);
+      }
+    }
+
+    return areas
+      .map((area, index) => (handedOver.has(index) ? { ...area, bytes: area.bytes + handedOver.get(index)! } : area))
+      .filter(area => area.id !== deleted.id);
+  }
+
+  // Deletes cached tiles that none of the given areas cover
+  private async removeUnusedTiles(cache: Cache, areas: OfflineMapArea[]): Promise<void> {
+    const kept = new Set(
+      areas.flatMap(area => getTilesInBounds(area.bounds, area.minZoom, area.maxZoom).map(getTileUrl))
+    );
+    const requests = await cache.keys();
+    await Promise.all(requests.filter(request => !kept.has(request.url)).map(request => cache.delete(request)));
+  }
+}
+
+export const tileCache = new TileCache();
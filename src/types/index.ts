@@ -5,6 +5,14 @@ export interface Location {
   timestamp?: number;
 }
 
+// Recorded position along a journey; coordinates are rounded to keep history compact
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  accuracy?: number;
+  timestamp: number;
+}
+
 export interface Destination {
   id: string;
   name: string;
@@ -14,6 +22,7 @@ export interface Destination {
   isFavorite?: boolean;
   lastUsed?: number;
   distance?: number; // Distance from current location in meters
+  transit?: TransitRide; // Set when picked as a stop on a transit route
 }
 
 export interface Journey {
@@ -25,18 +34,57 @@ export interface Journey {
   status: JourneyStatus;
   startLocation?: Location;
   currentLocation?: Location;
-  route?: Route;
+  route?: Route; // Single-destination journeys; each leg of a multi-stop journey has its own
+  track?: TrackPoint[];
   alerts: Alert[];
   distance?: number;
   estimatedArrival?: number;
   actualArrival?: number;
+  alertRules?: AlertRules; // Overrides the preferences for this journey
+  commuteId?: string; // Set when started from a commute schedule
+  legs?: JourneyLeg[]; // Multi-stop journeys only; destination is the last leg's
+  currentLeg?: number;
+  stopsRemaining?: number; // Transit rides only, while the position is on the route
+  arrivalPendingSince?: number; // Riding through the arrival radius, waiting for the rider to confirm
+  missedStop?: MissedStop; // Set when the current leg's stop was passed
+  snoozedAlarm?: SnoozedAlarm; // The sounding alarm, put off for a while
+}
+
+// How long to put a sounding alarm off for: some minutes, or until this close to the stop
+export type SnoozeOption = { type: 'minutes'; minutes: number } | { type: 'distance'; distance: number };
+
+export interface SnoozedAlarm {
+  alertId: string;
+  until?: number; // sounds again at this time
+  distance?: number; // or once within this many metres of the stop
+}
+
+export interface MissedStop {
+  detectedAt: number;
+  location: Location;
+  suggestion: string; // How to get back, e.g. a stop on a route running the other way
+  acknowledged: boolean;
+}
+
+// One stretch of a multi-stop journey, ending at a transfer point or the final destination
+export interface JourneyLeg {
+  destination: Destination;
+  transportMode: TransportMode;
+  alertRules?: AlertRules; // Overrides the journey's rules for this leg
+  route?: Route;
+  startTime?: number;
+  endTime?: number; // when the end of the leg was reached
 }
 
+// Where a route's geometry came from
+export type RouteSource = 'transit' | 'recorded' | 'routing';
+
 export interface Route {
   points: Location[];
   distance: number;
   duration: number;
   polyline?: string;
+  source?: RouteSource;
 }
 
 export interface Alert {
@@ -45,24 +93,128 @@ export interface Alert {
   message: string;
   timestamp: number;
   distance?: number;
+  location?: Location;
   acknowledged?: boolean;
+  leg?: number; // index of the leg it was raised on, for multi-stop journeys
 }
 
 export type TransportMode = 'bus' | 'train' | 'car' | 'walk';
 
 export type JourneyStatus = 'idle' | 'starting' | 'tracking' | 'approaching' | 'arrived' | 'paused' | 'stopped';
 
-export type AlertType = 'first_warning' | 'approaching' | 'final_warning' | 'arrived' | 'emergency';
+export type AlertType = 'first_warning' | 'approaching' | 'final_warning' | 'arrived' | 'transfer' | 'missed_stop' | 'emergency';
 
 export type TrackingMode = 'minimal' | 'active' | 'precision';
 
+// Alert types raised by configurable rules; a transfer is raised when a leg's arrival rule fires
+export type AlertRuleType = Exclude<AlertType, 'emergency' | 'transfer' | 'missed_stop'>;
+
+// 'both' fires on whichever threshold is reached first
+export type AlertTrigger = 'distance' | 'time' | 'both';
+
+export interface AlertRule {
+  enabled: boolean;
+  trigger: AlertTrigger;
+  distance: number; // meters remaining
+  time: number; // milliseconds to estimated arrival
+  stops?: number; // transit stops remaining, checked on transit rides only; 0 or unset is off
+}
+
+export type AlertRules = Record<AlertRuleType, AlertRule>;
+
+// 0 is Sunday, as returned by Date.getDay()
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+// A due commute either asks before starting or starts tracking straight away
+export type CommuteAction = 'prompt' | 'auto';
+
+export interface CommuteSchedule {
+  days: Weekday[];
+  time: string; // local time, HH:mm
+  action: CommuteAction;
+}
+
+export interface CommuteTemplate {
+  id: string;
+  name: string;
+  destination: Destination;
+  transportMode: TransportMode;
+  alertRules: AlertRules;
+  schedule: CommuteSchedule;
+  enabled: boolean;
+  skippedDates: string[]; // yyyy-MM-dd
+  lastTriggered?: string; // yyyy-MM-dd of the last occurrence that came due
+  createdAt: number;
+}
+
+// [lat, lng]; shapes are stored as tuples to keep them compact
+export type LatLngTuple = [number, number];
+
+export interface TransitStop {
+  id: string;
+  name: string;
+  location: Location;
+}
+
+// The stop sequence and shape shared by a route's trips in one direction
+export interface TransitPattern {
+  id: string;
+  headsign: string;
+  stopIds: string[];
+  shape: LatLngTuple[];
+}
+
+export interface TransitRoute {
+  id: string;
+  shortName: string;
+  longName: string;
+  transportMode: TransportMode;
+  patterns: TransitPattern[];
+}
+
+// The parts of an imported GTFS static feed needed to pick a ride and follow it
+export interface TransitFeed {
+  name: string;
+  importedAt: number;
+  stops: TransitStop[];
+  routes: TransitRoute[];
+}
+
+// A ride on one pattern, up to and including the stop to get off at
+export interface TransitRide {
+  routeId: string;
+  routeName: string;
+  headsign: string;
+  transportMode: TransportMode;
+  stops: TransitStop[]; // the alighting stop is last
+  shape: LatLngTuple[]; // clipped to end at the alighting stop
+}
+
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Map tiles downloaded ahead of time around a destination
+export interface OfflineMapArea {
+  id: string;
+  name: string;
+  destinationId?: string;
+  bounds: MapBounds;
+  minZoom: number;
+  maxZoom: number;
+  tileCount: number;
+  bytes: number;
+  downloadedAt: number;
+}
+
+export type RoutingEngine = 'osrm' | 'valhalla';
+
 export interface UserPreferences {
   defaultTransportMode: TransportMode;
-  alertDistances: {
-    first: number; // 10 minutes / distance equivalent
-    approaching: number; // 1km
-    final: number; // 200m
-  };
+  alertRules: AlertRules;
   notifications: {
     sound: boolean;
     vibration: boolean;
@@ -72,6 +224,15 @@ export interface UserPreferences {
     batteryOptimization: boolean;
     backgroundLocation: boolean;
   };
+  routing: {
+    enabled: boolean;
+    engine: RoutingEngine;
+    baseUrl: string; // e.g. a self-hosted instance
+  };
+  safety: {
+    overdueDelay: number; // ms past the expected arrival before contacts are told
+  };
+  alarm: AlarmSettings;
   appearance: {
     theme: 'dark' | 'light' | 'auto';
     animations: boolean;
@@ -79,6 +240,21 @@ export interface UserPreferences {
   };
 }
 
+export type AlarmProfileId = 'gentle' | 'standard' | 'heavy_sleeper';
+
+// Bundled sounds, or the one the user imported
+export type AlarmSoundId = 'chime' | 'beeps' | 'klaxon' | 'siren' | 'success' | 'custom';
+
+// Starts from a profile's values; each can then be changed on its own
+export interface AlarmSettings {
+  profile: AlarmProfileId;
+  sounds: Record<AlertType, AlarmSoundId>;
+  rampVolume: boolean; // start quiet and grow louder over the alarm
+  duration: number; // ms an alarm sounds for at most
+  repeat: number; // times the sound plays within that
+  customSound?: { name: string; type: string }; // the audio itself is kept in Cache Storage
+}
+
 export interface GeolocationState {
   position: Location | null;
   error: string | null;
@@ -105,6 +281,9 @@ export interface GoogleMapsConfig {
   language: string;
 }
 
+// Buttons on alert notifications, handled by the app when tapped
+export type NotificationActionId = 'silence_alarm' | 'snooze_alarm' | 'end_journey';
+
 export interface NotificationPayload {
   title: string;
   body: string;
@@ -112,14 +291,19 @@ export interface NotificationPayload {
   badge?: string;
   tag?: string;
   requireInteraction?: boolean;
+  actions?: { action: NotificationActionId; title: string }[];
 }
 
+// Journey events a contact can choose to hear about
+export type ContactEvent = 'start' | 'arrival' | 'overdue';
+
 export interface EmergencyContact {
   id: string;
   name: string;
   phone: string;
   email?: string;
   relationship: string;
+  notifyOn: ContactEvent[];
 }
 
 export interface TravelStats {
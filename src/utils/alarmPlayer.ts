@@ -0,0 +1,73 @@
+import { AlarmPlayback } from '@/utils/alarmProfiles';
+
+// How often the volume steps up during a ramp
+const RAMP_STEP = 250;
+
+/**
+ * Plays an alarm sound through an audio element. The sound repeats up to the
+ * playback's count but never for longer than its duration, and the volume ramps from
+ * the start level to the full level over however long that turns out to be.
+ * Starting another sound stops the current one.
+ */
+export class AlarmPlayer {
+  private audio: HTMLAudioElement | null = null;
+  private rampInterval: ReturnType<typeof setInterval> | null = null;
+  private stopTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  async play(url: string, playback: Omit<AlarmPlayback, 'sound'>): Promise<void> {
+    this.stop();
+
+    const audio = new Audio(url);
+    const { startVolume, volume, duration, repeat } = playback;
+    const startedAt = Date.now();
+    let plays = 1;
+    this.audio = audio;
+    audio.volume = startVolume;
+
+    audio.onended = () => {
+      if (this.audio !== audio) return;
+      if (plays >= repeat) {
+        this.stop();
+        return;
+      }
+      plays++;
+      audio.currentTime = 0;
+      audio.play().catch(() => this.stop());
+    };
+
+    if (volume !== startVolume) {
+      this.rampInterval = setInterval(() => {
+        // The sound's length is only known once it has loaded
+        const length = Number.isFinite(audio.duration) ? Math.min(duration, audio.duration * 1000 * repeat) : duration;
+        const progress = Math.min(1, (Date.now() - startedAt) / length);
+        audio.volume = startVolume + (volume - startVolume) * progress;
+      }, RAMP_STEP);
+    }
+    this.stopTimeout = setTimeout(() => this.stop(), duration);
+
+    try {
+      await audio.play();
+    } catch (error) {
+      if (this.audio === audio) {
+        this.stop();
+      }
+      throw error;
+    }
+  }
+
+  stop(): void {
+    if (this.rampInterval) {
+      clearInterval(this.rampInterval);
+      this.rampInterval = null;
+    }
+    if (this.stopTimeout) {
+      clearTimeout(this.stopTimeout);
+      this.stopTimeout = null;
+    }
+    if (this.audio) {
+      this.audio.onended = null;
+      this.audio.pause();
+      this.audio = null;
+    }
+  }
+}
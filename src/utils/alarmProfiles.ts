@@ -0,0 +1,118 @@
+import { AlarmProfileId, AlarmSettings, AlarmSoundId, AlertType } from '@/types';
+
+export interface AlarmProfile {
+  name: string;
+  description: string;
+  startVolume: number; // 0-1, where a ramp begins
+  volume: number; // 0-1, where it ends
+  settings: Omit<AlarmSettings, 'profile' | 'customSound'>;
+}
+
+export interface AlarmPlayback {
+  sound: AlarmSoundId;
+  startVolume: number;
+  volume: number;
+  duration: number;
+  repeat: number;
+}
+
+// Served from public/sounds so the service worker can keep them for offline use
+export const ALARM_SOUNDS: Record<Exclude<AlarmSoundId, 'custom'>, { name: string; url: string }> = {
+  chime: { name: 'Chime', url: '/sounds/chime.wav' },
+  beeps: { name: 'Beeps', url: '/sounds/beeps.wav' },
+  klaxon: { name: 'Klaxon', url: '/sounds/klaxon.wav' },
+  siren: { name: 'Siren', url: '/sounds/siren.wav' },
+  success: { name: 'Success', url: '/sounds/success.wav' }
+};
+
+export const ALARM_PROFILE_IDS: AlarmProfileId[] = ['gentle', 'standard', 'heavy_sleeper'];
+
+export const ALARM_PROFILES: Record<AlarmProfileId, AlarmProfile> = {
+  gentle: {
+    name: 'Gentle',
+    description: 'Soft chimes that build slowly',
+    startVolume: 0.15,
+    volume: 0.6,
+    settings: {
+      sounds: {
+        first_warning: 'chime',
+        approaching: 'chime',
+        final_warning: 'chime',
+        arrived: 'success',
+        transfer: 'chime',
+        missed_stop: 'beeps',
+        emergency: 'siren'
+      },
+      rampVolume: true,
+      duration: 20000,
+      repeat: 3
+    }
+  },
+  standard: {
+    name: 'Standard',
+    description: 'Beeps at a steady volume',
+    startVolume: 0.4,
+    volume: 0.85,
+    settings: {
+      sounds: {
+        first_warning: 'beeps',
+        approaching: 'chime',
+        final_warning: 'beeps',
+        arrived: 'success',
+        transfer: 'beeps',
+        missed_stop: 'siren',
+        emergency: 'siren'
+      },
+      rampVolume: false,
+      duration: 15000,
+      repeat: 3
+    }
+  },
+  heavy_sleeper: {
+    name: 'Heavy sleeper',
+    description: 'Klaxons at full volume, for as long as it takes',
+    startVolume: 0.7,
+    volume: 1,
+    settings: {
+      sounds: {
+        first_warning: 'klaxon',
+        approaching: 'klaxon',
+        final_warning: 'klaxon',
+        arrived: 'success',
+        transfer: 'klaxon',
+        missed_stop: 'siren',
+        emergency: 'siren'
+      },
+      rampVolume: true,
+      duration: 45000,
+      repeat: 10
+    }
+  }
+};
+
+// Choosing a profile replaces the sound settings but keeps an imported sound available
+export const getProfileSettings = (profile: AlarmProfileId, customSound?: AlarmSettings['customSound']): AlarmSettings => ({
+  profile,
+  ...ALARM_PROFILES[profile].settings,
+  sounds: { ...ALARM_PROFILES[profile].settings.sounds },
+  customSound
+});
+
+/**
+ * How an alert should sound. Repeats of an unanswered alarm (level 1 and up) skip
+ * the ramp, and from level 2 play at full volume.
+ */
+export const getAlarmPlayback = (alertType: AlertType, settings: AlarmSettings, level = 0): AlarmPlayback => {
+  const profile = ALARM_PROFILES[settings.profile];
+  const chosen = settings.sounds[alertType];
+  const volume = level >= 2 ? 1 : profile.volume;
+
+  return {
+    // Fall back to the profile's own sound if the imported one has been removed
+    sound: chosen === 'custom' && !settings.customSound ? profile.settings.sounds[alertType] : chosen,
+    startVolume: settings.rampVolume && level === 0 ? profile.startVolume : volume,
+    volume,
+    duration: settings.duration,
+    repeat: settings.repeat
+  };
+};
@@ -0,0 +1,20 @@
+import { Alert, Journey, SnoozeOption } from '@/types';
+import { formatDistance } from '@/utils/geolocation';
+
+export const SNOOZE_MINUTES = [2, 5, 10];
+export const SNOOZE_DISTANCES = [2000, 1000, 500, 250];
+// What the Snooze button on a notification does, where there is no room to choose
+export const NOTIFICATION_SNOOZE: SnoozeOption = { type: 'minutes', minutes: 5 };
+
+// The newest alert, while nobody has responded to it; older alerts are superseded by it
+export const getSoundingAlarm = (journey: Journey | null): Alert | null => {
+  const latest = journey?.alerts[journey.alerts.length - 1];
+  return latest && !latest.acknowledged ? latest : null;
+};
+
+// Snoozing until closer only makes sense for distances still ahead
+export const getSnoozeDistances = (distance: number | undefined): number[] =>
+  distance === undefined ? [] : SNOOZE_DISTANCES.filter(snoozeDistance => snoozeDistance < distance);
+
+export const describeSnooze = (option: SnoozeOption): string =>
+  option.type === 'minutes' ? `${option.minutes} min` : `Until ${formatDistance(option.distance)}`;
@@ -0,0 +1,165 @@
+import { AlertRule, AlertRules, AlertRuleType, AlertType, TrackingMode } from '@/types';
+import { formatDistance } from '@/utils/geolocation';
+
+export const DEFAULT_ALERT_RULES: AlertRules = {
+  first_warning: {
+    enabled: true,
+    trigger: 'both',
+    distance: 1200, // 1.2km in meters
+    time: 600000, // 10 minutes in ms
+    stops: 3
+  },
+  approaching: {
+    enabled: true,
+    trigger: 'distance',
+    distance: 1000, // 1km in meters
+    time: 300000, // 5 minutes in ms
+    stops: 2
+  },
+  final_warning: {
+    enabled: true,
+    trigger: 'distance',
+    distance: 200, // 200m in meters
+    time: 60000, // 1 minute in ms
+    stops: 1
+  },
+  arrived: {
+    enabled: true,
+    trigger: 'distance',
+    distance: 50, // arrival radius in meters
+    time: 0
+  }
+};
+
+// Most urgent first - only the most urgent triggered rule is raised per update
+export const ALERT_RULE_PRIORITY: AlertRuleType[] = ['arrived', 'final_warning', 'approaching', 'first_warning'];
+
+// Stop counts only apply on transit rides, and fire alongside the distance and time trigger
+const isStopCountReached = (rule: AlertRule, stopsRemaining: number | null): boolean =>
+  stopsRemaining !== null && !!rule.stops && stopsRemaining <= rule.stops;
+
+export const isAlertRuleTriggered = (
+  rule: AlertRule,
+  distance: number,
+  estimatedTime: number,
+  stopsRemaining: number | null = null
+): boolean => {
+  if (!rule.enabled) return false;
+  if (isStopCountReached(rule, stopsRemaining)) return true;
+
+  const byDistance = distance <= rule.distance;
+  const byTime = estimatedTime <= rule.time;
+
+  switch (rule.trigger) {
+    case 'distance':
+      return byDistance;
+    case 'time':
+      return byTime;
+    case 'both':
+      return byDistance || byTime;
+    default:
+      return false;
+  }
+};
+
+export const getTriggeredAlert = (
+  rules: AlertRules,
+  distance: number,
+  estimatedTime: number,
+  stopsRemaining: number | null = null
+): AlertRuleType | null => {
+  return ALERT_RULE_PRIORITY.find(type =>
+    isAlertRuleTriggered(rules[type], distance, estimatedTime, stopsRemaining)
+  ) || null;
+};
+
+export const getTrackingModeForAlert = (alertType: AlertRuleType | null): TrackingMode => {
+  switch (alertType) {
+    case 'arrived':
+    case 'final_warning':
+      return 'precision';
+    case 'approaching':
+    case 'first_warning':
+      return 'active';
+    default:
+      return 'minimal';
+  }
+};
+
+const formatMinutes = (milliseconds: number): string => {
+  const minutes = Math.round(milliseconds / 60000);
+  if (minutes < 1) return 'less than 1 minute';
+  if (minutes === 1) return '1 minute';
+  return `${minutes} minutes`;
+};
+
+const formatStops = (stops: number): string => (stops === 1 ? '1 stop before' : `${stops} stops before`);
+
+export const describeAlertRule = (rule: AlertRule, transit = false): string => {
+  const distanceText = `within ${formatDistance(rule.distance)}`;
+  const timeText = `${formatMinutes(rule.time)} before arrival`;
+  const stopsText = transit && rule.stops ? `${formatStops(rule.stops)} or ` : '';
+
+  switch (rule.trigger) {
+    case 'distance':
+      return stopsText + distanceText;
+    case 'time':
+      return stopsText + timeText;
+    case 'both':
+      return `${stopsText}${distanceText} or ${timeText}`;
+    default:
+      return '';
+  }
+};
+
+// Marker and timeline colour for each alert type
+export const ALERT_COLORS: Record<AlertType, string> = {
+  first_warning: '#39FF14',
+  approaching: '#FF9500',
+  final_warning: '#FF4444',
+  arrived: '#00D4FF',
+  transfer: '#A855F7',
+  missed_stop: '#FF2D95',
+  emergency: '#FF4444'
+};
+
+export const getAlertTitle = (alertType: AlertType): string => {
+  switch (alertType) {
+    case 'first_warning': return '🚨 Journey Alert!';
+    case 'approaching': return '⚠️ Approaching Destination';
+    case 'final_warning': return '🎯 Get Ready!';
+    case 'arrived': return '✅ Destination Reached';
+    case 'transfer': return '🔄 Change Here';
+    case 'missed_stop': return '⛔ Missed Your Stop';
+    case 'emergency': return '🚨 Emergency Alert';
+    default: return 'Transit Alert';
+  }
+};
+
+// Riders count stops, so on a transit ride alerts say how many are left
+export const getStopsAlertMessage = (alertType: AlertRuleType, stopsRemaining: number, stopName: string): string => {
+  if (alertType === 'arrived' || stopsRemaining === 0) return `This is ${stopName}. Get off here!`;
+  if (stopsRemaining === 1) return `${stopName} is the next stop. Get ready to get off!`;
+  return `${stopsRemaining} stops until ${stopName}. Start preparing to get off.`;
+};
+
+export const getAlertMessage = (alertType: AlertType, distance?: number, estimatedTime?: number): string => {
+  const distanceText = distance !== undefined ? formatDistance(distance) : null;
+  const timeText = estimatedTime !== undefined ? formatMinutes(estimatedTime) : null;
+
+  switch (alertType) {
+    case 'first_warning':
+      return distanceText && timeText
+        ? `About ${timeText} (${distanceText}) from your destination! Start preparing to exit.`
+        : 'Your destination is coming up. Start preparing to exit.';
+    case 'approaching':
+      return distanceText
+        ? `${distanceText} to your destination. Prepare to exit.`
+        : 'Approaching your destination. Prepare to exit.';
+    case 'final_warning': return 'Very close to your destination. Get ready to exit!';
+    case 'arrived': return 'You have arrived at your destination. Safe travels!';
+    case 'transfer': return 'You have reached your transfer point. Change to your next connection.';
+    case 'missed_stop': return 'You have gone past your stop.';
+    default: return 'Transit notification';
+  }
+};
@@ -0,0 +1,40 @@
+import L from 'leaflet';
+import { tileCache } from '@/services/tileCache';
+
+/**
+ * Tile layer that looks each tile up in the offline tile cache first and only goes to
+ * the network when it is missing, so downloaded areas still render without a connection.
+ */
+export class CachedTileLayer extends L.TileLayer {
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement('img');
+    tile.alt = '';
+    tile.setAttribute('role', 'presentation');
+    if (this.options.crossOrigin || this.options.crossOrigin === '') {
+      tile.crossOrigin = this.options.crossOrigin === true ? '' : this.options.crossOrigin;
+    }
+
+    const url = this.getTileUrl(coords);
+    let objectUrl: string | null = null;
+    const release = () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      objectUrl = null;
+    };
+
+    L.DomEvent.on(tile, 'load', () => {
+      release();
+      this._tileOnLoad(done, tile);
+    });
+    L.DomEvent.on(tile, 'error', (event) => {
+      release();
+      this._tileOnError(done, tile, event as unknown as Error);
+    });
+
+    tileCache.getCachedTileUrl(url).then(cachedUrl => {
+      objectUrl = cachedUrl;
+      tile.src = cachedUrl ?? url;
+    });
+
+    return tile;
+  }
+}
@@ -0,0 +1,92 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { CommuteTemplate, Weekday } from '@/types';
+
+// Far enough ahead to step over any run of skipped days and holidays
+const MAX_LOOKAHEAD_DAYS = 366;
+
+export const WEEKDAYS: Weekday[] = [1, 2, 3, 4, 5, 6, 0];
+export const WORKDAYS: Weekday[] = [1, 2, 3, 4, 5];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  0: 'Sun',
+  1: 'Mon',
+  2: 'Tue',
+  3: 'Wed',
+  4: 'Thu',
+  5: 'Fri',
+  6: 'Sat'
+};
+
+export const getDateKey = (date: Date | number): string => format(date, 'yyyy-MM-dd');
+
+// The commute time on the given day, in local time
+export const getCommuteTimeOn = (template: CommuteTemplate, day: Date | number): Date => {
+  const [hours, minutes] = template.schedule.time.split(':').map(Number);
+  const time = startOfDay(day);
+  time.setHours(hours, minutes);
+  return time;
+};
+
+export const isCommuteScheduledOn = (template: CommuteTemplate, day: Date | number, holidays: string[]): boolean => {
+  const dateKey = getDateKey(day);
+  return template.enabled
+    && template.schedule.days.includes(new Date(day).getDay() as Weekday)
+    && !template.skippedDates.includes(dateKey)
+    && !holidays.includes(dateKey);
+};
+
+// Occurrences in [from, until), earliest first
+export const getCommuteOccurrences = (
+  template: CommuteTemplate,
+  from: number,
+  until: number,
+  holidays: string[]
+): Date[] => {
+  const occurrences: Date[] = [];
+
+  for (let day = startOfDay(from); day.getTime() < until; day = addDays(day, 1)) {
+    const time = getCommuteTimeOn(template, day);
+    if (time.getTime() >= from && time.getTime() < until && isCommuteScheduledOn(template, day, holidays)) {
+      occurrences.push(time);
+    }
+  }
+
+  return occurrences;
+};
+
+export const getNextCommuteOccurrence = (template: CommuteTemplate, from: number, holidays: string[]): Date | null => {
+  if (!template.enabled || template.schedule.days.length === 0) return null;
+
+  const until = addDays(from, MAX_LOOKAHEAD_DAYS).getTime();
+  for (let day = startOfDay(from); day.getTime() < until; day = addDays(day, 1)) {
+    const time = getCommuteTimeOn(template, day);
+    if (time.getTime() >= from && isCommuteScheduledOn(template, day, holidays)) {
+      return time;
+    }
+  }
+  return null;
+};
+
+// The soonest upcoming commute across all templates
+export const getNextCommute = (
+  templates: CommuteTemplate[],
+  from: number,
+  holidays: string[]
+): { template: CommuteTemplate; at: Date } | null =>
+  templates.reduce<{ template: CommuteTemplate; at: Date } | null>((next, template) => {
+    const at = getNextCommuteOccurrence(template, from, holidays);
+    return at && (!next || at < next.at) ? { template, at } : next;
+  }, null);
+
+export const formatCommuteDays = (days: Weekday[]): string => {
+  if (days.length === 7) return 'Every day';
+  if (days.length === WORKDAYS.length && WORKDAYS.every(day => days.includes(day))) return 'Weekdays';
+  if (days.length === 2 && days.includes(0) && days.includes(6)) return 'Weekends';
+  return WEEKDAYS.filter(day => days.includes(day)).map(day => WEEKDAY_LABELS[day]).join(', ');
+};
+
+// Skipped dates in the past no longer affect anything
+export const pruneSkippedDates = (dates: string[], now: number): string[] => {
+  const today = getDateKey(now);
+  return dates.filter(date => date >= today);
+};
@@ -0,0 +1,86 @@
+import { format } from 'date-fns';
+import { ContactEvent, EmergencyContact, Journey, Location } from '@/types';
+import { isFinalLeg } from '@/utils/journeyLegs';
+
+// What a message to contacts is about; SOS is sent by hand to every contact
+export type ContactMessageKind = ContactEvent | 'sos';
+
+export interface ContactMessage {
+  kind: ContactMessageKind;
+  recipients: EmergencyContact[];
+  subject: string;
+  body: string;
+}
+
+export const CONTACT_EVENTS: ContactEvent[] = ['start', 'arrival', 'overdue'];
+
+export const CONTACT_EVENT_LABELS: Record<ContactEvent, string> = {
+  start: 'When I set off',
+  arrival: 'When I arrive',
+  overdue: 'When I am running late'
+};
+
+// A map link anyone can open without the app
+export const getLocationLink = ({ lat, lng }: Location): string => {
+  const latText = lat.toFixed(5);
+  const lngText = lng.toFixed(5);
+  return `https://www.openstreetmap.org/?mlat=${latText}&mlon=${lngText}#map=17/${latText}/${lngText}`;
+};
+
+const describeJourney = (journey: Journey): string => `${journey.destination.name} by ${journey.transportMode}`;
+
+export const composeContactMessage = (
+  kind: ContactMessageKind,
+  recipients: EmergencyContact[],
+  journey: Journey | null,
+  location: Location | null
+): ContactMessage => {
+  const lines: string[] = [];
+  let subject: string;
+
+  switch (kind) {
+    case 'start':
+      subject = `On my way to ${journey?.destination.name ?? 'my destination'}`;
+      lines.push(`I've set off to ${journey ? describeJourney(journey) : 'my destination'}.`);
+      // Estimates cover the current leg, so only one for the last leg is an arrival time
+      if (journey?.estimatedArrival && isFinalLeg(journey)) {
+        lines.push(`I expect to arrive around ${format(journey.estimatedArrival, 'HH:mm')}.`);
+      }
+      break;
+    case 'arrival':
+      subject = `I've arrived at ${journey?.destination.name ?? 'my destination'}`;
+      lines.push(`I've arrived safely at ${journey?.destination.name ?? 'my destination'}.`);
+      break;
+    case 'overdue':
+      subject = 'Running late';
+      lines.push(`I'm running later than expected on my way to ${journey ? describeJourney(journey) : 'my destination'}.`);
+      if (journey?.estimatedArrival) {
+        lines.push(`Latest estimate: ${format(journey.estimatedArrival, 'HH:mm')}.`);
+      }
+      break;
+    case 'sos':
+      subject = 'SOS - I need help';
+      lines.push('SOS: I need help.');
+      if (journey) {
+        lines.push(`I was travelling to ${describeJourney(journey)}.`);
+      }
+      break;
+  }
+
+  lines.push(location ? `My location: ${getLocationLink(location)}` : 'My location is not available.');
+  return { kind, recipients, subject, body: lines.join('\n') };
+};
+
+// Null when none of the recipients have a phone number or email address
+export const getSmsUrl = (message: ContactMessage): string | null => {
+  const phones = message.recipients.map(contact => contact.phone.replace(/[^\d+]/g, '')).filter(Boolean);
+  return phones.length > 0 ? `sms:${phones.join(',')}?body=${encodeURIComponent(message.body)}` : null;
+};
+
+export const getMailtoUrl = (message: ContactMessage): string | null => {
+  const emails = message.recipients.map(contact => contact.email?.trim()).filter(Boolean);
+  if (emails.length === 0) return null;
+
+  const params = `subject=${encodeURIComponent(message.subject)}&body=${encodeURIComponent(message.body)}`;
+  return `mailto:${emails.join(',')}?${params}`;
+};
@@ -0,0 +1,315 @@
+import { z } from 'zod';
+import { Destination, Journey, UserPreferences } from '@/types';
+import { preferencesSchema } from '@/utils/preferencesSchema';
+import {
+  STORAGE_KEYS,
+  StorageKey,
+  describeValidationError,
+  destinationSchema,
+  journeySchema
+} from '@/utils/storageSchema';
+import { CURRENT_SCHEMA_VERSION, MigrationStore, runMigrations } from '@/utils/storageMigrations';
+import {
+  DEFAULT_PREFERENCES,
+  MAX_DESTINATIONS,
+  MAX_JOURNEY_HISTORY,
+  StorageManager,
+  mergeWithDefaults
+} from '@/utils/storage';
+
+// Layout written by StorageManager.exportData; older files have no schemaVersion
+const importFileSchema = z.object({
+  preferences: z.unknown().optional(),
+  destinations: z.array(z.unknown()).optional(),
+  journeyHistory: z.array(z.unknown()).optional(),
+  travelStats: z.unknown().optional(),
+  schemaVersion: z.number().int().min(0).optional(),
+  exportDate: z.string().optional()
+}).refine(
+  data => data.preferences !== undefined || data.destinations !== undefined || data.journeyHistory !== undefined,
+  'The file contains no preferences, destinations or journeys'
+);
+
+export type ImportSection = 'preferences' | 'destinations' | 'journeys';
+
+// Sections of records are merged by id or replace what is stored; preferences can only be replaced
+export type ImportMode = 'merge' | 'replace' | 'skip';
+
+// What to do when an incoming record has the same id as a stored one but different content
+export type ConflictStrategy = 'keep' | 'overwrite';
+
+export interface RecordConflict<T> {
+  current: T;
+  incoming: T;
+}
+
+export interface SectionDiff<T> {
+  added: T[];
+  duplicates: T[];
+  conflicts: RecordConflict<T>[];
+}
+
+export interface RejectedRecord {
+  section: ImportSection;
+  index: number | null;
+  reason: string;
+}
+
+export interface ImportAnalysis {
+  exportDate: string | null;
+  schemaVersion: number;
+  preferences: UserPreferences | null;
+  preferencesChanged: boolean;
+  destinations: SectionDiff<Destination> | null;
+  journeys: SectionDiff<Journey> | null;
+  rejected: RejectedRecord[];
+}
+
+export interface ImportOptions {
+  modes: Record<ImportSection, ImportMode>;
+  conflicts: ConflictStrategy;
+}
+
+export interface SectionReport {
+  mode: ImportMode;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  dropped: number; // over the storage limit after merging
+}
+
+export interface ImportReport {
+  preferences: ImportMode;
+  destinations: SectionReport | null;
+  journeys: SectionReport | null;
+  rejected: RejectedRecord[];
+  travelStatsRebuilt: boolean;
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// Stable serialisation so records can be compared regardless of key order
+const canonical = (value: unknown): string => JSON.stringify(value, (_, v) =>
+  v && typeof v === 'object' && !Array.isArray(v)
+    ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+    : v
+);
+
+const diffRecords = <T extends { id: string }>(current: T[], incoming: T[]): SectionDiff<T> => {
+  const byId = new Map(current.map(record => [record.id, record]));
+  const diff: SectionDiff<T> = { added: [], duplicates: [], conflicts: [] };
+
+  incoming.forEach(record => {
+    const existing = byId.get(record.id);
+    if (!existing) {
+      diff.added.push(record);
+    } else if (canonical(existing) === canonical(record)) {
+      diff.duplicates.push(record);
+    } else {
+      diff.conflicts.push({ current: existing, incoming: record });
+    }
+  });
+
+  return diff;
+};
+
+// Valid records of a section; invalid and repeated ids are reported as rejected
+const validateRecords = <T extends { id: string }>(
+  section: ImportSection,
+  records: unknown[],
+  schema: z.ZodType<unknown>,
+  rejected: RejectedRecord[]
+): T[] => {
+  const seen = new Set<string>();
+  const valid: T[] = [];
+
+  records.forEach((record, index) => {
+    const result = schema.safeParse(record);
+    if (!result.success) {
+      rejected.push({ section, index, reason: describeValidationError(result.error) });
+      return;
+    }
+
+    const parsed = result.data as T;
+    if (seen.has(parsed.id)) {
+      rejected.push({ section, index, reason: `Duplicate id ${parsed.id} in file` });
+      return;
+    }
+
+    seen.add(parsed.id);
+    valid.push(parsed);
+  });
+
+  return valid;
+};
+
+/**
+ * Parses and validates an export file and compares it with what is stored, without
+ * changing anything. Files from older versions are upgraded with the storage migrations
+ * first. Throws ImportError when the file cannot be used at all.
+ */
+export const analyzeImport = (text: string): ImportAnalysis => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ImportError('The file is not valid JSON');
+  }
+
+  const file = importFileSchema.safeParse(json);
+  if (!file.success) {
+    throw new ImportError(file.error.issues[0]?.message ?? 'The file is not a Smart Transit export');
+  }
+
+  const schemaVersion = file.data.schemaVersion ?? 0;
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new ImportError('The file was exported by a newer version of the app');
+  }
+
+  // Run the file through the same migrations as stored data
+  const sections = new Map<StorageKey, unknown>([
+    [STORAGE_KEYS.PREFERENCES, file.data.preferences],
+    [STORAGE_KEYS.DESTINATIONS, file.data.destinations],
+    [STORAGE_KEYS.JOURNEY_HISTORY, file.data.journeyHistory]
+  ]);
+  const store: MigrationStore = {
+    read: key => sections.get(key),
+    write: (key, value) => sections.set(key, value),
+    remove: key => sections.delete(key)
+  };
+  runMigrations(store, schemaVersion);
+
+  const rejected: RejectedRecord[] = [];
+
+  let preferences: UserPreferences | null = null;
+  const storedPreferences = sections.get(STORAGE_KEYS.PREFERENCES);
+  if (storedPreferences !== undefined) {
+    const result = preferencesSchema.safeParse(mergeWithDefaults(DEFAULT_PREFERENCES, storedPreferences));
+    if (result.success) {
+      preferences = result.data as UserPreferences;
+    } else {
+      rejected.push({ section: 'preferences', index: null, reason: describeValidationError(result.error) });
+    }
+  }
+
+  const incomingDestinations = sections.get(STORAGE_KEYS.DESTINATIONS) as unknown[] | undefined;
+  const incomingJourneys = sections.get(STORAGE_KEYS.JOURNEY_HISTORY) as unknown[] | undefined;
+
+  return {
+    exportDate: file.data.exportDate ?? null,
+    schemaVersion,
+    preferences,
+    preferencesChanged: preferences !== null && canonical(preferences) !== canonical(StorageManager.getPreferences()),
+    destinations: incomingDestinations
+      ? diffRecords(
+        StorageManager.getDestinations(),
+        validateRecords<Destination>('destinations', incomingDestinations, destinationSchema, rejected)
+      )
+      : null,
+    journeys: incomingJourneys
+      ? diffRecords(
+        StorageManager.getJourneyHistory(),
+        validateRecords<Journey>('journeys', incomingJourneys, journeySchema, rejected)
+      )
+      : null,
+    rejected
+  };
+};
+
+const applySection = <T extends { id: string }>(
+  current: T[],
+  diff: SectionDiff<T> | null,
+  mode: ImportMode,
+  conflicts: ConflictStrategy,
+  order: (records: T[]) => T[],
+  limit: number
+): { records: T[]; report: SectionReport } | null => {
+  if (!diff || mode === 'skip') return null;
+
+  const incoming = [
+    ...diff.added,
+    ...diff.duplicates,
+    ...diff.conflicts.map(conflict => conflict.incoming)
+  ];
+
+  let records: T[];
+  let report: SectionReport;
+
+  if (mode === 'replace') {
+    const incomingIds = new Set(incoming.map(record => record.id));
+    records = incoming;
+    report = {
+      mode,
+      added: diff.added.length,
+      updated: diff.conflicts.length,
+      unchanged: diff.duplicates.length,
+      removed: current.filter(record => !incomingIds.has(record.id)).length,
+      dropped: 0
+    };
+  } else {
+    const overwrite = conflicts === 'overwrite';
+    const replacements = new Map(
+      overwrite ? diff.conflicts.map(conflict => [conflict.incoming.id, conflict.incoming] as const) : []
+    );
+    records = [...current.map(record => replacements.get(record.id) ?? record), ...diff.added];
+    report = {
+      mode,
+      added: diff.added.length,
+      updated: overwrite ? diff.conflicts.length : 0,
+      unchanged: diff.duplicates.length + (overwrite ? 0 : diff.conflicts.length),
+      removed: 0,
+      dropped: 0
+    };
+  }
+
+  const ordered = order(records);
+  report.dropped = Math.max(0, ordered.length - limit);
+  return { records: ordered.slice(0, limit), report };
+};
+
+// Writes the chosen sections and rebuilds travel stats when the history changed
+export const applyImport = (analysis: ImportAnalysis, options: ImportOptions): ImportReport => {
+  const preferencesMode = analysis.preferences && options.modes.preferences !== 'skip' ? 'replace' : 'skip';
+  if (preferencesMode === 'replace') {
+    StorageManager.savePreferences(analysis.preferences!);
+  }
+
+  const destinations = applySection(
+    StorageManager.getDestinations(),
+    analysis.destinations,
+    options.modes.destinations,
+    options.conflicts,
+    records => [...records].sort((a, b) => (b.lastUsed ?? 0) - (a.lastUsed ?? 0)),
+    MAX_DESTINATIONS
+  );
+  if (destinations) {
+    StorageManager.saveDestinations(destinations.records);
+  }
+
+  const journeys = applySection(
+    StorageManager.getJourneyHistory(),
+    analysis.journeys,
+    options.modes.journeys,
+    options.conflicts,
+    records => [...records].sort((a, b) => b.startTime - a.startTime),
+    MAX_JOURNEY_HISTORY
+  );
+  if (journeys) {
+    StorageManager.saveJourneyHistory(journeys.records);
+    StorageManager.rebuildTravelStats(journeys.records);
+  }
+
+  return {
+    preferences: preferencesMode,
+    destinations: destinations?.report ?? null,
+    journeys: journeys?.report ?? null,
+    rejected: analysis.rejected,
+    travelStatsRebuilt: journeys !== null
+  };
+};
@@ -0,0 +1,116 @@
+import { Location, TransportMode } from '@/types';
+import { calculateDistance, estimateArrivalTime } from '@/utils/geolocation';
+
+export interface EtaEstimatorOptions {
+  historyWindow: number; // ms of position history to keep
+  smoothingFactor: number; // weight of the newest speed sample (0-1)
+  stopSpeed: number; // m/s below which the vehicle is considered stopped
+  minSamples: number; // moving samples required before trusting observed speed
+  minSampleInterval: number; // ms, shorter intervals are merged into the next one
+}
+
+const DEFAULT_OPTIONS: EtaEstimatorOptions = {
+  historyWindow: 300000, // 5 minutes
+  smoothingFactor: 0.3,
+  stopSpeed: 0.7, // ~2.5 km/h
+  minSamples: 3,
+  minSampleInterval: 2000
+};
+
+// Upper bound on plausible speeds per mode in m/s, used to reject GPS jumps
+const MAX_SPEEDS: Record<TransportMode, number> = {
+  walk: 4,
+  bus: 30,
+  train: 90,
+  car: 50
+};
+
+/**
+ * Estimates time to arrival from the observed speed of recent position updates.
+ * Speed is smoothed with an exponential moving average over moving samples only,
+ * so time spent dwelling at stops or in traffic does not drag the estimate to zero.
+ * Falls back to the fixed per-mode speed until enough movement has been observed.
+ */
+export class EtaEstimator {
+  private options: EtaEstimatorOptions;
+  private transportMode: TransportMode;
+  private history: Location[] = [];
+  private smoothedSpeed: number | null = null;
+  private movingSamples = 0;
+  private dwellStart: number | null = null;
+
+  constructor(transportMode: TransportMode = 'bus', options: Partial<EtaEstimatorOptions> = {}) {
+    this.transportMode = transportMode;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  reset(transportMode: TransportMode = this.transportMode): void {
+    this.transportMode = transportMode;
+    this.history = [];
+    this.smoothedSpeed = null;
+    this.movingSamples = 0;
+    this.dwellStart = null;
+  }
+
+  addPosition(location: Location): void {
+    const position = { ...location, timestamp: location.timestamp ?? Date.now() };
+    const previous = this.history[this.history.length - 1];
+
+    if (previous) {
+      const elapsed = position.timestamp - previous.timestamp;
+      if (elapsed < this.options.minSampleInterval) return;
+
+      const distance = calculateDistance(previous, position);
+      // Ignore movement that is within the combined GPS error of both fixes
+      const jitter = Math.max(previous.accuracy ?? 0, position.accuracy ?? 0) / 2;
+      const speed = distance <= jitter ? 0 : distance / (elapsed / 1000);
+
+      if (speed > MAX_SPEEDS[this.transportMode]) {
+        console.warn(`Discarding implausible speed sample: ${speed.toFixed(1)}m/s`);
+        return;
+      }
+
+      if (speed < this.options.stopSpeed) {
+        if (this.dwellStart === null) {
+          this.dwellStart = previous.timestamp;
+        }
+      } else {
+        this.dwellStart = null;
+        this.movingSamples++;
+        this.smoothedSpeed = this.smoothedSpeed === null
+          ? speed
+          : this.options.smoothingFactor * speed + (1 - this.options.smoothingFactor) * this.smoothedSpeed;
+      }
+    }
+
+    this.history.push(position);
+    this.history = this.history.filter(
+      point => position.timestamp - point.timestamp <= this.options.historyWindow
+    );
+  }
+
+  // Smoothed moving speed in m/s, or null until enough movement has been observed
+  getSpeed(): number | null {
+    return this.movingSamples >= this.options.minSamples ? this.smoothedSpeed : null;
+  }
+
+  isDwelling(): boolean {
+    return this.dwellStart !== null;
+  }
+
+  getDwellTime(now: number = Date.now()): number {
+    return this.dwellStart === null ? 0 : now - this.dwellStart;
+  }
+
+  // Estimated time to cover the given distance in milliseconds
+  estimate(distance: number): number {
+    const speed = this.getSpeed();
+    if (speed === null) {
+      return estimateArrivalTime(distance, this.transportMode);
+    }
+
+    return (distance / speed) * 1000;
+  }
+}
+
+export default EtaEstimator;
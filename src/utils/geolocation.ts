@@ -1,9 +1,10 @@
-import { Location, TrackingMode } from '@/types';
+import { Location, TrackingMode, TransportMode } from '@/types';
 import { backgroundLocationService } from '@/services/backgroundLocationService';
+import { locationSourceManager } from '@/services/locationSource';
 import { Capacitor } from '@capacitor/core';
 
 export class GeolocationManager {
-  private watchId: number | null = null;
+  private clearWatch: (() => void) | null = null;
   private lastPosition: Location | null = null;
   private trackingMode: TrackingMode = 'minimal';
   private callbacks: Set<(position: Location) => void> = new Set();
@@ -14,6 +15,14 @@ export class GeolocationManager {
   constructor() {
     this.checkPermission();
     this.initializeBackgroundService();
+
+    // Restart an active watch when switching between real GPS and the simulator
+    locationSourceManager.onSourceChange(() => {
+      if (this.clearWatch !== null && !this.isBackgroundMode) {
+        this.stopTracking();
+        this.startTracking();
+      }
+    });
   }
 
   private async initializeBackgroundService(): Promise<void> {
@@ -46,28 +55,17 @@ export class GeolocationManager {
   }
 
   async requestPermission(): Promise<boolean> {
-    return new Promise((resolve) => {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          this.lastPosition = {
-            lat: position.coords.latitude,
-            lng: position.coords.longitude,
-            accuracy: position.coords.accuracy,
-            timestamp: position.timestamp
-          };
-          resolve(true);
-        },
-        (error) => {
-          console.error('Geolocation permission denied:', error);
-          resolve(false);
-        },
-        {
-          enableHighAccuracy: true,
-          timeout: 10000,
-          maximumAge: 60000
-        }
-      );
-    });
+    try {
+      this.lastPosition = await locationSourceManager.getSource().getCurrentPosition({
+        enableHighAccuracy: true,
+        timeout: 10000,
+        maximumAge: 60000
+      });
+      return true;
+    } catch (error) {
+      console.error('Geolocation permission denied:', error);
+      return false;
+    }
   }
 
   async enableBackgroundTracking(destination: Location, transportMode: string): Promise<boolean> {
@@ -95,6 +93,12 @@ export class GeolocationManager {
     }
   }
 
+  updateBackgroundDestination(destination: Location, transportMode: TransportMode): void {
+    if (this.isBackgroundMode) {
+      backgroundLocationService.updateDestination(destination, transportMode);
+    }
+  }
+
   async disableBackgroundTracking(): Promise<void> {
     if (this.isBackgroundMode) {
       await backgroundLocationService.stopTracking();
@@ -105,7 +109,7 @@ export class GeolocationManager {
 
   setTrackingMode(mode: TrackingMode): void {
     this.trackingMode = mode;
-    if (this.watchId !== null && !this.isBackgroundMode) {
+    if (this.clearWatch !== null && !this.isBackgroundMode) {
       this.stopTracking();
       this.startTracking();
     }
@@ -153,22 +157,15 @@ export class GeolocationManager {
       return;
     }
 
-    if (this.watchId !== null) {
+    if (this.clearWatch !== null) {
       this.stopTracking();
     }
 
     const options = this.getTrackingOptions();
     
     // Start watchPosition for continuous tracking
-    this.watchId = navigator.geolocation.watchPosition(
-      (position) => {
-        const location: Location = {
-          lat: position.coords.latitude,
-          lng: position.coords.longitude,
-          accuracy: position.coords.accuracy,
-          timestamp: position.timestamp
-        };
-        
+    this.clearWatch = locationSourceManager.getSource().watchPosition(
+      (location) => {
         console.log('Location updated:', location);
         this.lastPosition = location;
         this.callbacks.forEach(callback => callback(location));
@@ -191,15 +188,8 @@ export class GeolocationManager {
     
     this.trackingInterval = setInterval(() => {
       console.log('Interval location check...');
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const location: Location = {
-            lat: position.coords.latitude,
-            lng: position.coords.longitude,
-            accuracy: position.coords.accuracy,
-            timestamp: position.timestamp
-          };
-          
+      locationSourceManager.getSource().getCurrentPosition(this.getTrackingOptions())
+        .then((location) => {
           // Only update if location changed significantly
           if (!this.lastPosition || 
               Math.abs(location.lat - this.lastPosition.lat) > 0.0001 ||
@@ -208,19 +198,17 @@ export class GeolocationManager {
             this.lastPosition = location;
             this.callbacks.forEach(callback => callback(location));
           }
-        },
-        (error) => {
+        })
+        .catch((error) => {
           console.warn('Interval location error:', error);
-        },
-        this.getTrackingOptions()
-      );
+        });
     }, intervalTime);
   }
 
   stopTracking(): void {
-    if (this.watchId !== null) {
-      navigator.geolocation.clearWatch(this.watchId);
-      this.watchId = null;
+    if (this.clearWatch !== null) {
+      this.clearWatch();
+      this.clearWatch = null;
     }
     
     if (this.trackingInterval !== null) {
@@ -232,21 +220,7 @@ export class GeolocationManager {
   }
 
   async getCurrentPosition(): Promise<Location> {
-    return new Promise((resolve, reject) => {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const location: Location = {
-            lat: position.coords.latitude,
-            lng: position.coords.longitude,
-            accuracy: position.coords.accuracy,
-            timestamp: position.timestamp
-          };
-          resolve(location);
-        },
-        reject,
-        this.getTrackingOptions()
-      );
-    });
+    return locationSourceManager.getSource().getCurrentPosition(this.getTrackingOptions());
   }
 
   onPositionUpdate(callback: (position: Location) => void): () => void {
@@ -264,7 +238,7 @@ export class GeolocationManager {
   }
 
   isTracking(): boolean {
-    return this.watchId !== null || this.isBackgroundMode;
+    return this.clearWatch !== null || this.isBackgroundMode;
   }
 
   getTrackingMode(): TrackingMode {
@@ -303,6 +277,14 @@ export const formatDistance = (distance: number): string => {
   }
 };
 
+export const formatDuration = (milliseconds: number): string => {
+  const minutes = Math.round(milliseconds / (1000 * 60));
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
 export const estimateArrivalTime = (
   distance: number,
   transportMode: string
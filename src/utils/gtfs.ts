@@ -0,0 +1,309 @@
+import { DecodeUTF8, Unzip, UnzipInflate } from 'fflate';
+import { LatLngTuple, TransitFeed, TransitPattern, TransitRoute, TransitStop, TransportMode } from '@/types';
+
+const REQUIRED_FILES = ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt'] as const;
+const OPTIONAL_FILES = ['shapes.txt'] as const;
+
+type GtfsFileName = typeof REQUIRED_FILES[number] | typeof OPTIONAL_FILES[number];
+
+// About a metre; plenty for snapping and keeps stored shapes small
+const COORDINATE_PRECISION = 1e5;
+
+export class GtfsImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GtfsImportError';
+  }
+}
+
+// Rows of an RFC 4180 CSV file, as used by GTFS: quoted fields may contain commas,
+// newlines and doubled quotes, and lines may end in CRLF. Text is pushed in chunks as it
+// is decompressed, so the state of the row being read carries over between chunks
+const createCsvParser = (onRow: (row: string[]) => void) => {
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  // A quote inside a quoted field either closes it or, doubled, stands for a quote
+  let quoteClosing = false;
+  let afterCarriageReturn = false;
+  let started = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') onRow(row);
+    row = [];
+    field = '';
+  };
+
+  return (text: string, final: boolean) => {
+    let index = 0;
+    if (!started && text.length > 0) {
+      started = true;
+      if (text.charCodeAt(0) === 0xfeff) index = 1;
+    }
+
+    for (; index < text.length; index++) {
+      const char = text[index];
+
+      if (afterCarriageReturn) {
+        afterCarriageReturn = false;
+        if (char === '\n') continue;
+      }
+      if (quoteClosing) {
+        quoteClosing = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        quoted = false;
+      }
+
+      if (quoted) {
+        if (char === '"') {
+          quoteClosing = true;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        afterCarriageReturn = char === '\r';
+        endRow();
+      } else {
+        field += char;
+      }
+    }
+
+    if (final) endRow();
+  };
+};
+
+type GtfsRecord = Record<string, string>;
+
+// Records keyed by the header row; missing trailing fields read as ''
+const createTableParser = (onRecord: (record: GtfsRecord) => void) => {
+  let columns: string[] | null = null;
+  return createCsvParser(row => {
+    if (!columns) {
+      columns = row.map(column => column.trim());
+      return;
+    }
+    const record: GtfsRecord = {};
+    columns.forEach((column, i) => {
+      record[column] = row[i]?.trim() ?? '';
+    });
+    onRecord(record);
+  });
+};
+
+const roundCoordinate = (value: number): number => Math.round(value * COORDINATE_PRECISION) / COORDINATE_PRECISION;
+
+const parseCoordinates = (lat: string, lng: string): LatLngTuple | null => {
+  const latitude = parseFloat(lat);
+  const longitude = parseFloat(lng);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return [roundCoordinate(latitude), roundCoordinate(longitude)];
+};
+
+// GTFS basic and extended route types, collapsed to the app's modes
+export const getTransportModeForRouteType = (routeType: number): TransportMode => {
+  if ([0, 1, 2, 5, 7, 12].includes(routeType)) return 'train';
+  if (routeType >= 100 && routeType < 200) return 'train';
+  if (routeType >= 400 && routeType < 500) return 'train';
+  if (routeType >= 900 && routeType < 1000) return 'train';
+  return 'bus';
+};
+
+export const getRouteName = (route: Pick<TransitRoute, 'shortName' | 'longName' | 'id'>): string =>
+  route.shortName && route.longName
+    ? `${route.shortName} ${route.longName}`
+    : route.shortName || route.longName || route.id;
+
+type TableHandlers = Partial<Record<GtfsFileName, (record: GtfsRecord) => void>>;
+
+// Feeds are sometimes zipped with their enclosing folder
+const baseName = (path: string) => path.split('/').pop() ?? path;
+
+/**
+ * Streams the archive through once, decompressing only the tables that have a handler
+ * and passing their records on as they are read; every other file is skipped over
+ * compressed. Resolves with the names of all files in the archive.
+ */
+const readTables = async (file: Blob, handlers: TableHandlers): Promise<Set<string>> => {
+  const found = new Set<string>();
+  const unzip = new Unzip(entry => {
+    const name = baseName(entry.name);
+    found.add(name);
+
+    const onRecord = handlers[name as GtfsFileName];
+    if (!onRecord) return;
+
+    const decoder = new DecodeUTF8(createTableParser(onRecord));
+    entry.ondata = (error, chunk, final) => {
+      if (error) throw error;
+      decoder.push(chunk, final);
+    };
+    entry.start();
+  });
+  unzip.register(UnzipInflate);
+
+  const reader = file.stream().getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      unzip.push(done ? new Uint8Array(0) : value, done);
+      if (done) break;
+    }
+  } catch (error) {
+    throw new GtfsImportError('The file is not a valid zip archive');
+  }
+
+  if (found.size === 0) throw new GtfsImportError('The file is not a valid zip archive');
+  return found;
+};
+
+interface GtfsTrip {
+  routeId: string;
+  headsign: string;
+  shapeId: string;
+}
+
+interface PatternTrip {
+  tripId: string;
+  trip: GtfsTrip;
+  stopIds: string[];
+}
+
+/**
+ * Reads a GTFS static feed into the compact form the app stores. Timetables are not
+ * needed to count stops, so each route keeps one stop sequence and shape per distinct
+ * pattern of trips instead of every trip.
+ */
+export const parseGtfsFile = async (file: Blob, name: string, now: number = Date.now()): Promise<TransitFeed> => {
+  const routes = new Map<string, TransitRoute>();
+  const trips = new Map<string, GtfsTrip>();
+  const stops = new Map<string, TransitStop>();
+
+  // stop_times.txt and shapes.txt can only be filtered once the trips are known, and
+  // the archive may hold the tables in any order, so they are read in later passes
+  const found = await readTables(file, {
+    'routes.txt': record => {
+      if (!record.route_id) return;
+      routes.set(record.route_id, {
+        id: record.route_id,
+        shortName: record.route_short_name,
+        longName: record.route_long_name,
+        transportMode: getTransportModeForRouteType(parseInt(record.route_type, 10)),
+        patterns: []
+      });
+    },
+    'trips.txt': record => {
+      if (!record.trip_id) return;
+      trips.set(record.trip_id, { routeId: record.route_id, headsign: record.trip_headsign, shapeId: record.shape_id });
+    },
+    'stops.txt': record => {
+      const coordinates = parseCoordinates(record.stop_lat, record.stop_lon);
+      if (!record.stop_id || !coordinates) return;
+      stops.set(record.stop_id, {
+        id: record.stop_id,
+        name: record.stop_name || record.stop_id,
+        location: { lat: coordinates[0], lng: coordinates[1] }
+      });
+    }
+  });
+
+  const missing = REQUIRED_FILES.filter(file => !found.has(file));
+  if (missing.length > 0) {
+    throw new GtfsImportError(`Not a GTFS feed: missing ${missing.join(', ')}`);
+  }
+
+  // Trips can come before routes in the archive, so those on unknown routes are dropped now
+  trips.forEach((trip, tripId) => {
+    if (!routes.has(trip.routeId)) trips.delete(tripId);
+  });
+
+  const tripStops = new Map<string, { sequence: number; stopId: string }[]>();
+  await readTables(file, {
+    'stop_times.txt': record => {
+      if (!trips.has(record.trip_id)) return;
+      const stops = tripStops.get(record.trip_id) ?? [];
+      stops.push({ sequence: parseInt(record.stop_sequence, 10), stopId: record.stop_id });
+      tripStops.set(record.trip_id, stops);
+    }
+  });
+
+  // Express and all-stops trips can share a route, direction and shape, so trips are only
+  // told apart by their stop sequence; the first trip with each one stands in for the rest
+  const patternTrips: PatternTrip[] = [];
+  const seenPatterns = new Set<string>();
+  trips.forEach((trip, tripId) => {
+    const stopIds = (tripStops.get(tripId) ?? [])
+      .sort((a, b) => a.sequence - b.sequence)
+      .map(({ stopId }) => stopId)
+      .filter(stopId => stops.has(stopId));
+    if (stopIds.length < 2) return;
+
+    const key = [trip.routeId, ...stopIds].join('|');
+    if (seenPatterns.has(key)) return;
+
+    seenPatterns.add(key);
+    patternTrips.push({ tripId, trip, stopIds });
+  });
+  tripStops.clear();
+
+  const shapeIds = new Set(patternTrips.map(({ trip }) => trip.shapeId).filter(Boolean));
+  const shapePoints = new Map<string, { sequence: number; point: LatLngTuple }[]>();
+  if (found.has('shapes.txt') && shapeIds.size > 0) {
+    await readTables(file, {
+      'shapes.txt': record => {
+        const point = parseCoordinates(record.shape_pt_lat, record.shape_pt_lon);
+        if (!shapeIds.has(record.shape_id) || !point) return;
+        const points = shapePoints.get(record.shape_id) ?? [];
+        points.push({ sequence: parseInt(record.shape_pt_sequence, 10), point });
+        shapePoints.set(record.shape_id, points);
+      }
+    });
+  }
+
+  const usedStops = new Set<string>();
+  patternTrips.forEach(({ tripId, trip, stopIds }) => {
+    const points = shapePoints.get(trip.shapeId);
+    // Without shapes.txt the route is drawn stop to stop
+    const shape: LatLngTuple[] = points && points.length >= 2
+      ? points.sort((a, b) => a.sequence - b.sequence).map(({ point }) => point)
+      : stopIds.map(stopId => {
+        const { location } = stops.get(stopId)!;
+        return [location.lat, location.lng];
+      });
+
+    const pattern: TransitPattern = {
+      id: tripId,
+      headsign: trip.headsign || stops.get(stopIds[stopIds.length - 1])!.name,
+      stopIds,
+      shape
+    };
+    routes.get(trip.routeId)!.patterns.push(pattern);
+    stopIds.forEach(stopId => usedStops.add(stopId));
+  });
+
+  const servedRoutes = [...routes.values()]
+    .filter(route => route.patterns.length > 0)
+    .sort((a, b) => getRouteName(a).localeCompare(getRouteName(b), undefined, { numeric: true }));
+
+  if (servedRoutes.length === 0) {
+    throw new GtfsImportError('The feed has no routes with at least two stops');
+  }
+
+  console.log(`Imported GTFS feed ${name}: ${servedRoutes.length} routes, ${usedStops.size} stops`);
+
+  return {
+    name,
+    importedAt: now,
+    stops: [...stops.values()].filter(stop => usedStops.has(stop.id)),
+    routes: servedRoutes
+  };
+};
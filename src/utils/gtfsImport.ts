@@ -0,0 +1,25 @@
+import { TransitFeed } from '@/types';
+import { GtfsImportError } from '@/utils/gtfs';
+import type { GtfsImportResult } from '@/workers/gtfsImport.worker';
+
+// Kept out of gtfs.ts so the worker, which imports that module, does not bundle a copy of itself
+export const importGtfsFile = (file: File): Promise<TransitFeed> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/gtfsImport.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<GtfsImportResult>) => {
+      worker.terminate();
+      const result = event.data;
+      if ('feed' in result) {
+        resolve(result.feed);
+      } else {
+        reject(result.invalidFeed ? new GtfsImportError(result.error) : new Error(result.error));
+      }
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'The GTFS import worker failed'));
+    };
+
+    worker.postMessage(file);
+  });
@@ -0,0 +1,63 @@
+import { Journey } from '@/types';
+import { getJourneyDuration, getJourneyOutcome } from '@/utils/journeyHistory';
+
+export type TimeOfDay = 'morning' | 'midday' | 'evening' | 'night';
+
+export interface TimeOfDayDurations {
+  timeOfDay: TimeOfDay;
+  label: string;
+  journeys: number;
+  typicalDuration: number | null; // median in ms
+}
+
+export interface CompletionRate {
+  arrived: number;
+  stopped: number;
+  rate: number; // 0-100, share of journeys that reached their destination
+}
+
+// Start hours (inclusive) of each part of the day
+const TIME_OF_DAY_RANGES: { timeOfDay: TimeOfDay; label: string; from: number; to: number }[] = [
+  { timeOfDay: 'morning', label: 'Morning', from: 5, to: 10 },
+  { timeOfDay: 'midday', label: 'Midday', from: 10, to: 16 },
+  { timeOfDay: 'evening', label: 'Evening', from: 16, to: 21 },
+  { timeOfDay: 'night', label: 'Night', from: 21, to: 5 }
+];
+
+export const getTimeOfDay = (timestamp: number): TimeOfDay => {
+  const hour = new Date(timestamp).getHours();
+  const range = TIME_OF_DAY_RANGES.find(({ from, to }) =>
+    from < to ? hour >= from && hour < to : hour >= from || hour < to
+  );
+  return range!.timeOfDay;
+};
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Median duration of finished journeys for each part of the day they started in
+export const getDurationsByTimeOfDay = (journeys: Journey[]): TimeOfDayDurations[] =>
+  TIME_OF_DAY_RANGES.map(({ timeOfDay, label }) => {
+    const durations = journeys
+      .filter(journey => getTimeOfDay(journey.startTime) === timeOfDay)
+      .map(getJourneyDuration)
+      .filter((duration): duration is number => duration !== null);
+
+    return { timeOfDay, label, journeys: durations.length, typicalDuration: median(durations) };
+  });
+
+export const getCompletionRate = (journeys: Journey[]): CompletionRate => {
+  const arrived = journeys.filter(journey => getJourneyOutcome(journey) === 'arrived').length;
+  const stopped = journeys.length - arrived;
+
+  return {
+    arrived,
+    stopped,
+    rate: journeys.length > 0 ? (arrived / journeys.length) * 100 : 0
+  };
+};
@@ -0,0 +1,267 @@
+import { Capacitor } from '@capacitor/core';
+import { Directory, Encoding, Filesystem } from '@capacitor/filesystem';
+import { Share } from '@capacitor/share';
+import { format } from 'date-fns';
+import { AlertType, Journey, Location } from '@/types';
+import { getAlertTitle } from '@/utils/alertRules';
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' }
+};
+
+const CREATOR = 'Smart Transit';
+
+// Points of interest exported for every journey, alerts keep their AlertType
+interface JourneyWaypoint {
+  kind: 'start' | 'destination' | 'alert';
+  name: string;
+  description?: string;
+  location: Location;
+  timestamp?: number;
+  alertType?: AlertType;
+}
+
+const getJourneyName = (journey: Journey): string =>
+  `${journey.destination.name} · ${format(journey.startTime, 'yyyy-MM-dd HH:mm')}`;
+
+const getJourneyPath = (journey: Journey): Location[] => journey.track || [];
+
+const getJourneyWaypoints = (journey: Journey): JourneyWaypoint[] => {
+  const path = getJourneyPath(journey);
+  const start = journey.startLocation ?? path[0];
+  const waypoints: JourneyWaypoint[] = [];
+
+  if (start) {
+    waypoints.push({ kind: 'start', name: 'Start', location: start, timestamp: journey.startTime });
+  }
+
+  waypoints.push({
+    kind: 'destination',
+    name: journey.destination.name,
+    description: journey.destination.address,
+    location: journey.destination.location,
+    timestamp: journey.actualArrival
+  });
+
+  // Alerts recorded before positions were stored with them have nothing to place
+  journey.alerts
+    .filter(alert => alert.location)
+    .forEach(alert => waypoints.push({
+      kind: 'alert',
+      name: getAlertTitle(alert.type),
+      description: alert.message,
+      location: alert.location!,
+      timestamp: alert.timestamp,
+      alertType: alert.type
+    }));
+
+  return waypoints;
+};
+
+const toIsoTime = (timestamp?: number): string | undefined =>
+  timestamp !== undefined ? new Date(timestamp).toISOString() : undefined;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const xmlElement = (tag: string, value?: string): string =>
+  value !== undefined ? `<${tag}>${escapeXml(value)}</${tag}>` : '';
+
+// GPX 1.1: all waypoints must precede the tracks
+export const journeysToGpx = (journeys: Journey[]): string => {
+  const waypoints = journeys.flatMap(journey =>
+    getJourneyWaypoints(journey).map(waypoint => [
+      `  <wpt lat="${waypoint.location.lat}" lon="${waypoint.location.lng}">`,
+      `    ${xmlElement('time', toIsoTime(waypoint.timestamp))}`,
+      `    ${xmlElement('name', waypoint.name)}`,
+      `    ${xmlElement('desc', waypoint.description)}`,
+      `    ${xmlElement('type', waypoint.alertType ?? waypoint.kind)}`,
+      '  </wpt>'
+    ].filter(line => line.trim()).join('\n'))
+  );
+
+  const tracks = journeys
+    .filter(journey => getJourneyPath(journey).length > 0)
+    .map(journey => [
+      '  <trk>',
+      `    ${xmlElement('name', getJourneyName(journey))}`,
+      `    ${xmlElement('type', journey.transportMode)}`,
+      '    <trkseg>',
+      ...getJourneyPath(journey).map(point =>
+        `      <trkpt lat="${point.lat}" lon="${point.lng}">${xmlElement('time', toIsoTime(point.timestamp))}</trkpt>`
+      ),
+      '    </trkseg>',
+      '  </trk>'
+    ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata>${xmlElement('name', `${CREATOR} journeys`)}${xmlElement('time', new Date().toISOString())}</metadata>`,
+    ...waypoints,
+    ...tracks,
+    '</gpx>',
+    ''
+  ].join('\n');
+};
+
+const kmlCoordinates = (points: Location[]): string =>
+  points.map(point => `${point.lng},${point.lat}`).join(' ');
+
+export const journeysToKml = (journeys: Journey[]): string => {
+  const folders = journeys.map(journey => {
+    const placemarks = getJourneyWaypoints(journey).map(waypoint => [
+      '      <Placemark>',
+      `        ${xmlElement('name', waypoint.name)}`,
+      `        ${xmlElement('description', waypoint.description)}`,
+      waypoint.timestamp !== undefined ? `        <TimeStamp>${xmlElement('when', toIsoTime(waypoint.timestamp))}</TimeStamp>` : '',
+      `        <ExtendedData><Data name="type">${xmlElement('value', waypoint.alertType ?? waypoint.kind)}</Data></ExtendedData>`,
+      `        <Point><coordinates>${kmlCoordinates([waypoint.location])}</coordinates></Point>`,
+      '      </Placemark>'
+    ].filter(line => line.trim()).join('\n'));
+
+    const path = getJourneyPath(journey);
+    if (path.length > 1) {
+      placemarks.push([
+        '      <Placemark>',
+        `        ${xmlElement('name', 'Recorded path')}`,
+        `        <ExtendedData><Data name="transportMode">${xmlElement('value', journey.transportMode)}</Data></ExtendedData>`,
+        `        <LineString><tessellate>1</tessellate><coordinates>${kmlCoordinates(path)}</coordinates></LineString>`,
+        '      </Placemark>'
+      ].join('\n'));
+    }
+
+    return [
+      '    <Folder>',
+      `      ${xmlElement('name', getJourneyName(journey))}`,
+      ...placemarks,
+      '    </Folder>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    ${xmlElement('name', `${CREATOR} journeys`)}`,
+    ...folders,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+};
+
+const toPosition = (location: Location): number[] => [location.lng, location.lat];
+
+// One FeatureCollection for all journeys; every feature carries its journeyId
+export const journeysToGeoJson = (journeys: Journey[]): string => {
+  const features = journeys.flatMap(journey => {
+    const common = {
+      journeyId: journey.id,
+      destination: journey.destination.name,
+      transportMode: journey.transportMode
+    };
+
+    const points = getJourneyWaypoints(journey).map(waypoint => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: toPosition(waypoint.location) },
+      properties: {
+        ...common,
+        kind: waypoint.kind,
+        name: waypoint.name,
+        description: waypoint.description,
+        alertType: waypoint.alertType,
+        time: toIsoTime(waypoint.timestamp)
+      }
+    }));
+
+    const path = getJourneyPath(journey);
+    if (path.length < 2) return points;
+
+    return [...points, {
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: path.map(toPosition) },
+      properties: {
+        ...common,
+        kind: 'path',
+        name: getJourneyName(journey),
+        coordTimes: path.map(point => toIsoTime(point.timestamp))
+      }
+    }];
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+const slugify = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'journey';
+
+export const exportJourneys = (journeys: Journey[], exportFormat: ExportFormat): ExportFile => {
+  const { extension, mimeType } = EXPORT_FORMATS[exportFormat];
+  const baseName = journeys.length === 1
+    ? `journey-${slugify(journeys[0].destination.name)}-${format(journeys[0].startTime, 'yyyy-MM-dd-HHmm')}`
+    : `smart-transit-journeys-${format(Date.now(), 'yyyy-MM-dd')}`;
+
+  const builders: Record<ExportFormat, (journeys: Journey[]) => string> = {
+    gpx: journeysToGpx,
+    kml: journeysToKml,
+    geojson: journeysToGeoJson
+  };
+
+  return {
+    fileName: `${baseName}.${extension}`,
+    mimeType,
+    content: builders[exportFormat](journeys)
+  };
+};
+
+const downloadFile = (file: ExportFile): void => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Hands an export to the user: the native share sheet on Capacitor (the file is written
+ * to the cache directory first), a regular download in the browser.
+ */
+export const saveExportFile = async (file: ExportFile): Promise<void> => {
+  if (!Capacitor.isNativePlatform()) {
+    downloadFile(file);
+    return;
+  }
+
+  const { uri } = await Filesystem.writeFile({
+    path: file.fileName,
+    data: file.content,
+    directory: Directory.Cache,
+    encoding: Encoding.UTF8
+  });
+
+  await Share.share({
+    title: file.fileName,
+    files: [uri],
+    dialogTitle: 'Share journeys'
+  });
+};
@@ -0,0 +1,113 @@
+import { endOfDay, startOfDay } from 'date-fns';
+import { Destination, Journey, TransportMode } from '@/types';
+import { calculateDistance } from '@/utils/geolocation';
+import { getTrackDistance } from '@/utils/track';
+import { JourneyQuery } from '@/services/storageAdapter';
+
+export const TRANSPORT_ICONS: Record<TransportMode, string> = {
+  bus: '🚌',
+  train: '🚆',
+  car: '🚗',
+  walk: '🚶'
+};
+
+export interface JourneyHistoryFilters {
+  query: string;
+  transportModes: TransportMode[]; // empty matches every mode
+  destinationId: string | null;
+  from: Date | null;
+  to: Date | null;
+}
+
+export const EMPTY_HISTORY_FILTERS: JourneyHistoryFilters = {
+  query: '',
+  transportModes: [],
+  destinationId: null,
+  from: null,
+  to: null
+};
+
+// Finished journeys are either arrived or stopped early by the user
+export type JourneyOutcome = 'arrived' | 'stopped';
+
+export const getJourneyOutcome = (journey: Journey): JourneyOutcome =>
+  journey.status === 'arrived' || journey.actualArrival !== undefined ? 'arrived' : 'stopped';
+
+export const getJourneyDuration = (journey: Journey): number | null =>
+  journey.endTime !== undefined ? journey.endTime - journey.startTime : null;
+
+// Distance covered: the recorded track when there is one, otherwise start to end as the crow flies
+export const getJourneyDistance = (journey: Journey): number | null => {
+  if (journey.track && journey.track.length > 1) {
+    return getTrackDistance(journey.track);
+  }
+
+  const end = journey.currentLocation ?? (getJourneyOutcome(journey) === 'arrived' ? journey.destination.location : undefined);
+  if (journey.startLocation && end) {
+    return calculateDistance(journey.startLocation, end);
+  }
+
+  return null;
+};
+
+export const hasActiveFilters = (filters: JourneyHistoryFilters): boolean =>
+  filters.query.trim() !== ''
+  || filters.transportModes.length > 0
+  || filters.destinationId !== null
+  || filters.from !== null
+  || filters.to !== null;
+
+// The part of the filters the storage backend can answer from its indexes
+export const toJourneyQuery = (filters: Pick<JourneyHistoryFilters, 'from' | 'to' | 'destinationId'>): JourneyQuery | null => {
+  if (!filters.from && !filters.to && !filters.destinationId) return null;
+
+  return {
+    from: filters.from ? startOfDay(filters.from).getTime() : undefined,
+    to: filters.to ? endOfDay(filters.to).getTime() : undefined,
+    destinationId: filters.destinationId ?? undefined
+  };
+};
+
+export const filterJourneys = (journeys: Journey[], filters: JourneyHistoryFilters): Journey[] => {
+  const query = filters.query.trim().toLowerCase();
+  const from = filters.from ? startOfDay(filters.from).getTime() : -Infinity;
+  const to = filters.to ? endOfDay(filters.to).getTime() : Infinity;
+
+  return journeys.filter(journey => {
+    if (journey.startTime < from || journey.startTime > to) return false;
+    if (filters.transportModes.length > 0 && !filters.transportModes.includes(journey.transportMode)) return false;
+    if (filters.destinationId && journey.destination.id !== filters.destinationId) return false;
+
+    if (query) {
+      const haystack = `${journey.destination.name} ${journey.destination.address}`.toLowerCase();
+      if (!haystack.includes(query)) return false;
+    }
+
+    return true;
+  });
+};
+
+export interface DestinationFrequency {
+  destination: Destination;
+  count: number;
+}
+
+// Destinations by number of journeys, most frequent first
+export const getDestinationFrequencies = (journeys: Journey[]): DestinationFrequency[] => {
+  const counts = new Map<string, DestinationFrequency>();
+
+  journeys.forEach(journey => {
+    const entry = counts.get(journey.destination.id);
+    if (entry) {
+      entry.count += 1;
+    } else {
+      counts.set(journey.destination.id, { destination: journey.destination, count: 1 });
+    }
+  });
+
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+};
+
+// Destinations that appear in the history, most visited first
+export const getHistoryDestinations = (journeys: Journey[]): Destination[] =>
+  getDestinationFrequencies(journeys).map(entry => entry.destination);
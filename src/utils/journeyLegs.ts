@@ -0,0 +1,70 @@
+import { AlertRules, Destination, Journey, JourneyLeg, Location, Route, TransportMode } from '@/types';
+import { getDistanceToDestination } from '@/utils/journeyRoute';
+
+// A leg as chosen before the journey starts
+export interface JourneyLegPlan {
+  destination: Destination;
+  transportMode: TransportMode;
+  alertRules?: AlertRules;
+  route?: Route;
+}
+
+// Single-destination journeys are treated as one leg
+export const getJourneyLegs = (journey: Journey): JourneyLeg[] =>
+  journey.legs ?? [{
+    destination: journey.destination,
+    transportMode: journey.transportMode,
+    alertRules: journey.alertRules,
+    route: journey.route,
+    startTime: journey.startTime,
+    endTime: journey.actualArrival
+  }];
+
+export const getCurrentLegIndex = (journey: Journey): number =>
+  journey.legs ? Math.min(journey.currentLeg ?? 0, journey.legs.length - 1) : 0;
+
+export const getCurrentLeg = (journey: Journey): JourneyLeg => getJourneyLegs(journey)[getCurrentLegIndex(journey)];
+
+export const getNextLeg = (journey: Journey): JourneyLeg | null =>
+  getJourneyLegs(journey)[getCurrentLegIndex(journey) + 1] ?? null;
+
+export const isFinalLeg = (journey: Journey): boolean => getNextLeg(journey) === null;
+
+// Rules for the current leg: the leg's own, then the journey's, then the user's preferences
+export const getLegAlertRules = (journey: Journey, fallback: AlertRules): AlertRules =>
+  getCurrentLeg(journey).alertRules ?? journey.alertRules ?? fallback;
+
+// Distance from `from` through the end of each leg, along each leg's route where it has one
+const sumLegDistances = (legs: JourneyLeg[], from: Location): number => {
+  let position = from;
+  return legs.reduce((total, leg) => {
+    const distance = getDistanceToDestination(leg.route, leg.destination.location, position);
+    position = leg.destination.location;
+    return total + distance;
+  }, 0);
+};
+
+// Distance from the start through every transfer point to the destination
+export const getTotalJourneyDistance = (journey: Journey): number | null =>
+  journey.startLocation ? sumLegDistances(getJourneyLegs(journey), journey.startLocation) : null;
+
+/**
+ * Distance to the end of the current leg plus the legs still to come. The current leg
+ * uses the journey's own distance where it has one: the engine measures it forward
+ * along the route from the last fix, which a fresh snap on a looping route may not agree with.
+ */
+export const getRemainingJourneyDistance = (journey: Journey, location: Location): number => {
+  const [leg, ...laterLegs] = getJourneyLegs(journey).slice(getCurrentLegIndex(journey));
+  const legDistance = journey.distance ?? getDistanceToDestination(leg.route, leg.destination.location, location);
+  return legDistance + sumLegDistances(laterLegs, leg.destination.location);
+};
+
+const TRANSFER_ACTIONS: Record<TransportMode, string> = {
+  bus: 'take the bus',
+  train: 'take the train',
+  car: 'drive',
+  walk: 'walk'
+};
+
+export const getTransferMessage = (leg: JourneyLeg, nextLeg: JourneyLeg): string =>
+  `Change here at ${leg.destination.name} and ${TRANSFER_ACTIONS[nextLeg.transportMode]} to ${nextLeg.destination.name}.`;
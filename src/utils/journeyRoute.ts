@@ -0,0 +1,94 @@
+import { Destination, Journey, LatLngTuple, Location, Route, RouteSource, TransitRide } from '@/types';
+import { calculateDistance } from '@/utils/geolocation';
+import { getCumulativeDistances, projectOntoPolyline, toLocation } from '@/utils/routeGeometry';
+
+// Further than this from the route and the position is treated as off it
+export const OFF_ROUTE_DISTANCE = 250;
+// A previous trip counts as going to the same place if it ended this close to it
+const SAME_DESTINATION_DISTANCE = 100;
+// Along-route position may slip back this far between fixes to allow for GPS noise
+export const BACKTRACK_ALLOWANCE = 200;
+
+export interface RouteProgress {
+  distanceAlong: number; // meters from the start of the route
+  remaining: number; // meters along the route, then straight on to the destination
+}
+
+interface RouteGeometry {
+  line: LatLngTuple[];
+  cumulative: number[];
+}
+
+// Routes are never mutated once attached to a journey, so their geometry is worked out once
+const geometryCache = new WeakMap<Route, RouteGeometry>();
+
+const getRouteGeometry = (route: Route): RouteGeometry => {
+  const cached = geometryCache.get(route);
+  if (cached) return cached;
+
+  const line = route.points.map(({ lat, lng }): LatLngTuple => [lat, lng]);
+  const geometry = { line, cumulative: getCumulativeDistances(line) };
+  geometryCache.set(route, geometry);
+  return geometry;
+};
+
+export const createRoute = (points: Location[], source: RouteSource, duration = 0): Route => ({
+  points: points.map(({ lat, lng }) => ({ lat, lng })),
+  distance: getCumulativeDistances(points.map(({ lat, lng }): LatLngTuple => [lat, lng])).pop() ?? 0,
+  duration,
+  source
+});
+
+export const getTransitRoute = (ride: TransitRide): Route => createRoute(ride.shape.map(toLocation), 'transit');
+
+// The track of the latest completed trip that ended at the same place
+export const findRecordedRoute = (history: Journey[], destination: Destination): Route | null => {
+  const previous = history.find(journey =>
+    journey.status === 'arrived'
+    && (journey.track?.length ?? 0) >= 2
+    && (journey.destination.id === destination.id
+      || calculateDistance(journey.destination.location, destination.location) <= SAME_DESTINATION_DISTANCE)
+  );
+  if (!previous?.track) return null;
+
+  const track = previous.track;
+  return createRoute(track, 'recorded', track[track.length - 1].timestamp - track[0].timestamp);
+};
+
+// A leg's route: the transit shape when riding a known route, else one given when planning, else a past trip
+export const resolveRoute = (destination: Destination, route: Route | undefined, history: Journey[]): Route | undefined =>
+  (destination.transit ? getTransitRoute(destination.transit) : undefined)
+  ?? route
+  ?? findRecordedRoute(history, destination)
+  ?? undefined;
+
+/**
+ * Snaps a position onto the route and measures what is left along it. Passing the
+ * previous `distanceAlong` keeps the position from jumping ahead onto a later part of
+ * the route that happens to pass nearby. Null when the position is off the route.
+ */
+export const getRouteProgress = (
+  route: Route,
+  destination: Location,
+  location: Location,
+  previousDistanceAlong: number | null = null
+): RouteProgress | null => {
+  const { line, cumulative } = getRouteGeometry(route);
+  if (line.length < 2) return null;
+
+  const fromDistance = previousDistanceAlong === null ? 0 : Math.max(0, previousDistanceAlong - BACKTRACK_ALLOWANCE);
+  const projection = projectOntoPolyline(line, location, cumulative, fromDistance);
+  if (!projection || projection.offset > OFF_ROUTE_DISTANCE) return null;
+
+  const routeEnd = toLocation(line[line.length - 1]);
+  const alongRoute = cumulative[cumulative.length - 1] - projection.distanceAlong + calculateDistance(routeEnd, destination);
+  return {
+    distanceAlong: projection.distanceAlong,
+    // Snapping can land ahead of a position beside the route; it is never closer than a straight line
+    remaining: Math.max(alongRoute, calculateDistance(location, destination))
+  };
+};
+
+// Along the route where possible, straight-line otherwise
+export const getDistanceToDestination = (route: Route | undefined, destination: Location, location: Location): number =>
+  (route && getRouteProgress(route, destination, location)?.remaining) ?? calculateDistance(location, destination);
@@ -0,0 +1,78 @@
+import { Destination, Location, TransitFeed, TransitStop, TransportMode } from '@/types';
+import { calculateDistance, formatDistance } from '@/utils/geolocation';
+import { getRouteName } from '@/utils/gtfs';
+
+// How far the distance may grow past its closest approach before the stop counts as passed
+export const MISSED_STOP_MARGIN = 300;
+// Leaving the arrival radius faster than this means still on board rather than walking away
+export const WALKING_SPEED = 2.5; // m/s
+// How long a ride may sit in the arrival radius unconfirmed before it counts as arrived
+export const ARRIVAL_HOLD_LIMIT = 3 * 60 * 1000;
+
+// Riders can be carried past their stop; walkers and drivers stop where they choose
+const RIDE_MODES: TransportMode[] = ['bus', 'train'];
+// A stop this close to the destination serves it
+const DESTINATION_STOP_RADIUS = 250;
+// Return options further than this on foot are not worth suggesting
+const MAX_WALK_DISTANCE = 1000;
+
+export interface ReturnOption {
+  stop: TransitStop;
+  routeName: string;
+  headsign: string;
+  walkDistance: number;
+}
+
+export const isRideMode = (transportMode: TransportMode): boolean => RIDE_MODES.includes(transportMode);
+
+// Speed in m/s between two consecutive fixes, or null without timestamps to compare
+export const getStepSpeed = (previous: Location | null, current: Location): number | null => {
+  if (!previous?.timestamp || !current.timestamp || current.timestamp <= previous.timestamp) return null;
+  return calculateDistance(previous, current) / ((current.timestamp - previous.timestamp) / 1000);
+};
+
+/**
+ * The closest stop within walking distance that has a service calling at a stop near
+ * the destination later on, usually the same route running the other way.
+ */
+export const findReturnOption = (feed: TransitFeed | null, location: Location, destination: Location): ReturnOption | null => {
+  if (!feed) return null;
+
+  const stops = new Map(feed.stops.map(stop => [stop.id, stop]));
+  let best: ReturnOption | null = null;
+
+  feed.routes.forEach(route => {
+    route.patterns.forEach(pattern => {
+      const patternStops = pattern.stopIds.map(id => stops.get(id)).filter((stop): stop is TransitStop => !!stop);
+      const lastServing = patternStops.map(stop => calculateDistance(stop.location, destination) <= DESTINATION_STOP_RADIUS)
+        .lastIndexOf(true);
+
+      // Boarding has to happen before the stop that serves the destination
+      patternStops.slice(0, Math.max(0, lastServing)).forEach(stop => {
+        const walkDistance = calculateDistance(location, stop.location);
+        if (walkDistance <= MAX_WALK_DISTANCE && (!best || walkDistance < best.walkDistance)) {
+          best = { stop, routeName: getRouteName(route), headsign: pattern.headsign, walkDistance };
+        }
+      });
+    });
+  });
+
+  return best;
+};
+
+export const getReturnSuggestion = (
+  destination: Destination,
+  transportMode: TransportMode,
+  location: Location,
+  feed: TransitFeed | null
+): string => {
+  const option = findReturnOption(feed, location, destination.location);
+  if (option) {
+    return `Walk ${formatDistance(option.walkDistance)} to ${option.stop.name} and take ${option.routeName} towards ${option.headsign}.`;
+  }
+
+  const behind = formatDistance(calculateDistance(location, destination.location));
+  return isRideMode(transportMode)
+    ? `${destination.name} is ${behind} back. Get off at the next stop and head back.`
+    : `${destination.name} is ${behind} back. Turn around when it is safe.`;
+};
@@ -1,10 +1,44 @@
-import { NotificationPayload } from '@/types';
+import { AlarmSettings, Alert, AlertType, NotificationPayload, UserPreferences } from '@/types';
+import { getAlertTitle } from '@/utils/alertRules';
+import { NOTIFICATION_SNOOZE, describeSnooze } from '@/utils/alarms';
+import { getAlarmPlayback } from '@/utils/alarmProfiles';
+import { AlarmPlayer } from '@/utils/alarmPlayer';
+import { StorageManager } from '@/utils/storage';
+import { serviceWorkerManager } from '@/services/serviceWorker';
+import { nativeNotifications } from '@/services/nativeNotifications';
+import { alarmSounds } from '@/services/alarmSounds';
+
+// The DOM typings leave out actions, which only service worker notifications support
+type ServiceWorkerNotificationOptions = NotificationOptions & Pick<NotificationPayload, 'actions'>;
+
+// Offered on alerts that sound an alarm; browsers showing only two drop the last
+const ALARM_ACTIONS: NotificationPayload['actions'] = [
+  { action: 'silence_alarm', title: "I'm Awake" },
+  { action: 'snooze_alarm', title: `Snooze ${describeSnooze(NOTIFICATION_SNOOZE)}` },
+  { action: 'end_journey', title: 'End Journey' }
+];
+
+// Reminders replace the notification of the alert they repeat
+const ALARM_TAGS: Record<Exclude<AlertType, 'emergency'>, string> = {
+  first_warning: 'transit-progress',
+  approaching: 'transit-progress',
+  final_warning: 'transit-final',
+  arrived: 'transit-final',
+  transfer: 'transit-transfer',
+  missed_stop: 'transit-missed-stop'
+};
+
+// Cycles of the long warning alarm before it turns into the emergency sound
+const LONG_ALARM_ESCALATE_AFTER = 3;
+// Quiet between cycles of the long warning alarm
+const LONG_ALARM_GAP = 2000;
 
 export class NotificationManager {
   private permission: NotificationPermission = 'default';
   private audioContext: AudioContext | null = null;
-  private alarmAudio: HTMLAudioElement | null = null;
+  private alarmPlayer = new AlarmPlayer();
   private longAlarmInterval: NodeJS.Timeout | null = null;
+  private vibrationRepeats: NodeJS.Timeout[] = [];
 
   constructor() {
     this.checkPermission();
@@ -19,19 +53,18 @@ export class NotificationManager {
 
   private initializeAudio(): void {
     try {
-      // Initialize AudioContext for alarm sounds
+      // Synthesised sounds stand in when an alarm's audio cannot play
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      
-      // Create alarm audio element
-      this.alarmAudio = new Audio();
-      this.alarmAudio.loop = false;
-      this.alarmAudio.volume = 0.8;
     } catch (error) {
       console.warn('Audio context not supported:', error);
     }
   }
 
   async requestPermission(): Promise<boolean> {
+    if (nativeNotifications.isSupported()) {
+      return nativeNotifications.requestPermission();
+    }
+
     if (!('Notification' in window)) {
       console.warn('This browser does not support notifications');
       return false;
@@ -50,21 +83,52 @@ export class NotificationManager {
     return permission === 'granted';
   }
 
+  // Which of sound, vibration and system notifications the rider has turned on
+  private getOutputs(): UserPreferences['notifications'] {
+    return StorageManager.getPreferences().notifications;
+  }
+
   async showNotification(payload: NotificationPayload): Promise<void> {
+    const { sound, visual } = this.getOutputs();
+    if (!visual) return;
+
+    if (nativeNotifications.isSupported()) {
+      await nativeNotifications.show(payload, !sound);
+      return;
+    }
+
     if (!await this.requestPermission()) {
       console.warn('Notification permission not granted');
       return;
     }
 
+    const options: NotificationOptions = {
+      body: payload.body,
+      icon: payload.icon || '/icon-192x192.png',
+      badge: payload.badge || '/icon-192x192.png',
+      tag: payload.tag,
+      requireInteraction: payload.requireInteraction || false,
+      silent: !sound
+    };
+
     try {
-      const notification = new Notification(payload.title, {
-        body: payload.body,
-        icon: payload.icon || '/icon-192x192.png',
-        badge: payload.badge || '/icon-192x192.png',
-        tag: payload.tag,
-        requireInteraction: payload.requireInteraction || false,
-        silent: false
-      });
+      // Through the service worker where there is one, so alerts still show while the tab is in the background
+      const registration = serviceWorkerManager.getRegistration();
+      if (registration) {
+        // Actions are only allowed on these; the page Notification constructor rejects them
+        const persistentOptions: ServiceWorkerNotificationOptions = { ...options, actions: payload.actions };
+        await registration.showNotification(payload.title, persistentOptions);
+
+        if (!payload.requireInteraction && payload.tag) {
+          setTimeout(async () => {
+            const shown = await registration.getNotifications({ tag: payload.tag });
+            shown.forEach(notification => notification.close());
+          }, 10000);
+        }
+        return;
+      }
+
+      const notification = new Notification(payload.title, options);
 
       // Auto-close after 10 seconds if not requiring interaction
       if (!payload.requireInteraction) {
@@ -83,46 +147,54 @@ export class NotificationManager {
     }
   }
 
-  async showProgressAlert(distance: number, estimatedTime: number): Promise<void> {
+  async showProgressAlert(
+    alertType: 'first_warning' | 'approaching',
+    distance: number,
+    estimatedTime: number,
+    message?: string
+  ): Promise<void> {
     const timeText = this.formatTime(estimatedTime);
     const distanceText = this.formatDistance(distance);
+    const isFirstWarning = alertType === 'first_warning';
 
-    // Special handling for 1km warning - long alarm
-    if (distance <= 1200 && distance > 800) {
-      console.log('Playing long 1km warning alarm');
-      this.playLongWarningAlarm();
-      this.vibrateLong([500, 200, 500, 200, 500, 200, 500, 200, 500]);
+    // Special handling for the first warning - long alarm
+    if (isFirstWarning) {
+      console.log('Playing long first warning alarm');
+      this.soundAlert(alertType, 0, true);
+      this.vibrateAlert([500, 200, 500, 200, 500, 200, 500, 200, 500], true);
     } else {
-      // Regular alert sound and vibrate for other distances
-      this.playAlertSound();
-      this.vibrate([300, 100, 300]);
+      // Regular alert sound and vibrate for other alerts
+      this.soundAlert(alertType);
+      this.vibrateAlert([300, 100, 300]);
     }
 
     await this.showNotification({
-      title: distance <= 1200 ? '🚨 1KM WARNING!' : '🚌 Transit Alert',
-      body: distance <= 1200 
-        ? `APPROACHING DESTINATION! Get ready in ${timeText}` 
-        : `Approaching destination in ${timeText} (${distanceText})`,
+      title: getAlertTitle(alertType),
+      body: message ?? (isFirstWarning
+        ? `APPROACHING DESTINATION! Get ready in ${timeText} (${distanceText})`
+        : `Approaching destination in ${timeText} (${distanceText})`),
       icon: '/icon-192x192.png',
-      tag: 'transit-progress',
-      requireInteraction: distance <= 1200 // Require interaction for 1km warning
+      tag: ALARM_TAGS[alertType],
+      requireInteraction: isFirstWarning, // Require interaction for the first warning
+      actions: ALARM_ACTIONS
     });
   }
 
-  async showFinalAlert(): Promise<void> {
+  async showFinalAlert(message?: string): Promise<void> {
     // Stop any ongoing long alarms
     this.stopLongAlarm();
     
     // Play urgent alarm and strong vibration
-    this.playUrgentAlarm();
-    this.vibrate([500, 200, 500, 200, 500]);
+    this.soundAlert('final_warning');
+    this.vibrateAlert([500, 200, 500, 200, 500]);
 
     await this.showNotification({
       title: '🎯 Final Alert!',
-      body: 'You are very close to your destination. Get ready to exit!',
+      body: message ?? 'You are very close to your destination. Get ready to exit!',
       icon: '/icon-192x192.png',
-      tag: 'transit-final',
-      requireInteraction: true
+      tag: ALARM_TAGS.final_warning,
+      requireInteraction: true,
+      actions: ALARM_ACTIONS
     });
   }
 
@@ -131,8 +203,8 @@ export class NotificationManager {
     this.stopLongAlarm();
     
     // Play success sound and gentle vibration
-    this.playSuccessSound();
-    this.vibrate([200, 100, 200, 100, 200]);
+    this.soundAlert('arrived');
+    this.vibrateAlert([200, 100, 200, 100, 200]);
 
     await this.showNotification({
       title: '✅ Destination Reached!',
@@ -143,13 +215,96 @@ export class NotificationManager {
     });
   }
 
+  async showTransferAlert(message: string): Promise<void> {
+    // A transfer replaces any alarm left over from the previous leg
+    this.stopLongAlarm();
+
+    this.soundAlert('transfer');
+    this.vibrateAlert([500, 200, 500, 200, 500]);
+
+    await this.showNotification({
+      title: getAlertTitle('transfer'),
+      body: message,
+      icon: '/icon-192x192.png',
+      tag: ALARM_TAGS.transfer,
+      requireInteraction: true,
+      actions: ALARM_ACTIONS
+    });
+  }
+
+  // Repeats until the rider responds, getting longer and more insistent each time
+  async showMissedStopAlert(message: string, level = 0): Promise<void> {
+    this.soundEscalatingAlarm('missed_stop', level);
+
+    await this.showNotification({
+      title: getAlertTitle('missed_stop'),
+      body: message,
+      icon: '/icon-192x192.png',
+      tag: ALARM_TAGS.missed_stop,
+      requireInteraction: true,
+      actions: ALARM_ACTIONS
+    });
+  }
+
+  // Sounds an alert again when nobody has responded to it; level 1 is the first repeat
+  async showAlarmReminder(alert: Alert, level: number): Promise<void> {
+    if (alert.type === 'emergency') return;
+
+    this.soundEscalatingAlarm(alert.type, level);
+
+    await this.showNotification({
+      title: getAlertTitle(alert.type),
+      body: alert.message,
+      icon: '/icon-192x192.png',
+      tag: ALARM_TAGS[alert.type],
+      requireInteraction: true,
+      actions: ALARM_ACTIONS
+    });
+  }
+
+  private soundEscalatingAlarm(alertType: AlertType, level: number): void {
+    this.stopLongAlarm();
+
+    if (level === 0) {
+      this.soundAlert(alertType);
+      this.vibrateAlert([500, 200, 500, 200, 500]);
+    } else if (level === 1) {
+      this.soundAlert(alertType, level);
+      this.vibrateAlert([800, 200, 800, 200, 800], true);
+    } else {
+      this.soundAlert(alertType, level, true);
+      this.vibrateAlert([1000, 200, 1000, 200, 1000, 200, 1000], true);
+    }
+  }
+
+  // Alerts sound and vibrate only as far as the rider's notification settings allow
+  private soundAlert(alertType: AlertType, level = 0, long = false): void {
+    if (!this.getOutputs().sound) return;
+
+    if (long) {
+      this.playLongWarningAlarm(alertType, level);
+    } else {
+      this.playAlarmSound(alertType, level);
+    }
+  }
+
+  private vibrateAlert(pattern: number[], long = false): void {
+    if (!this.getOutputs().vibration) return;
+
+    if (long) {
+      this.vibrateLong(pattern);
+    } else {
+      this.vibrate(pattern);
+    }
+  }
+
   async showEmergencyAlert(message: string): Promise<void> {
     // Stop any ongoing alarms
     this.stopLongAlarm();
     
     // Play emergency alarm with continuous vibration
-    this.playEmergencyAlarm();
-    this.vibrate([100, 50, 100, 50, 100, 50, 100, 50, 100]);
+    this.soundAlert('emergency');
+    this.vibrateAlert([100, 50, 100, 50, 100, 50, 100, 50, 100]);
 
     await this.showNotification({
       title: '🚨 Emergency Alert',
@@ -187,32 +342,35 @@ export class NotificationManager {
     if ('vibrate' in navigator) {
       navigator.vibrate(pattern);
       // Repeat the pattern 3 times for long vibration
-      setTimeout(() => navigator.vibrate(pattern), 2000);
-      setTimeout(() => navigator.vibrate(pattern), 4000);
+      this.vibrationRepeats = [
+        setTimeout(() => navigator.vibrate(pattern), 2000),
+        setTimeout(() => navigator.vibrate(pattern), 4000)
+      ];
     } else {
       console.warn('Vibration API not supported on this device');
     }
   }
 
-  playLongWarningAlarm(): void {
+  // Sounds until stopped, which happens when the alarm is acknowledged, snoozed or replaced
+  playLongWarningAlarm(alertType: AlertType = 'first_warning', level = 0): void {
     console.log('Starting long warning alarm...');
     this.stopLongAlarm(); // Stop any existing alarm
     
     let alarmCount = 0;
-    const maxAlarms = 6; // Play alarm 6 times over 30 seconds
     
     const playAlarmCycle = () => {
-      if (alarmCount >= maxAlarms) {
-        console.log('Long warning alarm completed');
-        return;
+      // The alert's own sound for the first few cycles, then the emergency sound and vibration
+      if (alarmCount < LONG_ALARM_ESCALATE_AFTER) {
+        this.playAlarmSound(alertType, level);
+      } else {
+        this.playAlarmSound('emergency', 2);
+        this.vibrateAlert([1000, 200, 1000]);
       }
-      
-      // Play urgent beeping pattern
-      this.playUrgentBeepSequence();
       alarmCount++;
       
-      // Schedule next alarm cycle
-      this.longAlarmInterval = setTimeout(playAlarmCycle, 5000); // Every 5 seconds
+      // Schedule the next cycle once this one has had its full length
+      const { duration } = StorageManager.getPreferences().alarm;
+      this.longAlarmInterval = setTimeout(playAlarmCycle, duration + LONG_ALARM_GAP);
     };
     
     playAlarmCycle();
@@ -227,11 +385,18 @@ export class NotificationManager {
   }
 
   stopLongAlarm(): void {
+    this.alarmPlayer.stop();
     if (this.longAlarmInterval) {
       clearTimeout(this.longAlarmInterval);
       this.longAlarmInterval = null;
       console.log('Long alarm stopped');
     }
+    // Cuts short any vibration pattern still running
+    this.vibrationRepeats.forEach(clearTimeout);
+    this.vibrationRepeats = [];
+    if ('vibrate' in navigator) {
+      navigator.vibrate(0);
+    }
   }
 
   playAlertSound(): void {
@@ -308,6 +473,56 @@ export class NotificationManager {
     }
   }
 
+  // Plays the alert's sound from the alarm settings, or a synthesised one if the audio cannot play
+  private async playAlarmSound(
+    alertType: AlertType,
+    level = 0,
+    settings: AlarmSettings = StorageManager.getPreferences().alarm
+  ): Promise<void> {
+    const playback = getAlarmPlayback(alertType, settings, level);
+
+    try {
+      const url = await alarmSounds.getSoundUrl(playback.sound);
+      if (!url) {
+        throw new Error(`No audio for the ${playback.sound} sound`);
+      }
+      await this.alarmPlayer.play(url, playback);
+    } catch (error) {
+      console.warn('Could not play alarm sound, synthesising one instead:', error);
+      this.playSynthesizedSound(alertType);
+    }
+  }
+
+  // Settings can preview sounds they have not saved yet
+  previewAlertSound(alertType: AlertType, settings?: AlarmSettings): void {
+    this.stopLongAlarm();
+    this.playAlarmSound(alertType, 0, settings);
+  }
+
+  private playSynthesizedSound(alertType: AlertType): void {
+    switch (alertType) {
+      case 'first_warning':
+        this.playUrgentBeepSequence();
+        break;
+      case 'approaching':
+        this.playAlertSound();
+        break;
+      case 'final_warning':
+      case 'transfer':
+        this.playUrgentAlarm();
+        break;
+      case 'missed_stop':
+        this.playEmergencyAlarm();
+        break;
+      case 'arrived':
+        this.playSuccessSound();
+        break;
+      case 'emergency':
+        this.playWarningAlarm();
+        break;
+    }
+  }
+
   playSound(frequency: number = 800, duration: number = 200): void {
     this.playTone(frequency, duration);
   }
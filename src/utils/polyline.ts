@@ -0,0 +1,36 @@
+import { Location } from '@/types';
+
+/**
+ * Decodes an encoded polyline as used by Google, OSRM and Valhalla. OSRM defaults to
+ * precision 5; Valhalla and OSRM's `polyline6` geometries use precision 6.
+ */
+export const decodePolyline = (encoded: string, precision = 5): Location[] => {
+  const factor = Math.pow(10, precision);
+  const points: Location[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const readValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) {
+        throw new Error('Encoded polyline ends mid-value');
+      }
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += readValue();
+    lng += readValue();
+    points.push({ lat: lat / factor, lng: lng / factor });
+  }
+
+  return points;
+};
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+
+export const transportModeSchema = z.enum(['bus', 'train', 'car', 'walk']);
+
+export const alertRuleSchema = z.object({
+  enabled: z.boolean(),
+  trigger: z.enum(['distance', 'time', 'both']),
+  distance: z.number()
+    .min(0, 'Distance cannot be negative')
+    .max(10000, 'Distance must be at most 10km'),
+  time: z.number()
+    .min(0, 'Time cannot be negative')
+    .max(3600000, 'Time must be at most 60 minutes'),
+  stops: z.number()
+    .int()
+    .min(0, 'Stops cannot be negative')
+    .max(10, 'Stops must be at most 10')
+    .optional()
+});
+
+export const alertRulesSchema = z.object({
+  first_warning: alertRuleSchema,
+  approaching: alertRuleSchema,
+  final_warning: alertRuleSchema,
+  arrived: alertRuleSchema
+}).refine(rules => rules.final_warning.distance < rules.approaching.distance, {
+  message: 'Final warning must be closer than the approaching alert',
+  path: ['final_warning', 'distance']
+}).refine(rules => rules.arrived.distance < rules.final_warning.distance, {
+  message: 'Arrival radius must be closer than the final warning',
+  path: ['arrived', 'distance']
+});
+
+const alarmSoundSchema = z.enum(['chime', 'beeps', 'klaxon', 'siren', 'success', 'custom']);
+
+export const alarmSettingsSchema = z.object({
+  profile: z.enum(['gentle', 'standard', 'heavy_sleeper']),
+  sounds: z.object({
+    first_warning: alarmSoundSchema,
+    approaching: alarmSoundSchema,
+    final_warning: alarmSoundSchema,
+    arrived: alarmSoundSchema,
+    transfer: alarmSoundSchema,
+    missed_stop: alarmSoundSchema,
+    emergency: alarmSoundSchema
+  }),
+  rampVolume: z.boolean(),
+  duration: z.number()
+    .min(5000, 'Alarms must sound for at least 5 seconds')
+    .max(120000, 'Alarms must sound for at most 2 minutes'),
+  repeat: z.number()
+    .int()
+    .min(1, 'Play the sound at least once')
+    .max(20, 'Play the sound at most 20 times'),
+  customSound: z.object({
+    name: z.string(),
+    type: z.string()
+  }).optional()
+});
+
+export const preferencesSchema = z.object({
+  defaultTransportMode: transportModeSchema,
+  alertRules: alertRulesSchema,
+  notifications: z.object({
+    sound: z.boolean(),
+    vibration: z.boolean(),
+    visual: z.boolean()
+  }),
+  tracking: z.object({
+    batteryOptimization: z.boolean(),
+    backgroundLocation: z.boolean()
+  }),
+  routing: z.object({
+    enabled: z.boolean(),
+    engine: z.enum(['osrm', 'valhalla']),
+    baseUrl: z.string().url('Enter a full URL, e.g. http://localhost:5000')
+  }),
+  safety: z.object({
+    overdueDelay: z.number().min(60000)
+  }),
+  alarm: alarmSettingsSchema,
+  appearance: z.object({
+    theme: z.enum(['dark', 'light', 'auto']),
+    animations: z.boolean(),
+    particles: z.boolean()
+  })
+});
+
+export type PreferencesFormValues = z.infer<typeof preferencesSchema>;
@@ -0,0 +1,110 @@
+import { LatLngTuple, Location } from '@/types';
+import { calculateDistance } from '@/utils/geolocation';
+
+// Where a position lands on a polyline
+export interface PolylineProjection {
+  distanceAlong: number; // meters from the start of the line to the projected point
+  offset: number; // meters from the position to the line
+  point: Location;
+  segment: number; // index of the segment's first vertex
+}
+
+export const toLocation = ([lat, lng]: LatLngTuple): Location => ({ lat, lng });
+
+// Distance from the first vertex to each vertex
+export const getCumulativeDistances = (line: LatLngTuple[]): number[] => {
+  const distances = [0];
+  for (let i = 1; i < line.length; i++) {
+    distances.push(distances[i - 1] + calculateDistance(toLocation(line[i - 1]), toLocation(line[i])));
+  }
+  return distances;
+};
+
+// Fraction along a segment closest to the point, on a local flat projection - accurate
+// enough for the short segments of a route shape
+const projectOntoSegment = (point: Location, start: LatLngTuple, end: LatLngTuple): number => {
+  const scale = Math.cos((point.lat * Math.PI) / 180);
+  const dx = (end[1] - start[1]) * scale;
+  const dy = end[0] - start[0];
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return 0;
+
+  const t = (((point.lng - start[1]) * scale) * dx + (point.lat - start[0]) * dy) / lengthSquared;
+  return Math.min(1, Math.max(0, t));
+};
+
+/**
+ * Snaps a position to the nearest point of a polyline. Segments ending before
+ * `fromDistance` are ignored, so positions can be kept moving forward along lines
+ * that pass close to themselves.
+ */
+export const projectOntoPolyline = (
+  line: LatLngTuple[],
+  location: Location,
+  cumulative: number[] = getCumulativeDistances(line),
+  fromDistance = 0
+): PolylineProjection | null => {
+  if (line.length === 0) return null;
+  if (line.length === 1) {
+    const point = toLocation(line[0]);
+    return { distanceAlong: 0, offset: calculateDistance(location, point), point, segment: 0 };
+  }
+
+  let best: PolylineProjection | null = null;
+  let bestApproximateOffset = Infinity;
+
+  for (let i = 0; i < line.length - 1; i++) {
+    if (cumulative[i + 1] < fromDistance) continue;
+
+    const [startLat, startLng] = line[i];
+    const [endLat, endLng] = line[i + 1];
+    const t = projectOntoSegment(location, line[i], line[i + 1]);
+    const point = { lat: startLat + (endLat - startLat) * t, lng: startLng + (endLng - startLng) * t };
+
+    // Compare in degrees first and only measure the winner properly
+    const dLat = point.lat - location.lat;
+    const dLng = (point.lng - location.lng) * Math.cos((location.lat * Math.PI) / 180);
+    const approximateOffset = dLat * dLat + dLng * dLng;
+    if (approximateOffset < bestApproximateOffset) {
+      bestApproximateOffset = approximateOffset;
+      best = {
+        distanceAlong: cumulative[i] + (cumulative[i + 1] - cumulative[i]) * t,
+        offset: 0,
+        point,
+        segment: i
+      };
+    }
+  }
+
+  if (!best) return null;
+  best.offset = calculateDistance(location, best.point);
+  return best;
+};
+
+// The line from its start up to `distance` meters along it
+export const clipPolyline = (
+  line: LatLngTuple[],
+  distance: number,
+  cumulative: number[] = getCumulativeDistances(line)
+): LatLngTuple[] => {
+  const clipped: LatLngTuple[] = [];
+
+  for (let i = 0; i < line.length; i++) {
+    if (cumulative[i] >= distance) {
+      const previous = i > 0 ? cumulative[i - 1] : 0;
+      const span = cumulative[i] - previous;
+      const t = span > 0 ? (distance - previous) / span : 1;
+      if (i === 0 || t >= 1) {
+        clipped.push(line[i]);
+      } else {
+        const [startLat, startLng] = line[i - 1];
+        const [endLat, endLng] = line[i];
+        clipped.push([startLat + (endLat - startLat) * t, startLng + (endLng - startLng) * t]);
+      }
+      return clipped;
+    }
+    clipped.push(line[i]);
+  }
+
+  return clipped;
+};
@@ -1,21 +1,37 @@
-import { Journey, Destination, UserPreferences, TravelStats } from '@/types';
+import { z } from 'zod';
+import { Capacitor } from '@capacitor/core';
+import { Journey, Destination, UserPreferences, TravelStats, CommuteTemplate, TransitFeed, OfflineMapArea, EmergencyContact } from '@/types';
+import { DEFAULT_ALERT_RULES } from '@/utils/alertRules';
+import { DEFAULT_ROUTING_URLS } from '@/services/routingService';
+import { getProfileSettings } from '@/utils/alarmProfiles';
+import { preferencesSchema } from '@/utils/preferencesSchema';
+import { computeTravelStats } from '@/utils/travelStats';
+import {
+  STORAGE_KEYS,
+  StorageKey,
+  commuteHolidaysSchema,
+  commuteSchema,
+  emergencyContactSchema,
+  describeValidationError,
+  destinationSchema,
+  journeySchema,
+  offlineMapAreaSchema,
+  transitFeedSchema,
+  travelStatsSchema
+} from '@/utils/storageSchema';
+import { CURRENT_SCHEMA_VERSION, MigrationStore, runMigrations } from '@/utils/storageMigrations';
+import { JourneyQuery, LocalStorageAdapter, StorageAdapter } from '@/services/storageAdapter';
+import { IndexedDbStorageAdapter } from '@/services/indexedDbStorageAdapter';
+import { PreferencesStorageAdapter } from '@/services/preferencesStorageAdapter';
 
-const STORAGE_KEYS = {
-  PREFERENCES: 'smart_transit_preferences',
-  DESTINATIONS: 'smart_transit_destinations',
-  JOURNEY_HISTORY: 'smart_transit_journey_history',
-  TRAVEL_STATS: 'smart_transit_travel_stats',
-  CURRENT_JOURNEY: 'smart_transit_current_journey'
-} as const;
+const MAX_QUARANTINED_RECORDS = 50;
+export const MAX_DESTINATIONS = 50;
+export const MAX_JOURNEY_HISTORY = 100;
 
 // Default preferences
-const DEFAULT_PREFERENCES: UserPreferences = {
+export const DEFAULT_PREFERENCES: UserPreferences = {
   defaultTransportMode: 'bus',
-  alertDistances: {
-    first: 600000, // 10 minutes in ms (approximate)
-    approaching: 1000, // 1km in meters
-    final: 200 // 200m in meters
-  },
+  alertRules: DEFAULT_ALERT_RULES,
   notifications: {
     sound: true,
     vibration: true,
@@ -25,6 +41,15 @@ const DEFAULT_PREFERENCES: UserPreferences = {
     batteryOptimization: true,
     backgroundLocation: true
   },
+  routing: {
+    enabled: true,
+    engine: 'osrm',
+    baseUrl: DEFAULT_ROUTING_URLS.osrm
+  },
+  safety: {
+    overdueDelay: 15 * 60 * 1000
+  },
+  alarm: getProfileSettings('standard'),
   appearance: {
     theme: 'dark',
     animations: true,
@@ -32,50 +57,275 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   }
 };
 
+// A stored record that failed validation, kept aside instead of being discarded
+export interface QuarantinedRecord {
+  key: StorageKey;
+  record: unknown;
+  reason: string;
+  quarantinedAt: number;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Recursively fills in defaults; stored arrays and primitives replace the default outright
+export const mergeWithDefaults = <T>(defaults: T, stored: unknown): T => {
+  if (!isPlainObject(defaults) || !isPlainObject(stored)) {
+    return stored === undefined ? defaults : stored as T;
+  }
+
+  const merged: Record<string, unknown> = { ...defaults };
+  Object.entries(stored).forEach(([key, value]) => {
+    merged[key] = key in defaults ? mergeWithDefaults((defaults as Record<string, unknown>)[key], value) : value;
+  });
+  return merged as T;
+};
+
 export class StorageManager {
-  // Preferences
-  static getPreferences(): UserPreferences {
+  private static adapter: StorageAdapter = new LocalStorageAdapter();
+  // Everything is loaded into memory at startup so reads stay synchronous
+  private static cache: Map<StorageKey, unknown> = new Map();
+  private static validated: Set<StorageKey> = new Set();
+  private static writeQueue: Promise<void> = Promise.resolve();
+
+  private static createAdapter(): StorageAdapter {
+    if (Capacitor.isNativePlatform()) {
+      return new PreferencesStorageAdapter();
+    }
+    return typeof indexedDB !== 'undefined' ? new IndexedDbStorageAdapter() : new LocalStorageAdapter();
+  }
+
+  /**
+   * Opens the storage backend, imports data left in localStorage by earlier versions,
+   * loads everything into memory and brings it up to the current schema. Must complete
+   * before the app renders.
+   */
+  static async initialize(adapter: StorageAdapter = this.createAdapter()): Promise<void> {
     try {
-      const stored = localStorage.getItem(STORAGE_KEYS.PREFERENCES);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        return { ...DEFAULT_PREFERENCES, ...parsed };
-      }
+      await adapter.open();
+      this.adapter = adapter;
     } catch (error) {
-      console.error('Error loading preferences:', error);
+      console.error(`Error opening ${adapter.name} storage, falling back to localStorage:`, error);
+      this.adapter = new LocalStorageAdapter();
+    }
+
+    if (this.adapter.name !== 'localStorage') {
+      await this.importLocalStorage();
     }
-    return DEFAULT_PREFERENCES;
+
+    await this.load();
+    this.migrate();
+    console.log(`Storage ready (${this.adapter.name})`);
   }
 
-  static savePreferences(preferences: UserPreferences): void {
+  // One-time move of data written by versions that kept everything in localStorage
+  private static async importLocalStorage(): Promise<void> {
+    const legacy = new LocalStorageAdapter();
+    const keys = Object.values(STORAGE_KEYS).filter(key => localStorage.getItem(key) !== null);
+    if (keys.length === 0) return;
+
+    console.log(`Moving ${keys.length} records from localStorage to ${this.adapter.name}`);
     try {
-      localStorage.setItem(STORAGE_KEYS.PREFERENCES, JSON.stringify(preferences));
+      for (const key of keys) {
+        if (key !== STORAGE_KEYS.JOURNEY_HISTORY) {
+          await this.adapter.set(key, await legacy.get(key));
+        }
+      }
+
+      // Journeys are validated when loaded, but records without an id or start time
+      // cannot be indexed at all and go straight to quarantine
+      const history = await legacy.get(STORAGE_KEYS.JOURNEY_HISTORY);
+      const journeys = Array.isArray(history) ? history : [];
+      const isIndexable = (journey: Journey) => typeof journey?.id === 'string' && typeof journey?.startTime === 'number';
+      const unindexable = history !== undefined && !Array.isArray(history) ? [history] : journeys.filter(j => !isIndexable(j));
+
+      await this.adapter.replaceJourneys(journeys.filter(isIndexable));
+      if (unindexable.length > 0) {
+        const quarantined = await this.adapter.get(STORAGE_KEYS.QUARANTINE);
+        await this.adapter.set(STORAGE_KEYS.QUARANTINE, [
+          ...(Array.isArray(quarantined) ? quarantined : []),
+          ...unindexable.map(record => ({
+            key: STORAGE_KEYS.JOURNEY_HISTORY,
+            record,
+            reason: 'Journey has no id or start time',
+            quarantinedAt: Date.now()
+          }))
+        ].slice(-MAX_QUARANTINED_RECORDS));
+      }
+
+      await legacy.clear();
     } catch (error) {
-      console.error('Error saving preferences:', error);
+      // localStorage is left untouched so the move is retried on the next start
+      console.error('Error moving localStorage data:', error);
     }
   }
 
-  // Destinations
-  static getDestinations(): Destination[] {
+  private static async load(): Promise<void> {
+    this.cache.clear();
+    this.validated.clear();
+
+    for (const key of Object.values(STORAGE_KEYS)) {
+      const value = key === STORAGE_KEYS.JOURNEY_HISTORY
+        ? await this.adapter.getJourneys()
+        : await this.adapter.get(key);
+
+      if (value !== undefined) {
+        this.cache.set(key, value);
+      }
+    }
+  }
+
+  // Updates the in-memory copy immediately and queues the write to the backend
+  private static write(key: StorageKey, value: unknown): void {
+    if (value === undefined) {
+      this.cache.delete(key);
+    } else {
+      this.cache.set(key, value);
+    }
+    this.validated.add(key);
+
+    this.enqueue(() => {
+      if (key === STORAGE_KEYS.JOURNEY_HISTORY) {
+        return this.adapter.replaceJourneys(value as Journey[] ?? []);
+      }
+      return value === undefined ? this.adapter.remove(key) : this.adapter.set(key, value);
+    }, key);
+  }
+
+  private static enqueue(task: () => Promise<void>, description: string): void {
+    this.writeQueue = this.writeQueue
+      .then(task)
+      .catch(error => console.error(`Error writing ${description}:`, error));
+  }
+
+  // Resolves once every queued write has reached the backend
+  static flush(): Promise<void> {
+    return this.writeQueue;
+  }
+
+  // Schema
+  static getSchemaVersion(): number {
+    const version = Number(this.cache.get(STORAGE_KEYS.SCHEMA_VERSION));
+    return Number.isInteger(version) && version > 0 ? version : 0;
+  }
+
+  private static migrate(): void {
+    const version = this.getSchemaVersion();
+    if (version >= CURRENT_SCHEMA_VERSION) return;
+
+    const store: MigrationStore = {
+      read: key => this.cache.get(key),
+      write: (key, value) => this.write(key, value),
+      remove: key => this.write(key, undefined)
+    };
+
     try {
-      const stored = localStorage.getItem(STORAGE_KEYS.DESTINATIONS);
-      return stored ? JSON.parse(stored) : [];
+      const reached = runMigrations(store, version);
+      this.validated.clear();
+      console.log(`Storage schema migrated from version ${version} to ${reached}`);
     } catch (error) {
-      console.error('Error loading destinations:', error);
+      // The version stamp is left at the last completed step, so the next start retries
+      console.error('Error migrating storage:', error);
+    }
+  }
+
+  // Quarantine
+  static getQuarantinedRecords(): QuarantinedRecord[] {
+    const stored = this.cache.get(STORAGE_KEYS.QUARANTINE);
+    return Array.isArray(stored) ? stored : [];
+  }
+
+  static clearQuarantine(): void {
+    this.write(STORAGE_KEYS.QUARANTINE, undefined);
+  }
+
+  private static quarantine(key: StorageKey, record: unknown, reason: string): void {
+    console.warn(`Quarantining invalid record from ${key}: ${reason}`);
+    const records = [
+      ...this.getQuarantinedRecords(),
+      { key, record, reason, quarantinedAt: Date.now() }
+    ].slice(-MAX_QUARANTINED_RECORDS);
+    this.write(STORAGE_KEYS.QUARANTINE, records);
+  }
+
+  // Stored records are validated the first time they are read after loading
+  private static readRecord<T>(key: StorageKey, schema: z.ZodType<unknown>): T | null {
+    const stored = this.cache.get(key);
+    if (stored === undefined || stored === null) return null;
+    if (this.validated.has(key)) return stored as T;
+
+    const result = schema.safeParse(stored);
+    if (!result.success) {
+      this.quarantine(key, stored, describeValidationError(result.error));
+      this.write(key, undefined);
+      return null;
+    }
+
+    this.cache.set(key, result.data);
+    this.validated.add(key);
+    return result.data as T;
+  }
+
+  // Valid entries of a stored list; invalid entries are quarantined and dropped from the key
+  private static readRecords<T>(key: StorageKey, schema: z.ZodType<unknown>): T[] {
+    const stored = this.cache.get(key);
+    if (stored === undefined) return [];
+    if (this.validated.has(key)) return stored as T[];
+
+    if (!Array.isArray(stored)) {
+      this.quarantine(key, stored, 'Expected a list');
+      this.write(key, []);
       return [];
     }
+
+    const valid: T[] = [];
+    stored.forEach(item => {
+      const result = schema.safeParse(item);
+      if (result.success) {
+        valid.push(result.data as T);
+      } else {
+        this.quarantine(key, item, describeValidationError(result.error));
+      }
+    });
+
+    if (valid.length < stored.length) {
+      this.write(key, valid);
+    } else {
+      this.cache.set(key, valid);
+      this.validated.add(key);
+    }
+    return valid;
   }
 
-  static saveDestinations(destinations: Destination[]): void {
-    try {
-      localStorage.setItem(STORAGE_KEYS.DESTINATIONS, JSON.stringify(destinations));
-    } catch (error) {
-      console.error('Error saving destinations:', error);
+  // Preferences
+  static getPreferences(): UserPreferences {
+    const stored = this.cache.get(STORAGE_KEYS.PREFERENCES);
+    if (stored === undefined) return DEFAULT_PREFERENCES;
+
+    const result = preferencesSchema.safeParse(mergeWithDefaults(DEFAULT_PREFERENCES, stored));
+    if (!result.success) {
+      this.quarantine(STORAGE_KEYS.PREFERENCES, stored, describeValidationError(result.error));
+      this.write(STORAGE_KEYS.PREFERENCES, undefined);
+      return DEFAULT_PREFERENCES;
     }
+    return result.data as UserPreferences;
+  }
+
+  static savePreferences(preferences: UserPreferences): void {
+    this.write(STORAGE_KEYS.PREFERENCES, preferences);
+  }
+
+  // Destinations
+  static getDestinations(): Destination[] {
+    return this.readRecords<Destination>(STORAGE_KEYS.DESTINATIONS, destinationSchema);
+  }
+
+  static saveDestinations(destinations: Destination[]): void {
+    this.write(STORAGE_KEYS.DESTINATIONS, destinations);
   }
 
   static addDestination(destination: Destination): void {
-    const destinations = this.getDestinations();
+    const destinations = [...this.getDestinations()];
     const existingIndex = destinations.findIndex(d => d.id === destination.id);
     
     if (existingIndex >= 0) {
@@ -84,164 +334,126 @@ export class StorageManager {
       destinations.unshift({ ...destination, lastUsed: Date.now() });
     }
     
-    // Keep only last 50 destinations
-    this.saveDestinations(destinations.slice(0, 50));
+    // Keep only the most recent destinations
+    this.saveDestinations(destinations.slice(0, MAX_DESTINATIONS));
   }
 
   static toggleFavoriteDestination(destinationId: string): void {
-    const destinations = this.getDestinations();
-    const destination = destinations.find(d => d.id === destinationId);
-    
-    if (destination) {
-      destination.isFavorite = !destination.isFavorite;
-      this.saveDestinations(destinations);
-    }
+    const destinations = this.getDestinations().map(d =>
+      d.id === destinationId ? { ...d, isFavorite: !d.isFavorite } : d
+    );
+    this.saveDestinations(destinations);
   }
 
-  // Journey History
+  // Journey History (newest first)
   static getJourneyHistory(): Journey[] {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEYS.JOURNEY_HISTORY);
-      return stored ? JSON.parse(stored) : [];
-    } catch (error) {
-      console.error('Error loading journey history:', error);
-      return [];
-    }
+    return this.readRecords<Journey>(STORAGE_KEYS.JOURNEY_HISTORY, journeySchema);
   }
 
   static saveJourneyHistory(journeys: Journey[]): void {
-    try {
-      localStorage.setItem(STORAGE_KEYS.JOURNEY_HISTORY, JSON.stringify(journeys));
-    } catch (error) {
-      console.error('Error saving journey history:', error);
-    }
+    this.write(STORAGE_KEYS.JOURNEY_HISTORY, journeys);
+  }
+
+  // Indexed lookup by start time and destination, answered by the storage backend
+  static async queryJourneys(query: JourneyQuery): Promise<Journey[]> {
+    await this.flush();
+    const journeys = await this.adapter.getJourneys(query);
+    return journeys.filter(journey => journeySchema.safeParse(journey).success);
   }
 
   static addJourney(journey: Journey): void {
-    const journeys = this.getJourneyHistory();
-    journeys.unshift(journey);
-    
-    // Keep only last 100 journeys
-    this.saveJourneyHistory(journeys.slice(0, 100));
-    
-    // Update travel stats
-    this.updateTravelStats(journey);
+    const journeys = [journey, ...this.getJourneyHistory()];
+
+    // Keep only the most recent journeys; only the changed records are written
+    const kept = journeys.slice(0, MAX_JOURNEY_HISTORY);
+    const dropped = journeys.slice(MAX_JOURNEY_HISTORY).map(j => j.id);
+    this.cache.set(STORAGE_KEYS.JOURNEY_HISTORY, kept);
+    this.enqueue(async () => {
+      await this.adapter.putJourney(journey);
+      await this.adapter.deleteJourneys(dropped);
+    }, 'journey');
+
+    this.rebuildTravelStats(kept);
   }
 
   // Current Journey State
   static getCurrentJourney(): Journey | null {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEYS.CURRENT_JOURNEY);
-      return stored ? JSON.parse(stored) : null;
-    } catch (error) {
-      console.error('Error loading current journey:', error);
-      return null;
-    }
+    return this.readRecord<Journey>(STORAGE_KEYS.CURRENT_JOURNEY, journeySchema);
   }
 
   static saveCurrentJourney(journey: Journey | null): void {
-    try {
-      if (journey) {
-        localStorage.setItem(STORAGE_KEYS.CURRENT_JOURNEY, JSON.stringify(journey));
-      } else {
-        localStorage.removeItem(STORAGE_KEYS.CURRENT_JOURNEY);
-      }
-    } catch (error) {
-      console.error('Error saving current journey:', error);
-    }
+    this.write(STORAGE_KEYS.CURRENT_JOURNEY, journey ?? undefined);
   }
 
   // Travel Stats
   static getTravelStats(): TravelStats {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEYS.TRAVEL_STATS);
-      if (stored) {
-        return JSON.parse(stored);
-      }
-    } catch (error) {
-      console.error('Error loading travel stats:', error);
-    }
-    
-    return {
-      totalJourneys: 0,
-      totalDistance: 0,
-      totalTime: 0,
-      averageAccuracy: 0,
-      transportModeUsage: {
-        bus: 0,
-        train: 0,
-        car: 0,
-        walk: 0
-      },
-      weeklyStats: [],
-      monthlyStats: []
-    };
+    const stored = this.readRecord<TravelStats>(STORAGE_KEYS.TRAVEL_STATS, travelStatsSchema);
+    return stored ?? this.rebuildTravelStats();
   }
 
   static saveTravelStats(stats: TravelStats): void {
-    try {
-      localStorage.setItem(STORAGE_KEYS.TRAVEL_STATS, JSON.stringify(stats));
-    } catch (error) {
-      console.error('Error saving travel stats:', error);
-    }
+    this.write(STORAGE_KEYS.TRAVEL_STATS, stats);
   }
 
-  private static updateTravelStats(journey: Journey): void {
-    const stats = this.getTravelStats();
-    
-    stats.totalJourneys += 1;
-    stats.totalDistance += journey.distance || 0;
-    stats.totalTime += (journey.endTime || Date.now()) - journey.startTime;
-    stats.transportModeUsage[journey.transportMode] += 1;
-    
-    // Update weekly/monthly stats
-    const now = new Date();
-    const weekKey = this.getWeekKey(now);
-    const monthKey = this.getMonthKey(now);
-    
-    // Update weekly stats
-    let weekStats = stats.weeklyStats.find(w => w.week === weekKey);
-    if (!weekStats) {
-      weekStats = { week: weekKey, journeys: 0, distance: 0, time: 0 };
-      stats.weeklyStats.push(weekStats);
-    }
-    weekStats.journeys += 1;
-    weekStats.distance += journey.distance || 0;
-    weekStats.time += (journey.endTime || Date.now()) - journey.startTime;
-    
-    // Update monthly stats
-    let monthStats = stats.monthlyStats.find(m => m.month === monthKey);
-    if (!monthStats) {
-      monthStats = { month: monthKey, journeys: 0, distance: 0, time: 0 };
-      stats.monthlyStats.push(monthStats);
-    }
-    monthStats.journeys += 1;
-    monthStats.distance += journey.distance || 0;
-    monthStats.time += (journey.endTime || Date.now()) - journey.startTime;
-    
-    // Keep only last 12 weeks and months
-    stats.weeklyStats = stats.weeklyStats.slice(-12);
-    stats.monthlyStats = stats.monthlyStats.slice(-12);
-    
+  // Stats are always derived from history; the stored copy only saves recomputing on every read
+  static rebuildTravelStats(journeys: Journey[] = this.getJourneyHistory()): TravelStats {
+    const stats = computeTravelStats(journeys);
     this.saveTravelStats(stats);
+    return stats;
+  }
+
+  // Commutes
+  static getCommutes(): CommuteTemplate[] {
+    return this.readRecords<CommuteTemplate>(STORAGE_KEYS.COMMUTES, commuteSchema);
+  }
+
+  static saveCommutes(commutes: CommuteTemplate[]): void {
+    this.write(STORAGE_KEYS.COMMUTES, commutes);
+  }
+
+  // Dates (yyyy-MM-dd) on which no commute comes due
+  static getCommuteHolidays(): string[] {
+    return this.readRecord<string[]>(STORAGE_KEYS.COMMUTE_HOLIDAYS, commuteHolidaysSchema) ?? [];
+  }
+
+  static saveCommuteHolidays(holidays: string[]): void {
+    this.write(STORAGE_KEYS.COMMUTE_HOLIDAYS, holidays);
   }
 
-  private static getWeekKey(date: Date): string {
-    const startOfYear = new Date(date.getFullYear(), 0, 1);
-    const daysSinceStart = Math.floor((date.getTime() - startOfYear.getTime()) / (1000 * 60 * 60 * 24));
-    const weekNumber = Math.ceil((daysSinceStart + startOfYear.getDay() + 1) / 7);
-    return `${date.getFullYear()}-W${weekNumber.toString().padStart(2, '0')}`;
+  // Transit feed imported from a GTFS zip; only one is kept at a time
+  static getTransitFeed(): TransitFeed | null {
+    return this.readRecord<TransitFeed>(STORAGE_KEYS.TRANSIT_FEED, transitFeedSchema);
   }
 
-  private static getMonthKey(date: Date): string {
-    return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+  static saveTransitFeed(feed: TransitFeed | null): void {
+    this.write(STORAGE_KEYS.TRANSIT_FEED, feed ?? undefined);
+  }
+
+  // Offline map areas; the tiles themselves live in the browser's Cache Storage
+  static getOfflineAreas(): OfflineMapArea[] {
+    return this.readRecords<OfflineMapArea>(STORAGE_KEYS.OFFLINE_AREAS, offlineMapAreaSchema);
+  }
+
+  static saveOfflineAreas(areas: OfflineMapArea[]): void {
+    this.write(STORAGE_KEYS.OFFLINE_AREAS, areas);
+  }
+
+  // Emergency contacts
+  static getEmergencyContacts(): EmergencyContact[] {
+    return this.readRecords<EmergencyContact>(STORAGE_KEYS.EMERGENCY_CONTACTS, emergencyContactSchema);
+  }
+
+  static saveEmergencyContacts(contacts: EmergencyContact[]): void {
+    this.write(STORAGE_KEYS.EMERGENCY_CONTACTS, contacts);
   }
 
   // Clear all data
   static clearAllData(): void {
-    Object.values(STORAGE_KEYS).forEach(key => {
-      localStorage.removeItem(key);
-    });
+    this.cache.clear();
+    this.validated.clear();
+    this.enqueue(() => this.adapter.clear(), 'all data');
+    // Empty storage is already at the current schema
+    this.write(STORAGE_KEYS.SCHEMA_VERSION, CURRENT_SCHEMA_VERSION);
   }
 
   // Export data
@@ -251,28 +463,12 @@ export class StorageManager {
       destinations: this.getDestinations(),
       journeyHistory: this.getJourneyHistory(),
       travelStats: this.getTravelStats(),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       exportDate: new Date().toISOString()
     };
     
     return JSON.stringify(data, null, 2);
   }
-
-  // Import data
-  static importData(jsonData: string): boolean {
-    try {
-      const data = JSON.parse(jsonData);
-      
-      if (data.preferences) this.savePreferences(data.preferences);
-      if (data.destinations) this.saveDestinations(data.destinations);
-      if (data.journeyHistory) this.saveJourneyHistory(data.journeyHistory);
-      if (data.travelStats) this.saveTravelStats(data.travelStats);
-      
-      return true;
-    } catch (error) {
-      console.error('Error importing data:', error);
-      return false;
-    }
-  }
 }
 
 export default StorageManager;
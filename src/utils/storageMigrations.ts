@@ -0,0 +1,84 @@
+import { AlertRules } from '@/types';
+import { DEFAULT_ALERT_RULES } from '@/utils/alertRules';
+import { STORAGE_KEYS, StorageKey } from '@/utils/storageSchema';
+
+// Raw JSON access for migrations; they run before any validation
+export interface MigrationStore {
+  read(key: StorageKey): unknown;
+  write(key: StorageKey, value: unknown): void;
+  remove(key: StorageKey): void;
+}
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  migrate(store: MigrationStore): void;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Ordered migrations. Each one upgrades stored data from the previous version; append
+ * new entries with the next version number and never edit ones that have shipped.
+ * Data written before versioning existed is treated as version 0.
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Convert legacy alertDistances preferences into alert rules',
+    migrate: store => {
+      const preferences = store.read(STORAGE_KEYS.PREFERENCES);
+      if (!isPlainObject(preferences) || !('alertDistances' in preferences)) return;
+
+      const { alertDistances, ...rest } = preferences;
+      const legacy = (isPlainObject(alertDistances) ? alertDistances : {}) as {
+        first?: number;
+        approaching?: number;
+        final?: number;
+      };
+
+      if (!rest.alertRules) {
+        const rules: AlertRules = {
+          first_warning: { ...DEFAULT_ALERT_RULES.first_warning },
+          approaching: { ...DEFAULT_ALERT_RULES.approaching },
+          final_warning: { ...DEFAULT_ALERT_RULES.final_warning },
+          arrived: { ...DEFAULT_ALERT_RULES.arrived }
+        };
+
+        if (legacy.first !== undefined) rules.first_warning.time = legacy.first;
+        if (legacy.approaching !== undefined) rules.approaching.distance = legacy.approaching;
+        if (legacy.final !== undefined) rules.final_warning.distance = legacy.final;
+        rest.alertRules = rules;
+      }
+
+      store.write(STORAGE_KEYS.PREFERENCES, rest);
+    }
+  },
+  {
+    version: 2,
+    description: 'Drop incrementally accumulated travel stats so they are rebuilt from history',
+    migrate: store => {
+      store.remove(STORAGE_KEYS.TRAVEL_STATS);
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+// Runs every migration newer than fromVersion, stamping the version after each one so
+// a failure part way through resumes from the last successful step
+export const runMigrations = (store: MigrationStore, fromVersion: number): number => {
+  let version = fromVersion;
+
+  for (const migration of STORAGE_MIGRATIONS) {
+    if (migration.version <= version) continue;
+
+    console.log(`Running storage migration ${migration.version}: ${migration.description}`);
+    migration.migrate(store);
+    version = migration.version;
+    store.write(STORAGE_KEYS.SCHEMA_VERSION, version);
+  }
+
+  return version;
+};
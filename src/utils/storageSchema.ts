@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import { alertRulesSchema, transportModeSchema } from '@/utils/preferencesSchema';
+
+export const STORAGE_KEYS = {
+  PREFERENCES: 'smart_transit_preferences',
+  DESTINATIONS: 'smart_transit_destinations',
+  JOURNEY_HISTORY: 'smart_transit_journey_history',
+  TRAVEL_STATS: 'smart_transit_travel_stats',
+  CURRENT_JOURNEY: 'smart_transit_current_journey',
+  SCHEMA_VERSION: 'smart_transit_schema_version',
+  QUARANTINE: 'smart_transit_quarantine',
+  COMMUTES: 'smart_transit_commutes',
+  COMMUTE_HOLIDAYS: 'smart_transit_commute_holidays',
+  TRANSIT_FEED: 'smart_transit_transit_feed',
+  OFFLINE_AREAS: 'smart_transit_offline_areas',
+  EMERGENCY_CONTACTS: 'smart_transit_emergency_contacts'
+} as const;
+
+export type StorageKey = typeof STORAGE_KEYS[keyof typeof STORAGE_KEYS];
+
+// Schemas for records persisted by StorageManager. Objects pass unknown keys through so
+// that data written by a newer version of the app survives a round trip.
+
+export const locationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  accuracy: z.number().optional(),
+  timestamp: z.number().optional()
+}).passthrough();
+
+export const trackPointSchema = locationSchema.extend({
+  timestamp: z.number()
+});
+
+const latLngTupleSchema = z.tuple([z.number().min(-90).max(90), z.number().min(-180).max(180)]);
+
+export const transitStopSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  location: locationSchema
+}).passthrough();
+
+export const transitRideSchema = z.object({
+  routeId: z.string(),
+  routeName: z.string(),
+  headsign: z.string(),
+  transportMode: transportModeSchema,
+  stops: z.array(transitStopSchema).min(2),
+  shape: z.array(latLngTupleSchema).min(2)
+}).passthrough();
+
+export const transitFeedSchema = z.object({
+  name: z.string(),
+  importedAt: z.number(),
+  stops: z.array(transitStopSchema),
+  routes: z.array(z.object({
+    id: z.string(),
+    shortName: z.string(),
+    longName: z.string(),
+    transportMode: transportModeSchema,
+    patterns: z.array(z.object({
+      id: z.string(),
+      headsign: z.string(),
+      stopIds: z.array(z.string()),
+      shape: z.array(latLngTupleSchema)
+    }).passthrough())
+  }).passthrough())
+}).passthrough();
+
+export const destinationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  address: z.string(),
+  location: locationSchema,
+  placeId: z.string().optional(),
+  isFavorite: z.boolean().optional(),
+  lastUsed: z.number().optional(),
+  distance: z.number().optional(),
+  transit: transitRideSchema.optional()
+}).passthrough();
+
+export const routeSchema = z.object({
+  points: z.array(locationSchema),
+  distance: z.number(),
+  duration: z.number(),
+  polyline: z.string().optional(),
+  source: z.enum(['transit', 'recorded', 'routing']).optional()
+}).passthrough();
+
+export const alertSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  message: z.string(),
+  timestamp: z.number(),
+  distance: z.number().optional(),
+  location: locationSchema.optional(),
+  acknowledged: z.boolean().optional(),
+  leg: z.number().int().min(0).optional()
+}).passthrough();
+
+export const journeyLegSchema = z.object({
+  destination: destinationSchema,
+  transportMode: transportModeSchema,
+  alertRules: alertRulesSchema.optional(),
+  route: routeSchema.optional(),
+  startTime: z.number().optional(),
+  endTime: z.number().optional()
+}).passthrough();
+
+export const journeySchema = z.object({
+  id: z.string(),
+  destination: destinationSchema,
+  startTime: z.number(),
+  endTime: z.number().optional(),
+  transportMode: transportModeSchema,
+  status: z.enum(['idle', 'starting', 'tracking', 'approaching', 'arrived', 'paused', 'stopped']),
+  startLocation: locationSchema.optional(),
+  currentLocation: locationSchema.optional(),
+  route: routeSchema.optional(),
+  track: z.array(trackPointSchema).optional(),
+  alerts: z.array(alertSchema),
+  distance: z.number().optional(),
+  estimatedArrival: z.number().optional(),
+  actualArrival: z.number().optional(),
+  alertRules: alertRulesSchema.optional(),
+  commuteId: z.string().optional(),
+  legs: z.array(journeyLegSchema).min(2).optional(),
+  currentLeg: z.number().int().min(0).optional(),
+  stopsRemaining: z.number().int().min(0).optional(),
+  arrivalPendingSince: z.number().optional(),
+  missedStop: z.object({
+    detectedAt: z.number(),
+    location: locationSchema,
+    suggestion: z.string(),
+    acknowledged: z.boolean()
+  }).passthrough().optional(),
+  snoozedAlarm: z.object({
+    alertId: z.string(),
+    until: z.number().optional(),
+    distance: z.number().optional()
+  }).passthrough().optional()
+}).passthrough();
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a yyyy-MM-dd date');
+
+export const commuteSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  destination: destinationSchema,
+  transportMode: transportModeSchema,
+  alertRules: alertRulesSchema,
+  schedule: z.object({
+    days: z.array(z.number().int().min(0).max(6)),
+    time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected an HH:mm time'),
+    action: z.enum(['prompt', 'auto'])
+  }),
+  enabled: z.boolean(),
+  skippedDates: z.array(dateKeySchema),
+  lastTriggered: dateKeySchema.optional(),
+  createdAt: z.number()
+}).passthrough();
+
+export const commuteHolidaysSchema = z.array(dateKeySchema);
+
+export const offlineMapAreaSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  destinationId: z.string().optional(),
+  bounds: z.object({
+    north: z.number().min(-90).max(90),
+    south: z.number().min(-90).max(90),
+    east: z.number().min(-180).max(180),
+    west: z.number().min(-180).max(180)
+  }),
+  minZoom: z.number().int().min(0),
+  maxZoom: z.number().int().max(19),
+  tileCount: z.number().int().min(0),
+  bytes: z.number().min(0),
+  downloadedAt: z.number()
+}).passthrough();
+
+export const emergencyContactSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  phone: z.string(),
+  email: z.string().optional(),
+  relationship: z.string(),
+  notifyOn: z.array(z.enum(['start', 'arrival', 'overdue'])).default([])
+}).passthrough();
+
+const periodStatsSchema = z.object({
+  journeys: z.number(),
+  distance: z.number(),
+  time: z.number()
+});
+
+export const travelStatsSchema = z.object({
+  totalJourneys: z.number(),
+  totalDistance: z.number(),
+  totalTime: z.number(),
+  averageAccuracy: z.number(),
+  transportModeUsage: z.record(transportModeSchema, z.number()),
+  weeklyStats: z.array(periodStatsSchema.extend({ week: z.string() })),
+  monthlyStats: z.array(periodStatsSchema.extend({ month: z.string() }))
+}).passthrough();
+
+export const describeValidationError = (error: z.ZodError): string =>
+  error.issues
+    .slice(0, 3)
+    .map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`)
+    .join('; ');
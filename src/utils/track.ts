@@ -0,0 +1,76 @@
+import { Location, TrackPoint } from '@/types';
+import { calculateDistance } from '@/utils/geolocation';
+
+const COORDINATE_PRECISION = 1e6; // ~0.1m
+const MIN_POINT_DISTANCE = 5; // meters between recorded points
+const MAX_POINT_INTERVAL = 60000; // always record at least once a minute
+const MAX_TRACK_POINTS = 5000;
+
+const round = (value: number): number => Math.round(value * COORDINATE_PRECISION) / COORDINATE_PRECISION;
+
+export const toTrackPoint = (location: Location): TrackPoint => ({
+  lat: round(location.lat),
+  lng: round(location.lng),
+  accuracy: location.accuracy !== undefined ? Math.round(location.accuracy) : undefined,
+  timestamp: location.timestamp ?? Date.now()
+});
+
+/**
+ * Appends a position to a track, skipping points that add no information
+ * (GPS jitter while stationary) and thinning the track when it grows too long.
+ */
+export const appendTrackPoint = (track: TrackPoint[] = [], location: Location): TrackPoint[] => {
+  const point = toTrackPoint(location);
+  const last = track[track.length - 1];
+
+  if (last) {
+    if (point.timestamp <= last.timestamp) return track;
+
+    const moved = calculateDistance(last, point);
+    const threshold = Math.max(MIN_POINT_DISTANCE, (point.accuracy ?? 0) / 2);
+    if (moved < threshold && point.timestamp - last.timestamp < MAX_POINT_INTERVAL) {
+      return track;
+    }
+  }
+
+  const next = [...track, point];
+  if (next.length <= MAX_TRACK_POINTS) return next;
+
+  // Drop every other point but keep the start and the newest position
+  return next.filter((_, index) => index === 0 || index === next.length - 1 || index % 2 === 0);
+};
+
+export const getTrackDistance = (track: Location[] = []): number => {
+  let distance = 0;
+  for (let i = 1; i < track.length; i++) {
+    distance += calculateDistance(track[i - 1], track[i]);
+  }
+  return distance;
+};
+
+// Interpolated position at a point in time, clamped to the ends of the track
+export const getTrackPositionAt = (track: TrackPoint[], timestamp: number): Location | null => {
+  if (track.length === 0) return null;
+  if (timestamp <= track[0].timestamp) return track[0];
+
+  const last = track[track.length - 1];
+  if (timestamp >= last.timestamp) return last;
+
+  const nextIndex = track.findIndex(point => point.timestamp > timestamp);
+  const from = track[nextIndex - 1];
+  const to = track[nextIndex];
+  const ratio = (timestamp - from.timestamp) / (to.timestamp - from.timestamp);
+
+  return {
+    lat: from.lat + (to.lat - from.lat) * ratio,
+    lng: from.lng + (to.lng - from.lng) * ratio,
+    timestamp
+  };
+};
+
+// Points recorded up to a point in time, ending at the interpolated position
+export const getTrackUntil = (track: TrackPoint[], timestamp: number): Location[] => {
+  const recorded = track.filter(point => point.timestamp <= timestamp);
+  const position = getTrackPositionAt(track, timestamp);
+  return position && recorded.length < track.length ? [...recorded, position] : recorded;
+};
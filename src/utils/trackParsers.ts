@@ -0,0 +1,85 @@
+import { Location } from '@/types';
+
+const parseTime = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+// Track (trkpt) or route (rtept) points from a GPX document, with their <time> if present
+export const parseGpx = (text: string): Location[] => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The GPX file is not valid XML');
+  }
+
+  let elements = Array.from(document.getElementsByTagName('trkpt'));
+  if (elements.length === 0) {
+    elements = Array.from(document.getElementsByTagName('rtept'));
+  }
+
+  return elements.map(element => ({
+    lat: parseFloat(element.getAttribute('lat') || ''),
+    lng: parseFloat(element.getAttribute('lon') || ''),
+    timestamp: parseTime(element.getElementsByTagName('time')[0]?.textContent)
+  }));
+};
+
+type Position = number[];
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: Position[] | Position[][];
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: GeoJsonGeometry | null;
+  properties?: { coordTimes?: string[] | string[][] } | null;
+}
+
+const toLocations = (coordinates: Position[], times: string[] = []): Location[] =>
+  coordinates.map(([lng, lat], index) => ({ lat, lng, timestamp: parseTime(times[index]) }));
+
+const parseGeometry = (geometry: GeoJsonGeometry | null, coordTimes?: string[] | string[][]): Location[] => {
+  if (!geometry?.coordinates) return [];
+
+  switch (geometry.type) {
+    case 'LineString':
+      return toLocations(geometry.coordinates as Position[], coordTimes as string[]);
+    case 'MultiLineString':
+      return (geometry.coordinates as Position[][]).flatMap((line, index) =>
+        toLocations(line, (coordTimes as string[][] | undefined)?.[index])
+      );
+    default:
+      return [];
+  }
+};
+
+// LineString/MultiLineString geometries; times are read from the common `coordTimes` property
+export const parseGeoJson = (text: string): Location[] => {
+  const data = JSON.parse(text);
+
+  switch (data?.type) {
+    case 'FeatureCollection':
+      return (data.features as GeoJsonFeature[]).flatMap(feature =>
+        parseGeometry(feature.geometry, feature.properties?.coordTimes)
+      );
+    case 'Feature':
+      return parseGeometry(data.geometry, data.properties?.coordTimes);
+    default:
+      return parseGeometry(data);
+  }
+};
+
+export const parseTrackFile = (fileName: string, text: string): Location[] => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const points = extension === 'gpx' ? parseGpx(text) : parseGeoJson(text);
+  const valid = points.filter(point => Number.isFinite(point.lat) && Number.isFinite(point.lng));
+
+  if (valid.length < 2) {
+    throw new Error('No track with at least two points was found in the file');
+  }
+
+  return valid;
+};
@@ -0,0 +1,107 @@
+import { Destination, Location, TransitFeed, TransitPattern, TransitRide, TransitRoute, TransitStop } from '@/types';
+import { getRouteName } from '@/utils/gtfs';
+import { BACKTRACK_ALLOWANCE, OFF_ROUTE_DISTANCE } from '@/utils/journeyRoute';
+import { clipPolyline, getCumulativeDistances, projectOntoPolyline } from '@/utils/routeGeometry';
+
+// A stop this close behind or ahead counts as reached, so waiting at a stop counts it as passed
+const STOP_REACHED_DISTANCE = 30;
+
+export interface RideProgress {
+  distanceAlong: number; // meters along the ride's shape
+  stopsRemaining: number;
+}
+
+interface RideGeometry {
+  cumulative: number[];
+  stopDistances: number[];
+}
+
+// Rides are immutable snapshots, so their geometry is worked out once per ride
+const geometryCache = new WeakMap<TransitRide, RideGeometry>();
+
+const getRideGeometry = (ride: TransitRide): RideGeometry => {
+  const cached = geometryCache.get(ride);
+  if (cached) return cached;
+
+  const cumulative = getCumulativeDistances(ride.shape);
+  // Each stop is searched for from the previous one on, keeping them in order on looping shapes
+  let from = 0;
+  const stopDistances = ride.stops.map(stop => {
+    from = projectOntoPolyline(ride.shape, stop.location, cumulative, from)?.distanceAlong ?? from;
+    return from;
+  });
+
+  const geometry = { cumulative, stopDistances };
+  geometryCache.set(ride, geometry);
+  return geometry;
+};
+
+export const getPatternStops = (feed: TransitFeed, pattern: TransitPattern): TransitStop[] => {
+  const stops = new Map(feed.stops.map(stop => [stop.id, stop]));
+  return pattern.stopIds.map(id => stops.get(id)).filter((stop): stop is TransitStop => !!stop);
+};
+
+// Snapshot of a pattern up to the stop at `alightingIndex`, so the journey no longer depends on the feed
+export const buildTransitRide = (
+  route: TransitRoute,
+  pattern: TransitPattern,
+  stops: TransitStop[],
+  alightingIndex: number
+): TransitRide => {
+  const rideStops = stops.slice(0, alightingIndex + 1);
+  const cumulative = getCumulativeDistances(pattern.shape);
+
+  let from = 0;
+  rideStops.forEach(stop => {
+    from = projectOntoPolyline(pattern.shape, stop.location, cumulative, from)?.distanceAlong ?? from;
+  });
+
+  return {
+    routeId: route.id,
+    routeName: getRouteName(route),
+    headsign: pattern.headsign,
+    transportMode: route.transportMode,
+    stops: rideStops,
+    shape: clipPolyline(pattern.shape, from, cumulative)
+  };
+};
+
+export const createTransitDestination = (ride: TransitRide): Destination => {
+  const stop = ride.stops[ride.stops.length - 1];
+  return {
+    id: `transit_${ride.routeId}_${stop.id}`,
+    name: stop.name,
+    address: `${ride.routeName} towards ${ride.headsign}`,
+    location: stop.location,
+    transit: ride
+  };
+};
+
+/**
+ * Stops still to come before and including the alighting stop, found by snapping the
+ * position onto the ride's shape. As with route progress, passing the previous
+ * `distanceAlong` keeps a looping shape from snapping to a later pass near the same
+ * place. Null when the position is too far from the shape to tell, in which case
+ * alerts fall back to distance and time.
+ */
+export const getRideProgress = (
+  ride: TransitRide,
+  location: Location,
+  previousDistanceAlong: number | null = null
+): RideProgress | null => {
+  const { cumulative, stopDistances } = getRideGeometry(ride);
+  const fromDistance = previousDistanceAlong === null ? 0 : Math.max(0, previousDistanceAlong - BACKTRACK_ALLOWANCE);
+  const projection = projectOntoPolyline(ride.shape, location, cumulative, fromDistance);
+  if (!projection || projection.offset > OFF_ROUTE_DISTANCE) return null;
+
+  return {
+    distanceAlong: projection.distanceAlong,
+    stopsRemaining: stopDistances.filter(distance => distance > projection.distanceAlong + STOP_REACHED_DISTANCE).length
+  };
+};
+
+export const formatStopsRemaining = (stops: number): string => {
+  if (stops === 0) return 'At your stop';
+  if (stops === 1) return 'Your stop is next';
+  return `${stops} stops to go`;
+};
@@ -0,0 +1,104 @@
+import { format } from 'date-fns';
+import { Journey, Location, MonthlyStats, TravelStats, WeeklyStats } from '@/types';
+import { calculateDistance } from '@/utils/geolocation';
+import { getJourneyDistance, getJourneyDuration } from '@/utils/journeyHistory';
+
+const PERIODS_KEPT = 12;
+// An alert this far or further from where the user actually stopped scores 0%
+const ACCURACY_TOLERANCE = 500; // meters
+
+export const createEmptyTravelStats = (): TravelStats => ({
+  totalJourneys: 0,
+  totalDistance: 0,
+  totalTime: 0,
+  averageAccuracy: 0,
+  transportModeUsage: {
+    bus: 0,
+    train: 0,
+    car: 0,
+    walk: 0
+  },
+  weeklyStats: [],
+  monthlyStats: []
+});
+
+// ISO 8601 week, e.g. 2024-W01 (which can start in the last days of December)
+export const getWeekKey = (date: Date | number): string => format(date, "RRRR-'W'II");
+
+export const getMonthKey = (date: Date | number): string => format(date, 'yyyy-MM');
+
+// Where the journey actually ended: the last recorded position
+const getStopPosition = (journey: Journey): Location | undefined =>
+  journey.track && journey.track.length > 0
+    ? journey.track[journey.track.length - 1]
+    : journey.currentLocation;
+
+/**
+ * How well the closest alert to arrival matched where the user really stopped, from
+ * 0 to 100. Uses the arrival alert, or the final warning when the user ended the
+ * journey before arrival was detected. Null when there is nothing to compare.
+ */
+export const getAlertAccuracy = (journey: Journey): number | null => {
+  const stop = getStopPosition(journey);
+  const alert = journey.alerts.find(a => a.type === 'arrived' && a.location)
+    ?? journey.alerts.find(a => a.type === 'final_warning' && a.location);
+  if (!stop || !alert) return null;
+
+  const error = calculateDistance(alert.location!, stop);
+  return Math.max(0, Math.min(100, 100 * (1 - error / ACCURACY_TOLERANCE)));
+};
+
+const addToPeriod = <T extends WeeklyStats | MonthlyStats>(
+  periods: Map<string, T>,
+  key: string,
+  create: () => T,
+  distance: number,
+  time: number
+): void => {
+  const period = periods.get(key) ?? create();
+  period.journeys += 1;
+  period.distance += distance;
+  period.time += time;
+  periods.set(key, period);
+};
+
+// Stats derived entirely from journey history
+export const computeTravelStats = (journeys: Journey[]): TravelStats => {
+  const stats = createEmptyTravelStats();
+  const weeks = new Map<string, WeeklyStats>();
+  const months = new Map<string, MonthlyStats>();
+  const accuracies: number[] = [];
+
+  journeys.forEach(journey => {
+    const distance = getJourneyDistance(journey) ?? 0;
+    const time = getJourneyDuration(journey) ?? 0;
+
+    stats.totalJourneys += 1;
+    stats.totalDistance += distance;
+    stats.totalTime += time;
+    stats.transportModeUsage[journey.transportMode] += 1;
+
+    const week = getWeekKey(journey.startTime);
+    const month = getMonthKey(journey.startTime);
+    addToPeriod(weeks, week, () => ({ week, journeys: 0, distance: 0, time: 0 }), distance, time);
+    addToPeriod(months, month, () => ({ month, journeys: 0, distance: 0, time: 0 }), distance, time);
+
+    const accuracy = getAlertAccuracy(journey);
+    if (accuracy !== null) {
+      accuracies.push(accuracy);
+    }
+  });
+
+  // Keys sort chronologically; keep the most recent periods
+  stats.weeklyStats = Array.from(weeks.values())
+    .sort((a, b) => a.week.localeCompare(b.week))
+    .slice(-PERIODS_KEPT);
+  stats.monthlyStats = Array.from(months.values())
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .slice(-PERIODS_KEPT);
+  stats.averageAccuracy = accuracies.length > 0
+    ? accuracies.reduce((sum, accuracy) => sum + accuracy, 0) / accuracies.length
+    : 0;
+
+  return stats;
+};
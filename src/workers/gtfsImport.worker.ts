@@ -0,0 +1,18 @@
+import { TransitFeed } from '@/types';
+import { GtfsImportError, parseGtfsFile } from '@/utils/gtfs';
+
+export type GtfsImportResult =
+  | { feed: TransitFeed }
+  | { error: string; invalidFeed: boolean };
+
+// Decompressing and parsing a large feed takes seconds, so it runs here rather than on the UI thread
+self.onmessage = async (event: MessageEvent<File>) => {
+  const file = event.data;
+  let result: GtfsImportResult;
+  try {
+    result = { feed: await parseGtfsFile(file, file.name.replace(/\.zip$/i, '')) };
+  } catch (error) {
+    result = { error: error instanceof Error ? error.message : String(error), invalidFeed: error instanceof GtfsImportError };
+  }
+  self.postMessage(result);
+};
@@ -1,8 +1,21 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Lists the built files so the service worker can precache the app shell
+const precacheManifest = (): Plugin => ({
+  name: "precache-manifest",
+  apply: "build",
+  generateBundle(_options, bundle) {
+    this.emitFile({
+      type: "asset",
+      fileName: "precache-manifest.json",
+      source: JSON.stringify(Object.keys(bundle).map((file) => `/${file}`)),
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +24,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    precacheManifest(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),